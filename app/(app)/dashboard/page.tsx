@@ -2,18 +2,31 @@
 
 import { useReservations } from "@/context/ReservationContext"
 import Link from "next/link"
+import type { ReservationStatus } from "@/lib/shared/reservationStatus"
+import { formatTimeKey } from "@/lib/shared/time"
+import DayNavigator, { formatDayLabel } from "../day-navigator"
+
+// Guests who confirmed, arrived or already left.
+const SAFE_STATUSES: ReservationStatus[] = ["confirmed", "seated", "completed"]
 
 export default function DashboardPage() {
-  const { reservations } = useReservations()
+  const {
+    reservations: allReservations,
+    selectedDate,
+    localeSettings
+  } = useReservations()
+  const reservations = allReservations
+    .filter(r => r.date === selectedDate)
+    .sort((a, b) => a.time.localeCompare(b.time))
   const rescuedCount = reservations.filter(
-    r => r.status === "filled"
+    r => r.status === "refilled"
   ).length
   const attentionReservations = reservations.filter(
-    r => r.status === "attention"
+    r => r.status === "booked"
   )
 
   const protectedRevenue = reservations
-    .filter(r => r.status === "confirmed" || r.status === "filled")
+    .filter(r => SAFE_STATUSES.includes(r.status) || r.status === "refilled")
     .reduce((total, r) => total + r.estimatedRevenue, 0)
 
   const atRiskRevenue = attentionReservations
@@ -33,8 +46,11 @@ export default function DashboardPage() {
             Dashboard
           </h1>
           <p className="text-sm text-gray-400 mt-1">
-            Vandaag · {new Date().toLocaleDateString("nl-BE")}
+            {formatDayLabel(selectedDate, localeSettings)}
           </p>
+          <div className="mt-3">
+            <DayNavigator />
+          </div>
         </div>
 
         {attentionReservations.length === 0 ? (
@@ -75,7 +91,7 @@ export default function DashboardPage() {
                       {r.name}
                     </p>
                     <p className="text-sm text-gray-400">
-                      {r.time} · {r.partySize} personen
+                      {formatTimeKey(r.time, localeSettings.locale)} · {r.partySize} personen
                     </p>
                   </div>
                   <span className="text-sm text-orange-600 font-medium">
@@ -93,10 +109,10 @@ export default function DashboardPage() {
 
         <div className="bg-[#f9f6f0] rounded-2xl p-6">
           <p className="text-sm text-gray-500 mb-2">
-            Vandaag veilig
+            Veilig
           </p>
           <p className="text-4xl font-semibold text-[#1f3d2b]">
-            {reservations.filter(r => r.status === "confirmed").length}
+            {reservations.filter(r => SAFE_STATUSES.includes(r.status)).length}
           </p>
         </div>
 
@@ -105,13 +121,13 @@ export default function DashboardPage() {
             Aandacht nodig
           </p>
           <p className="text-4xl font-semibold text-[#d87a3b]">
-            {reservations.filter(r => r.status === "attention").length}
+            {attentionReservations.length}
           </p>
         </div>
 
         <div className="bg-[#f9f6f0] rounded-2xl p-6">
           <p className="text-sm text-gray-500 mb-2">
-            Tafels gered vandaag
+            Tafels gered
           </p>
           <p className="text-4xl font-semibold text-[#1f3d2b]">
             {rescuedCount}
@@ -144,7 +160,7 @@ export default function DashboardPage() {
             €{missedRevenue.toLocaleString("nl-BE")}
           </p>
           <p className="text-xs text-amber-700 mt-1">
-            Niet-opgevulde tafels vandaag
+            Niet-opgevulde tafels deze dag
           </p>
         </div>
 
@@ -158,8 +174,7 @@ export default function DashboardPage() {
 
         <div className="bg-white border border-gray-100 rounded-2xl divide-y">
 
-          {reservations
-            .filter(r => r.status === "attention")
+          {attentionReservations
             .map(r => (
               <Link key={r.id} href="/reservations">
                 <div className="flex justify-between items-center p-4 hover:bg-[#f9f6f0] transition cursor-pointer">
@@ -168,7 +183,7 @@ export default function DashboardPage() {
                       {r.name}
                     </p>
                     <p className="text-sm text-gray-400">
-                      {r.time} · {r.partySize} personen
+                      {formatTimeKey(r.time, localeSettings.locale)} · {r.partySize} personen
                     </p>
                   </div>
                   <span className="text-sm text-[#d87a3b] font-medium">
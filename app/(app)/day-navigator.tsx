@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { useReservations } from "@/context/ReservationContext"
+import type { LocaleSettings } from "@/lib/shared/settings"
+import { formatDateKey, getDateKeyInZone, shiftDateKey } from "@/lib/shared/time"
+
+export function formatDayLabel(date: string, localeSettings: LocaleSettings): string {
+  const today = getDateKeyInZone(Date.now(), localeSettings.timeZone)
+  const formatted = formatDateKey(date, localeSettings.locale)
+  if (date === today) return `Vandaag · ${formatted}`
+  if (date === shiftDateKey(today, 1)) return `Morgen · ${formatted}`
+  if (date === shiftDateKey(today, -1)) return `Gisteren · ${formatted}`
+  return formatted
+}
+
+export default function DayNavigator() {
+  const { selectedDate, setSelectedDate, localeSettings } = useReservations()
+  const [now] = useState(() => Date.now())
+  const today = getDateKeyInZone(now, localeSettings.timeZone)
+  const tomorrow = shiftDateKey(today, 1)
+
+  const buttonClass = (active: boolean) =>
+    `rounded-lg border px-3 py-1.5 text-sm transition ${
+      active
+        ? "border-[#1f3d2b] bg-[#1f3d2b] text-white"
+        : "border-gray-300 text-gray-600 hover:bg-[#f9f6f0]"
+    }`
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        type="button"
+        onClick={() => setSelectedDate(shiftDateKey(selectedDate, -1))}
+        className={buttonClass(false)}
+        aria-label="Vorige dag"
+      >
+        ‹
+      </button>
+      <button
+        type="button"
+        onClick={() => setSelectedDate(today)}
+        className={buttonClass(selectedDate === today)}
+      >
+        Vandaag
+      </button>
+      <button
+        type="button"
+        onClick={() => setSelectedDate(tomorrow)}
+        className={buttonClass(selectedDate === tomorrow)}
+      >
+        Morgen
+      </button>
+      <button
+        type="button"
+        onClick={() => setSelectedDate(shiftDateKey(selectedDate, 1))}
+        className={buttonClass(false)}
+        aria-label="Volgende dag"
+      >
+        ›
+      </button>
+      <input
+        type="date"
+        value={selectedDate}
+        onChange={e => {
+          if (e.target.value) setSelectedDate(e.target.value)
+        }}
+        className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+"use client"
+
+import { FormEvent, useState } from "react"
+import { useReservations, type TableDraft } from "@/context/ReservationContext"
+import type { RestaurantTable } from "@/data/tables"
+import { isOpenTable } from "@/lib/shared/reservationStatus"
+import {
+  FLOOR_PLAN_COLUMNS,
+  FLOOR_PLAN_ROWS,
+  MAX_TABLE_COVERS,
+  areCombinable
+} from "@/lib/shared/tables"
+import { formatTimeKey } from "@/lib/shared/time"
+import DayNavigator, { formatDayLabel } from "../day-navigator"
+
+type TableForm = {
+  name: string
+  minCovers: number
+  maxCovers: number
+  area: string
+  combinableWith: string[]
+}
+
+const EMPTY_FORM: TableForm = {
+  name: "",
+  minCovers: 2,
+  maxCovers: 4,
+  area: "",
+  combinableWith: []
+}
+
+function formFromTable(table: RestaurantTable, tables: RestaurantTable[]): TableForm {
+  return {
+    name: table.name,
+    minCovers: table.minCovers,
+    maxCovers: table.maxCovers,
+    area: table.area ?? "",
+    combinableWith: tables
+      .filter(other => other.id !== table.id && areCombinable(table, other))
+      .map(other => other.id)
+  }
+}
+
+export default function FloorPlanPage() {
+  const {
+    tables,
+    reservations,
+    selectedDate,
+    localeSettings,
+    addTable,
+    updateTable,
+    removeTable
+  } = useReservations()
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null)
+  const [form, setForm] = useState<TableForm>(EMPTY_FORM)
+  const [error, setError] = useState("")
+
+  const selectedTable = tables.find(table => table.id === selectedId)
+  const tableAt = (x: number, y: number) =>
+    tables.find(table => table.x === x && table.y === y)
+  const firstFreeCell = () => {
+    for (let y = 0; y < FLOOR_PLAN_ROWS; y += 1) {
+      for (let x = 0; x < FLOOR_PLAN_COLUMNS; x += 1) {
+        if (!tableAt(x, y)) return { x, y }
+      }
+    }
+    return null
+  }
+  const newTablePosition = position ?? firstFreeCell()
+
+  const dayReservations = reservations
+    .filter(reservation => reservation.date === selectedDate && !isOpenTable(reservation.status))
+    .sort((a, b) => a.time.localeCompare(b.time))
+  const reservationsAt = (tableId: string) =>
+    dayReservations.filter(reservation => reservation.tableIds.includes(tableId))
+
+  function selectTable(table: RestaurantTable) {
+    setSelectedId(table.id)
+    setPosition(null)
+    setForm(formFromTable(table, tables))
+    setError("")
+  }
+
+  function closeEditor() {
+    setSelectedId(null)
+    setPosition(null)
+    setForm(EMPTY_FORM)
+    setError("")
+  }
+
+  function handleCellClick(x: number, y: number) {
+    const table = tableAt(x, y)
+    if (table) {
+      selectTable(table)
+      return
+    }
+    if (selectedTable) {
+      void updateTable(selectedTable.id, { x, y })
+      return
+    }
+    setPosition({ x, y })
+  }
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+
+    if (!form.name.trim()) {
+      setError("Naam van de tafel is verplicht.")
+      return
+    }
+    if (
+      !Number.isInteger(form.minCovers) ||
+      !Number.isInteger(form.maxCovers) ||
+      form.minCovers < 1 ||
+      form.maxCovers > MAX_TABLE_COVERS
+    ) {
+      setError(`Het aantal plaatsen moet tussen 1 en ${MAX_TABLE_COVERS} liggen.`)
+      return
+    }
+    if (form.minCovers > form.maxCovers) {
+      setError("Minimum plaatsen mag niet groter zijn dan het maximum.")
+      return
+    }
+
+    const draft: Omit<TableDraft, "x" | "y"> = {
+      name: form.name.trim(),
+      minCovers: form.minCovers,
+      maxCovers: form.maxCovers,
+      area: form.area.trim() || undefined,
+      combinableWith: form.combinableWith
+    }
+
+    if (selectedTable) {
+      // Combining works both ways, so a table that lists this one is
+      // unlinked as well when the box is cleared.
+      const unlinked = tables.filter(
+        table =>
+          table.id !== selectedTable.id &&
+          table.combinableWith.includes(selectedTable.id) &&
+          !form.combinableWith.includes(table.id)
+      )
+      const saved = await updateTable(selectedTable.id, { ...draft, area: draft.area ?? "" })
+      for (const table of unlinked) {
+        await updateTable(table.id, {
+          combinableWith: table.combinableWith.filter(id => id !== selectedTable.id)
+        })
+      }
+      if (saved) closeEditor()
+      return
+    }
+
+    if (!newTablePosition) {
+      setError("Het zaalplan is vol.")
+      return
+    }
+    if (await addTable({ ...draft, ...newTablePosition })) closeEditor()
+  }
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <h1 className="text-3xl font-semibold text-[#1f3d2b]">
+          Zaalplan
+        </h1>
+        <p className="text-sm text-gray-400 mt-1">
+          Leg je tafels vast zodat een vrijgekomen tafel naar een passende groep van de wachtlijst gaat.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <h2 className="text-lg font-semibold text-[#1f3d2b]">
+          {formatDayLabel(selectedDate, localeSettings)}
+        </h2>
+        <DayNavigator />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2 bg-white rounded-2xl border border-gray-100 p-6 space-y-4">
+          <p className="text-sm text-gray-500">
+            {selectedTable
+              ? `Klik op een leeg vak om ${selectedTable.name} te verplaatsen.`
+              : "Klik op een tafel om ze te bewerken, of op een leeg vak om er een tafel te plaatsen."}
+          </p>
+          <div
+            className="grid gap-2"
+            style={{ gridTemplateColumns: `repeat(${FLOOR_PLAN_COLUMNS}, minmax(0, 1fr))` }}
+          >
+            {Array.from({ length: FLOOR_PLAN_ROWS }, (_, y) =>
+              Array.from({ length: FLOOR_PLAN_COLUMNS }, (_, x) => {
+                const table = tableAt(x, y)
+                const isSelected = Boolean(table && table.id === selectedId)
+                const isNewPosition =
+                  !selectedTable && newTablePosition?.x === x && newTablePosition?.y === y
+                const booked = table ? reservationsAt(table.id) : []
+                return (
+                  <button
+                    key={`${x}:${y}`}
+                    type="button"
+                    onClick={() => handleCellClick(x, y)}
+                    title={booked
+                      .map(reservation => `${reservation.time} ${reservation.name}`)
+                      .join("\n")}
+                    className={`aspect-square rounded-lg border text-[11px] leading-tight transition ${
+                      table
+                        ? isSelected
+                          ? "border-[#d87a3b] bg-orange-50 text-[#1f3d2b]"
+                          : "border-[#1f3d2b] bg-[#f9f6f0] text-[#1f3d2b] hover:bg-[#f3efe7]"
+                        : isNewPosition
+                          ? "border-dashed border-[#d87a3b] bg-orange-50/40"
+                          : "border-dashed border-gray-200 hover:bg-[#fcfaf5]"
+                    }`}
+                  >
+                    {table && (
+                      <>
+                        <span className="block font-semibold">{table.name}</span>
+                        <span className="block text-gray-500">
+                          {table.minCovers}-{table.maxCovers}
+                        </span>
+                        {booked.length > 0 && (
+                          <span className="block text-[#d87a3b]">
+                            {formatTimeKey(booked[0].time, localeSettings.locale)}
+                            {booked.length > 1 ? ` +${booked.length - 1}` : ""}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </button>
+                )
+              })
+            )}
+          </div>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl border border-gray-100 p-6 space-y-4"
+        >
+          <div>
+            <h2 className="text-lg font-semibold text-[#1f3d2b]">
+              {selectedTable ? `${selectedTable.name} bewerken` : "Nieuwe tafel"}
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {selectedTable
+                ? `${reservationsAt(selectedTable.id).length} reservaties op deze dag.`
+                : "Een groep past aan een tafel tussen het minimum en maximum aantal plaatsen."}
+            </p>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-[#1f3d2b]">Naam</span>
+            <input
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              placeholder="Bijv. T12"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-[#1f3d2b]">Min. plaatsen</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_TABLE_COVERS}
+                step={1}
+                value={form.minCovers}
+                onChange={e => setForm({ ...form, minCovers: Number(e.target.value) })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium text-[#1f3d2b]">Max. plaatsen</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_TABLE_COVERS}
+                step={1}
+                value={form.maxCovers}
+                onChange={e => setForm({ ...form, maxCovers: Number(e.target.value) })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-[#1f3d2b]">Zone (optioneel)</span>
+            <input
+              value={form.area}
+              onChange={e => setForm({ ...form, area: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              placeholder="Bijv. terras"
+            />
+          </label>
+
+          {tables.some(table => table.id !== selectedId) && (
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-[#1f3d2b]">
+                Kan samengezet worden met
+              </legend>
+              <div className="flex flex-wrap gap-2">
+                {tables
+                  .filter(table => table.id !== selectedId)
+                  .map(table => (
+                    <label
+                      key={table.id}
+                      className="flex items-center gap-1.5 rounded-full border border-gray-200 px-2.5 py-1 text-xs text-gray-600"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={form.combinableWith.includes(table.id)}
+                        onChange={e =>
+                          setForm({
+                            ...form,
+                            combinableWith: e.target.checked
+                              ? [...form.combinableWith, table.id]
+                              : form.combinableWith.filter(id => id !== table.id)
+                          })
+                        }
+                      />
+                      {table.name}
+                    </label>
+                  ))}
+              </div>
+            </fieldset>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            className="w-full bg-[#1f3d2b] text-white rounded-lg px-4 py-2.5 hover:opacity-90 transition"
+          >
+            {selectedTable ? "Opslaan" : "Tafel toevoegen"}
+          </button>
+
+          {selectedTable && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={closeEditor}
+                className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-600 hover:bg-[#f9f6f0]"
+              >
+                Sluiten
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (!window.confirm(`${selectedTable.name} verwijderen van het zaalplan?`)) return
+                  removeTable(selectedTable.id)
+                  closeEditor()
+                }}
+                className="flex-1 rounded-lg border border-red-200 px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+              >
+                Verwijderen
+              </button>
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
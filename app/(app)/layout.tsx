@@ -41,6 +41,7 @@ export default async function AppLayout({
           <NavItem href="/dashboard" label="Dashboard" />
           <NavItem href="/reservations" label="Reserveringen" />
           <NavItem href="/waitlist" label="Wachtlijst" />
+          <NavItem href="/floor-plan" label="Zaalplan" />
           <NavItem href="/settings" label="Instellingen" />
         </nav>
 
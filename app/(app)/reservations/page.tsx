@@ -2,22 +2,63 @@
 
 import { FormEvent, useState } from "react"
 import { useReservations } from "@/context/ReservationContext"
+import type { MessageDelivery } from "@/data/messages"
+import type { OfferAttempt } from "@/data/offers"
 import type { Reservation } from "@/data/reservations"
+import type { RestaurantTable } from "@/data/tables"
+import {
+  GUEST_LANGUAGES,
+  GUEST_LANGUAGE_LABELS,
+  isGuestLanguage,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import {
+  FREED_RESERVATION_STATUSES,
+  MANUAL_RESERVATION_STATUSES,
+  canSetManually,
+  type ReservationStatus
+} from "@/lib/shared/reservationStatus"
+import {
+  coversInSlot,
+  findClosure,
+  listDaySlots,
+  type ServiceHours
+} from "@/lib/shared/serviceHours"
+import type { LocaleSettings } from "@/lib/shared/settings"
+import { combinedSeats, describeSeatRange, tableAssignmentOptions } from "@/lib/shared/tables"
+import { formatTimeKey, formatTimestamp, isValidDateKey } from "@/lib/shared/time"
+import DayNavigator, { formatDayLabel } from "../day-navigator"
 
 export default function ReservationsPage() {
   const {
-    reservations,
+    reservations: allReservations,
+    selectedDate,
+    localeSettings,
+    automationSettings,
     waitlist,
+    tables,
+    serviceHours,
+    messages,
+    offers,
     addReservation,
     removeReservation,
+    updateReservationStatus,
+    assignReservationTables,
     clearReservations
   } = useReservations()
 
   const [name, setName] = useState("")
   const [phone, setPhone] = useState("")
+  const [email, setEmail] = useState("")
+  const [language, setLanguage] = useState<GuestLanguage | "">("")
   const [partySize, setPartySize] = useState(2)
+  const [date, setDate] = useState("")
   const [time, setTime] = useState("")
   const [error, setError] = useState("")
+  const reservations = allReservations
+    .filter(r => r.date === selectedDate)
+    .sort((a, b) => a.time.localeCompare(b.time))
+  const reservationDate = date || selectedDate
 
   function handleAddReservation(event: FormEvent<HTMLFormElement>) {
     event.preventDefault()
@@ -27,6 +68,11 @@ export default function ReservationsPage() {
       return
     }
 
+    if (!isValidDateKey(reservationDate)) {
+      setError("Kies een geldige datum.")
+      return
+    }
+
     if (!Number.isFinite(partySize) || partySize <= 0) {
       setError("Aantal personen moet groter zijn dan 0.")
       return
@@ -35,13 +81,19 @@ export default function ReservationsPage() {
     addReservation({
       name: name.trim(),
       phone: phone.trim(),
+      email: email.trim() || undefined,
+      language: language || undefined,
       partySize,
+      date: reservationDate,
       time
     })
 
     setName("")
     setPhone("")
+    setEmail("")
+    setLanguage("")
     setPartySize(2)
+    setDate("")
     setTime("")
     setError("")
   }
@@ -56,14 +108,14 @@ export default function ReservationsPage() {
         <button
           type="button"
           onClick={() => {
-            if (reservations.length === 0) return
+            if (allReservations.length === 0) return
             const confirmed = window.confirm(
               "Weet je zeker dat je alle reservaties wil verwijderen?"
             )
             if (!confirmed) return
             clearReservations()
           }}
-          disabled={reservations.length === 0}
+          disabled={allReservations.length === 0}
           className="rounded-lg border border-red-300 px-3 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
         >
           Verwijder alles
@@ -82,11 +134,11 @@ export default function ReservationsPage() {
             Nieuwe reservatie
           </h2>
           <p className="text-sm text-gray-500 mt-1">
-            Naam, nummer, groepsgrootte en uur zijn voldoende.
+            Naam, nummer, groepsgrootte, datum en uur zijn voldoende. E-mail is optioneel; de taal volgt het landnummer tenzij je er een kiest.
           </p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
           <input
             value={name}
             onChange={e => setName(e.target.value)}
@@ -99,6 +151,25 @@ export default function ReservationsPage() {
             placeholder="Nummer"
             className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
           />
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="E-mail (optioneel)"
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+          />
+          <select
+            value={language}
+            onChange={e => setLanguage(isGuestLanguage(e.target.value) ? e.target.value : "")}
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+          >
+            <option value="">Taal: automatisch</option>
+            {GUEST_LANGUAGES.map(option => (
+              <option key={option} value={option}>
+                {GUEST_LANGUAGE_LABELS[option]}
+              </option>
+            ))}
+          </select>
           <input
             type="number"
             min={1}
@@ -107,6 +178,12 @@ export default function ReservationsPage() {
             onChange={e => setPartySize(Number(e.target.value))}
             className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
           />
+          <input
+            type="date"
+            value={reservationDate}
+            onChange={e => setDate(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+          />
           <input
             type="time"
             value={time}
@@ -170,10 +247,24 @@ export default function ReservationsPage() {
         )}
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-[#1f3d2b]">
+          {formatDayLabel(selectedDate, localeSettings)}
+        </h2>
+        <DayNavigator />
+      </div>
+
+      <SlotCapacity
+        date={selectedDate}
+        serviceHours={serviceHours}
+        reservations={reservations}
+        localeSettings={localeSettings}
+      />
+
       <div className="bg-white rounded-2xl divide-y border border-gray-100">
         {reservations.length === 0 ? (
           <div className="p-6 text-sm text-gray-400">
-            Nog geen reservaties. Voeg hierboven je eerste reservatie toe.
+            Geen reservaties op deze dag. Voeg hierboven een reservatie toe.
           </div>
         ) : (
           reservations.map((r: Reservation) => (
@@ -186,8 +277,22 @@ export default function ReservationsPage() {
                   {r.name}
                 </p>
                 <p className="text-sm text-gray-400">
-                  {r.phone} | {r.time} | {r.partySize} personen
+                  {r.phone}{r.email ? ` | ${r.email}` : ""}{r.language ? ` | ${GUEST_LANGUAGE_LABELS[r.language]}` : ""} | {formatTimeKey(r.time, localeSettings.locale)} | {r.partySize} personen
                 </p>
+                <TableSelect
+                  tableIds={r.tableIds}
+                  tables={tables}
+                  onChange={tableIds => assignReservationTables(r.id, tableIds)}
+                />
+                <DeliveryBadges
+                  messages={messages.filter(message => message.reservationId === r.id)}
+                />
+                <OfferHistory
+                  offers={offers.filter(offer => offer.reservationId === r.id)}
+                  attempts={r.offerAttempts ?? 0}
+                  maxAttempts={automationSettings.waitlistMaxAttempts}
+                  localeSettings={localeSettings}
+                />
                 {r.filledFromWaitlist && (
                   <p className="text-xs text-blue-700 mt-1">
                     Opgevuld via wachtlijst
@@ -197,6 +302,20 @@ export default function ReservationsPage() {
               </div>
 
               <div className="flex items-center gap-4">
+                <StatusActions
+                  status={r.status}
+                  onChange={status => {
+                    if (
+                      FREED_RESERVATION_STATUSES.includes(status) &&
+                      !window.confirm(
+                        `${r.name} als ${STATUS_ACTION_LABELS[status].toLowerCase()} markeren? De tafel gaat dan naar de wachtlijst.`
+                      )
+                    ) {
+                      return
+                    }
+                    updateReservationStatus(r.id, status)
+                  }}
+                />
                 <StatusBadge status={r.status} />
                 <button
                   type="button"
@@ -217,22 +336,66 @@ export default function ReservationsPage() {
   )
 }
 
+const STATUS_ACTION_LABELS: Record<ReservationStatus, string> = {
+  booked: "Geboekt",
+  confirmed: "Bevestigd",
+  cancelled: "Geannuleerd",
+  seated: "Aan tafel",
+  completed: "Afgerond",
+  no_show: "No-show",
+  offered: "Aangeboden",
+  refilled: "Opgevuld",
+  unfilled: "Niet opgevuld"
+}
+
+function StatusActions({
+  status,
+  onChange
+}: {
+  status: ReservationStatus
+  onChange: (status: ReservationStatus) => void
+}) {
+  const options = MANUAL_RESERVATION_STATUSES.filter(next => canSetManually(status, next))
+  if (options.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap justify-end gap-1">
+      {options.map(next => (
+        <button
+          key={next}
+          type="button"
+          onClick={() => onChange(next)}
+          className="rounded-full border border-gray-300 px-2.5 py-1 text-xs text-gray-600 hover:border-[#1f3d2b] hover:text-[#1f3d2b]"
+        >
+          {STATUS_ACTION_LABELS[next]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
 function StatusBadge({ status }: { status: Reservation["status"] }) {
   const styles = {
-    attention: "bg-orange-50 text-[#d87a3b] border border-orange-200",
+    booked: "bg-orange-50 text-[#d87a3b] border border-orange-200",
     confirmed: "bg-green-50 text-green-700 border border-green-200",
-    filled: "bg-blue-50 text-blue-700 border border-blue-200",
-    processing: "bg-purple-50 text-purple-700 border border-purple-200",
-    expired: "bg-red-50 text-red-600 border border-red-200",
+    seated: "bg-green-100 text-green-800 border border-green-300",
+    completed: "bg-gray-50 text-gray-600 border border-gray-200",
+    cancelled: "bg-red-50 text-red-600 border border-red-200",
+    no_show: "bg-red-50 text-red-600 border border-red-200",
+    offered: "bg-purple-50 text-purple-700 border border-purple-200",
+    refilled: "bg-blue-50 text-blue-700 border border-blue-200",
     unfilled: "bg-red-100 text-red-700 border border-red-300"
   }
 
   const labels = {
-    attention: "Wachten op bevestiging",
+    booked: "Wachten op bevestiging",
     confirmed: "Bevestigd",
-    filled: "Opgevuld",
-    processing: "Bezig met opvullen...",
-    expired: "Vervallen",
+    seated: "Aan tafel",
+    completed: "Afgerond",
+    cancelled: "Geannuleerd",
+    no_show: "No-show",
+    offered: "Bezig met opvullen...",
+    refilled: "Opgevuld",
     unfilled: "Niet opgevuld"
   }
 
@@ -242,3 +405,206 @@ function StatusBadge({ status }: { status: Reservation["status"] }) {
     </span>
   )
 }
+
+// Free covers per slot on the selected day, grouped by service.
+function SlotCapacity({
+  date,
+  serviceHours,
+  reservations,
+  localeSettings
+}: {
+  date: string
+  serviceHours: ServiceHours
+  reservations: Reservation[]
+  localeSettings: LocaleSettings
+}) {
+  if (serviceHours.periods.length === 0) return null
+
+  const closure = findClosure(serviceHours, date)
+  const slots = listDaySlots(serviceHours, date)
+  if (closure || slots.length === 0) {
+    return (
+      <p className="rounded-xl border border-gray-100 bg-white px-4 py-3 text-sm text-gray-500">
+        Gesloten{closure?.label ? `: ${closure.label}` : " op deze dag"}. Er kunnen geen reservaties bij.
+      </p>
+    )
+  }
+
+  const periods = slots
+    .map(slot => slot.period)
+    .filter((period, index, all) => all.indexOf(period) === index)
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 p-6 space-y-4">
+      {periods.map(period => (
+        <div key={`${period.name}-${period.start}`} className="space-y-2">
+          <p className="text-sm font-medium text-[#1f3d2b]">
+            {period.name}{" "}
+            <span className="font-normal text-gray-400">
+              max. {period.maxCoversPerSlot} gasten per {period.slotMinutes} min
+            </span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {slots
+              .filter(slot => slot.period === period)
+              .map(slot => {
+                const free = period.maxCoversPerSlot - coversInSlot(serviceHours, reservations, date, slot)
+                return (
+                  <span
+                    key={slot.start}
+                    className={`rounded-full px-2.5 py-1 text-xs ${
+                      free > 0 ? "bg-[#f9f6f0] text-[#1f3d2b]" : "bg-red-50 text-red-700"
+                    }`}
+                  >
+                    {formatTimeKey(slot.start, localeSettings.locale)} ·{" "}
+                    {free > 0 ? `${free} vrij` : "volzet"}
+                  </span>
+                )
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function TableSelect({
+  tableIds,
+  tables,
+  onChange
+}: {
+  tableIds: string[]
+  tables: RestaurantTable[]
+  onChange: (tableIds: string[]) => void
+}) {
+  if (tables.length === 0) return null
+
+  const options = tableAssignmentOptions(tables).flatMap(option => {
+    const seats = combinedSeats(option)
+    if (!seats) return []
+    return [{
+      value: option.map(table => table.id).join(","),
+      label: `${option.map(table => table.name).join(" + ")} (${describeSeatRange(seats)})`
+    }]
+  })
+  const value = tableIds.join(",")
+  // An assignment of three or more tables is not in the list but still shown.
+  if (value && !options.some(option => option.value === value)) {
+    const assigned = tables.filter(table => tableIds.includes(table.id))
+    options.unshift({
+      value,
+      label: assigned.map(table => table.name).join(" + ") || "Verwijderde tafel"
+    })
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={event => onChange(event.target.value ? event.target.value.split(",") : [])}
+      aria-label="Tafel"
+      className="mt-1 rounded-lg border border-gray-200 bg-white px-2 py-1 text-xs text-gray-600"
+    >
+      <option value="">Geen tafel</option>
+      {options.map(option => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function DeliveryBadges({ messages }: { messages: MessageDelivery[] }) {
+  // Only the most recent message per channel matters to the host.
+  const latestByChannel = new Map<MessageDelivery["channel"], MessageDelivery>()
+  for (const message of messages) {
+    const current = latestByChannel.get(message.channel)
+    if (!current || message.createdAt >= current.createdAt) {
+      latestByChannel.set(message.channel, message)
+    }
+  }
+  if (latestByChannel.size === 0) return null
+
+  const styles = {
+    queued: "bg-gray-50 text-gray-500 border border-gray-200",
+    sent: "bg-gray-50 text-gray-600 border border-gray-200",
+    delivered: "bg-green-50 text-green-700 border border-green-200",
+    read: "bg-green-100 text-green-800 border border-green-300",
+    failed: "bg-red-50 text-red-600 border border-red-200",
+    undelivered: "bg-red-50 text-red-600 border border-red-200"
+  }
+
+  const labels = {
+    queued: "in wachtrij",
+    sent: "verzonden",
+    delivered: "afgeleverd",
+    read: "gelezen",
+    failed: "mislukt",
+    undelivered: "niet afgeleverd"
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-2">
+      {[...latestByChannel.values()].map(message => (
+        <span
+          key={message.id}
+          title={message.errorMessage}
+          className={`px-2 py-0.5 text-[11px] rounded-full ${styles[message.status]}`}
+        >
+          {message.channel === "whatsapp"
+            ? "WhatsApp"
+            : message.channel === "email"
+              ? "E-mail"
+              : message.fallbackOf
+              ? "SMS (na WhatsApp)"
+              : "SMS"}
+          : {labels[message.status]}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function OfferHistory({
+  offers,
+  attempts,
+  maxAttempts,
+  localeSettings
+}: {
+  offers: OfferAttempt[]
+  attempts: number
+  maxAttempts: number
+  localeSettings: LocaleSettings
+}) {
+  if (offers.length === 0) return null
+
+  const labels = {
+    pending: "wacht op antwoord",
+    accepted: "nam de tafel",
+    declined: "weigerde",
+    expired: "antwoordde niet op tijd",
+    cancelled: "geannuleerd"
+  }
+  const formatTime = (timestamp: number) =>
+    formatTimestamp(timestamp, localeSettings.timeZone, localeSettings.locale, {
+      hour: "2-digit",
+      minute: "2-digit"
+    })
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-medium text-gray-500">
+        Wachtlijst: {attempts} van max. {maxAttempts} rondes
+      </p>
+      <ol className="mt-1 space-y-0.5">
+        {offers.map(offer => (
+          <li key={offer.id} className="text-xs text-gray-500">
+            {formatTime(offer.createdAt)} {offer.guestName}
+            {offer.partySize ? ` (${offer.partySize} p.)` : ""}: {labels[offer.status]}
+            {offer.resolvedAt ? ` om ${formatTime(offer.resolvedAt)}` : ""}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import Image from "next/image"
+import { FormEvent, useEffect, useState } from "react"
+import { useReservations } from "@/context/ReservationContext"
+import { bookingPath, waitlistJoinPath } from "@/lib/shared/booking"
+
+const INPUT_CLASS =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+
+// Own card with its own save button: the link lives on the restaurant, not
+// in the settings row.
+export function BookingSettings() {
+  const { serviceHours } = useReservations()
+  const [slug, setSlug] = useState<string | null>(null)
+  const [input, setInput] = useState("")
+  const [origin, setOrigin] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  useEffect(() => {
+    let active = true
+    void (async () => {
+      try {
+        const response = await fetch("/api/settings/booking", { cache: "no-store" })
+        const payload = (await response.json()) as { ok?: boolean; error?: string; slug?: string | null }
+        if (!active) return
+        setOrigin(window.location.origin)
+        if (!response.ok || !payload.ok) {
+          setError(payload.error ?? "Kon online reserveren niet laden.")
+          return
+        }
+        setSlug(payload.slug ?? null)
+        setInput(payload.slug ?? "")
+      } catch {
+        if (active) setError("Netwerkfout bij laden van online reserveren.")
+      } finally {
+        if (active) setLoading(false)
+      }
+    })()
+    return () => {
+      active = false
+    }
+  }, [])
+
+  async function save(next: string | null) {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      const response = await fetch("/api/settings/booking", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slug: next })
+      })
+      const payload = (await response.json()) as { ok?: boolean; error?: string; slug?: string | null }
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Opslaan mislukt.")
+        return
+      }
+      setSlug(payload.slug ?? null)
+      setInput(payload.slug ?? "")
+      setNotice(payload.slug ? "Link opgeslagen." : "Online reserveren uitgeschakeld.")
+    } catch {
+      setError("Netwerkfout bij opslaan.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    void save(input.trim() || null)
+  }
+
+  const pageUrl = slug ? `${origin}${bookingPath(slug)}` : ""
+  const waitlistUrl = slug ? `${origin}${waitlistJoinPath(slug)}` : ""
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-2xl border border-gray-100 p-6 space-y-6 shadow-sm"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-[#1f3d2b]">Online reserveren</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Gasten reserveren zelf op een eigen pagina of via een widget op je website. Ze kiezen een vrij tijdslot binnen je openingsuren en bevestigen met een code via WhatsApp of SMS; de reservatie komt bevestigd binnen. Met dezelfde link zetten gasten aan de deur zich via een QR-code op de wachtlijst.
+        </p>
+      </div>
+
+      {serviceHours.periods.length === 0 ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          Stel eerst openingsuren in: zonder services is er niets om online te reserveren.
+        </p>
+      ) : null}
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : notice ? (
+        <p className="rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Laden...</p>
+      ) : (
+        <>
+          <label className="space-y-2 block">
+            <span className="text-sm font-medium text-[#1f3d2b]">Link</span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500 whitespace-nowrap">{origin}/r/</span>
+              <input
+                value={input}
+                onChange={e => setInput(e.target.value.toLowerCase())}
+                placeholder="mijn-restaurant"
+                className={INPUT_CLASS}
+              />
+            </div>
+          </label>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={busy || input.trim() === (slug ?? "")}
+              className="rounded-lg bg-[#1f3d2b] px-4 py-2 text-sm font-medium text-white hover:bg-[#2b5a3f] disabled:opacity-60"
+            >
+              Link opslaan
+            </button>
+            {slug ? (
+              <button
+                type="button"
+                onClick={() => void save(null)}
+                disabled={busy}
+                className="rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+              >
+                Online reserveren uitschakelen
+              </button>
+            ) : null}
+          </div>
+
+          {slug ? (
+            <div className="border-t border-gray-100 pt-4 space-y-3 text-sm">
+              <p>
+                <span className="font-medium text-[#1f3d2b]">Pagina:</span>{" "}
+                <a href={pageUrl} target="_blank" rel="noreferrer" className="text-[#d87a3b] hover:underline">
+                  {pageUrl}
+                </a>
+              </p>
+              <div className="space-y-1">
+                <span className="font-medium text-[#1f3d2b]">Widget voor je website</span>
+                <pre className="rounded-lg bg-gray-50 border border-gray-100 px-3 py-2 text-xs text-gray-700 whitespace-pre-wrap break-all">
+                  {`<script src="${pageUrl}/embed.js" async></script>`}
+                </pre>
+              </div>
+              <div className="space-y-1">
+                <span className="font-medium text-[#1f3d2b]">Of als iframe</span>
+                <pre className="rounded-lg bg-gray-50 border border-gray-100 px-3 py-2 text-xs text-gray-700 whitespace-pre-wrap break-all">
+                  {`<iframe src="${pageUrl}?embed=1" title="Reserveren" style="width:100%;max-width:520px;height:760px;border:0"></iframe>`}
+                </pre>
+              </div>
+              <div className="border-t border-gray-100 pt-4 space-y-3">
+                <span className="font-medium text-[#1f3d2b]">Wachtlijst via QR-code</span>
+                <p className="text-gray-500">
+                  Hang de code aan de deur: gasten scannen, laten naam, nummer en aantal personen achter, bevestigen met een code en krijgen hun plaats in de rij. Ze verschijnen meteen op je wachtlijst.
+                </p>
+                <div className="flex flex-wrap items-center gap-4">
+                  <Image
+                    src={`${waitlistJoinPath(slug)}/qr.svg`}
+                    alt="QR-code naar de wachtlijst"
+                    width={120}
+                    height={120}
+                    unoptimized
+                    className="rounded-lg border border-gray-100"
+                  />
+                  <div className="space-y-2">
+                    <p>
+                      <a href={waitlistUrl} target="_blank" rel="noreferrer" className="text-[#d87a3b] hover:underline">
+                        {waitlistUrl}
+                      </a>
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                      <a
+                        href={`${waitlistJoinPath(slug)}/poster`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-[#1f3d2b] hover:bg-[#f9f6f0]"
+                      >
+                        Affiche afdrukken
+                      </a>
+                      <a
+                        href={`${waitlistJoinPath(slug)}/qr.svg?download=1`}
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-[#1f3d2b] hover:bg-[#f9f6f0]"
+                      >
+                        QR-code downloaden
+                      </a>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ) : null}
+        </>
+      )}
+    </form>
+  )
+}
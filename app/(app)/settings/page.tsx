@@ -2,7 +2,50 @@
 
 import { FormEvent, useEffect, useMemo, useState } from "react"
 import { useReservations } from "@/context/ReservationContext"
-import type { ContactChannel } from "@/lib/shared/settings"
+import {
+  DEFAULT_GUEST_LANGUAGE,
+  GUEST_LANGUAGES,
+  GUEST_LANGUAGE_LABELS,
+  getGuestLocale,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import type { ServiceHours } from "@/lib/shared/serviceHours"
+import type {
+  ContactChannel,
+  WaitlistMatchPriority,
+  WaitlistOfferMode
+} from "@/lib/shared/settings"
+import {
+  MESSAGE_TEMPLATE_KEYS,
+  MESSAGE_TEMPLATE_LABELS,
+  MAX_TEMPLATE_LENGTH,
+  TEMPLATE_VARIABLES,
+  countSmsSegments,
+  renderTemplate,
+  type MessageTemplateKey,
+  type MessageTemplates,
+  type TemplateVariables
+} from "@/lib/shared/templates"
+import { formatDateKey, formatTimeKey, formatTimestamp, getDateKeyInZone } from "@/lib/shared/time"
+import { BookingSettings } from "./booking-settings"
+import { SenderSettings } from "./sender-settings"
+import { ServiceHoursSettings } from "./service-hours-settings"
+
+const TIME_ZONE_OPTIONS = [
+  { value: "Europe/Brussels", label: "Brussel" },
+  { value: "Europe/Amsterdam", label: "Amsterdam" },
+  { value: "Europe/Lisbon", label: "Lissabon" },
+  { value: "Europe/Paris", label: "Parijs" },
+  { value: "Europe/London", label: "Londen" }
+]
+
+const LOCALE_OPTIONS = [
+  { value: "nl-BE", label: "Nederlands (België)" },
+  { value: "nl-NL", label: "Nederlands (Nederland)" },
+  { value: "fr-BE", label: "Frans (België)" },
+  { value: "pt-PT", label: "Portugees (Portugal)" },
+  { value: "en-GB", label: "Engels (VK)" }
+]
 
 type BillingInfo = {
   status: string
@@ -17,8 +60,10 @@ export default function SettingsPage() {
   const {
     reminderSettings,
     automationSettings,
-    updateReminderSettings,
-    updateAutomationSettings
+    localeSettings,
+    messageTemplates,
+    serviceHours,
+    updateSettings
   } = useReservations()
 
   const [draft, setDraft] = useState<{
@@ -27,8 +72,23 @@ export default function SettingsPage() {
     noShowThresholdMinutes: number
     waitlistResponseMinutes: number
     preferredChannel: ContactChannel
+    smsFallbackEnabled: boolean
+    smsFallbackMinutes: number
+    waitlistMaxEmptySeats: number
+    waitlistMaxExtraGuests: number
+    waitlistMatchPriority: WaitlistMatchPriority
+    waitlistOfferMode: WaitlistOfferMode
+    waitlistBroadcastSize: number
+    waitlistMaxAttempts: number
+    timeZone: string
+    locale: string
   } | null>(null)
 
+  const [templateDraft, setTemplateDraft] = useState<MessageTemplates | null>(null)
+  const [serviceDraft, setServiceDraft] = useState<ServiceHours | null>(null)
+  const [templateLanguage, setTemplateLanguage] = useState<GuestLanguage>(DEFAULT_GUEST_LANGUAGE)
+  const [previewTimestamp] = useState(() => Date.now())
+
   const [error, setError] = useState("")
   const [saved, setSaved] = useState(false)
   const [billingInfo, setBillingInfo] = useState<BillingInfo | null>(null)
@@ -46,14 +106,42 @@ export default function SettingsPage() {
     draft?.waitlistResponseMinutes ?? automationSettings.waitlistResponseMinutes
   const preferredChannel =
     draft?.preferredChannel ?? automationSettings.preferredChannel
+  const smsFallbackEnabled =
+    draft?.smsFallbackEnabled ?? automationSettings.smsFallbackEnabled
+  const smsFallbackMinutes =
+    draft?.smsFallbackMinutes ?? automationSettings.smsFallbackMinutes
+  const waitlistMaxEmptySeats =
+    draft?.waitlistMaxEmptySeats ?? automationSettings.waitlistMaxEmptySeats
+  const waitlistMaxExtraGuests =
+    draft?.waitlistMaxExtraGuests ?? automationSettings.waitlistMaxExtraGuests
+  const waitlistMatchPriority =
+    draft?.waitlistMatchPriority ?? automationSettings.waitlistMatchPriority
+  const waitlistOfferMode =
+    draft?.waitlistOfferMode ?? automationSettings.waitlistOfferMode
+  const waitlistBroadcastSize =
+    draft?.waitlistBroadcastSize ?? automationSettings.waitlistBroadcastSize
+  const waitlistMaxAttempts =
+    draft?.waitlistMaxAttempts ?? automationSettings.waitlistMaxAttempts
+  const timeZone = draft?.timeZone ?? localeSettings.timeZone
+  const locale = draft?.locale ?? localeSettings.locale
   const updateDraft = (
     key:
       | "firstReminderMinutes"
       | "finalReminderMinutes"
       | "noShowThresholdMinutes"
       | "waitlistResponseMinutes"
-      | "preferredChannel",
-    value: number | ContactChannel
+      | "preferredChannel"
+      | "smsFallbackEnabled"
+      | "smsFallbackMinutes"
+      | "waitlistMaxEmptySeats"
+      | "waitlistMaxExtraGuests"
+      | "waitlistMatchPriority"
+      | "waitlistOfferMode"
+      | "waitlistBroadcastSize"
+      | "waitlistMaxAttempts"
+      | "timeZone"
+      | "locale",
+    value: number | string | boolean
   ) => {
     setDraft(prev => {
       const base = prev ?? {
@@ -61,19 +149,58 @@ export default function SettingsPage() {
         finalReminderMinutes,
         noShowThresholdMinutes,
         waitlistResponseMinutes,
-        preferredChannel
+        preferredChannel,
+        smsFallbackEnabled,
+        smsFallbackMinutes,
+        waitlistMaxEmptySeats,
+        waitlistMaxExtraGuests,
+        waitlistMatchPriority,
+        waitlistOfferMode,
+        waitlistBroadcastSize,
+        waitlistMaxAttempts,
+        timeZone,
+        locale
       }
       return { ...base, [key]: value }
     })
   }
 
+  const templates = templateDraft ?? messageTemplates
+  const updateTemplate = (key: MessageTemplateKey, value: string) => {
+    setTemplateDraft(prev => {
+      const base = prev ?? messageTemplates
+      return {
+        ...base,
+        [templateLanguage]: { ...base[templateLanguage], [key]: value }
+      }
+    })
+  }
+  const previewLocale = getGuestLocale(templateLanguage, locale)
+  const service = serviceDraft ?? serviceHours
+
   const hasChanges = useMemo(() => {
     return (
+      GUEST_LANGUAGES.some(language =>
+        MESSAGE_TEMPLATE_KEYS.some(
+          key => templates[language][key] !== messageTemplates[language][key]
+        )
+      ) ||
       firstReminderMinutes !== reminderSettings.firstReminderMinutesBefore ||
       finalReminderMinutes !== reminderSettings.finalReminderMinutesBefore ||
       noShowThresholdMinutes !== automationSettings.noShowThresholdMinutes ||
       waitlistResponseMinutes !== automationSettings.waitlistResponseMinutes ||
-      preferredChannel !== automationSettings.preferredChannel
+      preferredChannel !== automationSettings.preferredChannel ||
+      smsFallbackEnabled !== automationSettings.smsFallbackEnabled ||
+      smsFallbackMinutes !== automationSettings.smsFallbackMinutes ||
+      waitlistMaxEmptySeats !== automationSettings.waitlistMaxEmptySeats ||
+      waitlistMaxExtraGuests !== automationSettings.waitlistMaxExtraGuests ||
+      waitlistMatchPriority !== automationSettings.waitlistMatchPriority ||
+      waitlistOfferMode !== automationSettings.waitlistOfferMode ||
+      waitlistBroadcastSize !== automationSettings.waitlistBroadcastSize ||
+      waitlistMaxAttempts !== automationSettings.waitlistMaxAttempts ||
+      timeZone !== localeSettings.timeZone ||
+      locale !== localeSettings.locale ||
+      JSON.stringify(service) !== JSON.stringify(serviceHours)
     )
   }, [
     firstReminderMinutes,
@@ -81,8 +208,23 @@ export default function SettingsPage() {
     noShowThresholdMinutes,
     waitlistResponseMinutes,
     preferredChannel,
+    smsFallbackEnabled,
+    smsFallbackMinutes,
+    waitlistMaxEmptySeats,
+    waitlistMaxExtraGuests,
+    waitlistMatchPriority,
+    waitlistOfferMode,
+    waitlistBroadcastSize,
+    waitlistMaxAttempts,
+    timeZone,
+    locale,
     reminderSettings,
-    automationSettings
+    automationSettings,
+    localeSettings,
+    templates,
+    messageTemplates,
+    service,
+    serviceHours
   ])
 
   useEffect(() => {
@@ -115,7 +257,7 @@ export default function SettingsPage() {
     }
   }, [])
 
-  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault()
     setSaved(false)
 
@@ -131,24 +273,63 @@ export default function SettingsPage() {
       return
     }
 
-    if (noShowThresholdMinutes <= 0 || waitlistResponseMinutes <= 0) {
+    if (
+      noShowThresholdMinutes <= 0 ||
+      waitlistResponseMinutes <= 0 ||
+      smsFallbackMinutes <= 0
+    ) {
       setError("Alle waarden moeten groter zijn dan 0 minuten.")
       return
     }
 
-    setError("")
-    updateReminderSettings({
-      firstReminderMinutesBefore: firstReminderMinutes,
-      finalReminderMinutesBefore: finalReminderMinutes
-    })
+    if (
+      ![waitlistMaxEmptySeats, waitlistMaxExtraGuests].every(
+        value => Number.isInteger(value) && value >= 0 && value <= 10
+      )
+    ) {
+      setError("Lege stoelen en extra gasten moeten tussen 0 en 10 liggen.")
+      return
+    }
+
+    for (const language of GUEST_LANGUAGES) {
+      const emptyTemplate = MESSAGE_TEMPLATE_KEYS.find(key => !templates[language][key].trim())
+      if (emptyTemplate) {
+        setTemplateLanguage(language)
+        setError(
+          `Tekst voor "${MESSAGE_TEMPLATE_LABELS[emptyTemplate]}" (${GUEST_LANGUAGE_LABELS[language]}) is verplicht.`
+        )
+        return
+      }
+    }
 
-    updateAutomationSettings({
-      noShowThresholdMinutes,
-      waitlistResponseMinutes,
-      preferredChannel
+    setError("")
+    const saved = await updateSettings({
+      reminderSettings: {
+        firstReminderMinutesBefore: firstReminderMinutes,
+        finalReminderMinutesBefore: finalReminderMinutes
+      },
+      automationSettings: {
+        noShowThresholdMinutes,
+        waitlistResponseMinutes,
+        preferredChannel,
+        smsFallbackEnabled,
+        smsFallbackMinutes,
+        waitlistMaxEmptySeats,
+        waitlistMaxExtraGuests,
+        waitlistMatchPriority,
+        waitlistOfferMode,
+        waitlistBroadcastSize,
+        waitlistMaxAttempts
+      },
+      localeSettings: { timeZone, locale },
+      messageTemplates: templates,
+      serviceHours: service
     })
+    if (!saved) return
 
     setDraft(null)
+    setTemplateDraft(null)
+    setServiceDraft(null)
     setSaved(true)
 
     setTimeout(() => setSaved(false), 2500)
@@ -214,11 +395,7 @@ export default function SettingsPage() {
     if (!value) return "Onbekend"
     const date = new Date(value)
     if (Number.isNaN(date.getTime())) return "Onbekend"
-    return date.toLocaleDateString("nl-BE", {
-      year: "numeric",
-      month: "long",
-      day: "numeric"
-    })
+    return formatTimestamp(date.getTime(), localeSettings.timeZone, localeSettings.locale)
   }
 
   return (
@@ -325,6 +502,109 @@ export default function SettingsPage() {
         />
       </label>
 
+      <div className="grid gap-4 grid-cols-2">
+        <label className="space-y-2 block">
+          <span className="text-sm font-medium text-[#1f3d2b]">
+            Max. lege stoelen
+          </span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={waitlistMaxEmptySeats}
+            onChange={e => updateDraft("waitlistMaxEmptySeats", Number(e.target.value))}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+          />
+        </label>
+
+        <label className="space-y-2 block">
+          <span className="text-sm font-medium text-[#1f3d2b]">
+            Max. extra gasten
+          </span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={waitlistMaxExtraGuests}
+            onChange={e => updateDraft("waitlistMaxExtraGuests", Number(e.target.value))}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 -mt-2">
+        Een vrijgekomen tafel voor 4 met 1 lege stoel en 0 extra gasten gaat ook naar groepen van 3.
+      </p>
+
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          Voorrang op de wachtlijst
+        </span>
+        <select
+          value={waitlistMatchPriority}
+          onChange={e =>
+            updateDraft("waitlistMatchPriority", e.target.value as WaitlistMatchPriority)
+          }
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        >
+          <option value="best_fit">Best passende groep eerst</option>
+          <option value="longest_waiting">Langst wachtende groep eerst</option>
+        </select>
+      </label>
+
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          Aanbod versturen naar
+        </span>
+        <select
+          value={waitlistOfferMode}
+          onChange={e =>
+            updateDraft("waitlistOfferMode", e.target.value as WaitlistOfferMode)
+          }
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        >
+          <option value="single">Eén gast tegelijk</option>
+          <option value="broadcast">Meerdere gasten tegelijk</option>
+        </select>
+      </label>
+
+      {waitlistOfferMode === "broadcast" && (
+        <>
+          <label className="space-y-2 block">
+            <span className="text-sm font-medium text-[#1f3d2b]">
+              Aantal gasten per aanbod
+            </span>
+            <input
+              type="number"
+              min={2}
+              max={5}
+              value={waitlistBroadcastSize}
+              onChange={e => updateDraft("waitlistBroadcastSize", Number(e.target.value))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+            />
+          </label>
+          <p className="text-xs text-gray-500 -mt-2">
+            Wie eerst JA antwoordt, krijgt de tafel. De anderen krijgen automatisch bericht dat ze al vergeven is.
+          </p>
+        </>
+      )}
+
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          Max. aanbiedingsrondes per tafel
+        </span>
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={waitlistMaxAttempts}
+          onChange={e => updateDraft("waitlistMaxAttempts", Number(e.target.value))}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        />
+      </label>
+      <p className="text-xs text-gray-500 -mt-2">
+        Na een weigering of zonder antwoord gaat de tafel naar de volgende kandidaat, tot dit aantal rondes op is.
+      </p>
+
       <label className="space-y-2 block">
         <span className="text-sm font-medium text-[#1f3d2b]">
           Voorkeurskanaal
@@ -339,12 +619,152 @@ export default function SettingsPage() {
           <option value="whatsapp">WhatsApp</option>
           <option value="sms">SMS</option>
           <option value="both">WhatsApp + SMS</option>
+          <option value="email">E-mail</option>
+        </select>
+      </label>
+
+      {preferredChannel === "whatsapp" && (
+        <>
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={smsFallbackEnabled}
+              onChange={e => updateDraft("smsFallbackEnabled", e.target.checked)}
+              className="h-4 w-4 accent-[#d87a3b]"
+            />
+            <span className="text-sm font-medium text-[#1f3d2b]">
+              Stuur via SMS als WhatsApp niet aankomt
+            </span>
+          </label>
+
+          {smsFallbackEnabled && (
+            <label className="space-y-2 block">
+              <span className="text-sm font-medium text-[#1f3d2b]">
+                SMS sturen na (min zonder aflevering)
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={smsFallbackMinutes}
+                onChange={e => updateDraft("smsFallbackMinutes", Number(e.target.value))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              />
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  </div>
+
+
+  {/* LOCATIE CARD */}
+  <div className="md:col-span-2 bg-white rounded-2xl border border-gray-100 p-6 space-y-6 shadow-sm">
+    <div>
+      <h2 className="text-lg font-semibold text-[#1f3d2b]">
+        Locatie
+      </h2>
+      <p className="text-sm text-gray-500 mt-1">
+        Herinneringen en datums volgen de tijdzone en datumnotatie van je restaurant, inclusief zomer- en wintertijd.
+      </p>
+    </div>
+
+    <div className="grid gap-4 md:grid-cols-2">
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          Tijdzone
+        </span>
+        <select
+          value={timeZone}
+          onChange={e => updateDraft("timeZone", e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        >
+          {TIME_ZONE_OPTIONS.some(option => option.value === timeZone) ? null : (
+            <option value={timeZone}>{timeZone}</option>
+          )}
+          {TIME_ZONE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label} ({option.value})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          Datumnotatie
+        </span>
+        <select
+          value={locale}
+          onChange={e => updateDraft("locale", e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        >
+          {LOCALE_OPTIONS.some(option => option.value === locale) ? null : (
+            <option value={locale}>{locale}</option>
+          )}
+          {LOCALE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
         </select>
       </label>
     </div>
   </div>
 
 
+  {/* OPENINGSUREN CARD */}
+  <ServiceHoursSettings value={service} onChange={setServiceDraft} />
+
+
+  {/* BERICHTEN CARD */}
+  <div className="md:col-span-2 bg-white rounded-2xl border border-gray-100 p-6 space-y-6 shadow-sm">
+    <div>
+      <h2 className="text-lg font-semibold text-[#1f3d2b]">
+        Berichten
+      </h2>
+      <p className="text-sm text-gray-500 mt-1">
+        Pas de teksten aan die gasten ontvangen, per taal. Gasten krijgen de teksten in de taal van hun reservatie of wachtlijstinschrijving. Antwoordinstructies of bevestig-links worden automatisch toegevoegd. Met een goedgekeurde Twilio-template (TWILIO_TEMPLATE_*_SID) gebruikt WhatsApp die template in plaats van deze tekst.
+      </p>
+    </div>
+
+    <div className="flex flex-wrap gap-2">
+      {GUEST_LANGUAGES.map(language => (
+        <button
+          key={language}
+          type="button"
+          onClick={() => setTemplateLanguage(language)}
+          className={`rounded-lg px-3 py-1.5 text-sm font-medium transition ${
+            language === templateLanguage
+              ? "bg-[#1f3d2b] text-white"
+              : "border border-gray-300 text-[#1f3d2b] hover:bg-gray-50"
+          }`}
+        >
+          {GUEST_LANGUAGE_LABELS[language]}
+        </button>
+      ))}
+    </div>
+
+    <div className="space-y-6">
+      {MESSAGE_TEMPLATE_KEYS.map(key => (
+        <MessageTemplateField
+          key={`${templateLanguage}-${key}`}
+          templateKey={key}
+          value={templates[templateLanguage][key]}
+          onChange={value => updateTemplate(key, value)}
+          previewVariables={{
+            name: "Emma",
+            restaurant: billingInfo?.restaurantName || "Jouw restaurant",
+            date: formatDateKey(getDateKeyInZone(previewTimestamp, timeZone), previewLocale),
+            time: formatTimeKey("19:30", previewLocale),
+            partySize: 4,
+            minutes: waitlistResponseMinutes
+          }}
+        />
+      ))}
+    </div>
+  </div>
+
+
   {/* FULL WIDTH SAVE BUTTON */}
   <div className="md:col-span-2 flex justify-end">
     <button
@@ -418,6 +838,55 @@ export default function SettingsPage() {
   </div>
 
 </form>
+
+      <SenderSettings />
+
+      <BookingSettings />
+    </div>
+  )
+}
+
+function MessageTemplateField({
+  templateKey,
+  value,
+  onChange,
+  previewVariables
+}: {
+  templateKey: MessageTemplateKey
+  value: string
+  onChange: (value: string) => void
+  previewVariables: TemplateVariables
+}) {
+  const preview = renderTemplate(value, previewVariables)
+  const sms = countSmsSegments(preview)
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <label className="space-y-2 block">
+        <span className="text-sm font-medium text-[#1f3d2b]">
+          {MESSAGE_TEMPLATE_LABELS[templateKey]}
+        </span>
+        <textarea
+          value={value}
+          maxLength={MAX_TEMPLATE_LENGTH}
+          rows={3}
+          onChange={e => onChange(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+        />
+        <span className="block text-xs text-gray-500">
+          Variabelen: {TEMPLATE_VARIABLES[templateKey].map(name => `{${name}}`).join(" ")}
+        </span>
+      </label>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-[#1f3d2b]">Voorbeeld</span>
+        <p className="rounded-lg bg-gray-50 border border-gray-100 px-3 py-2 text-sm text-gray-700 whitespace-pre-wrap">
+          {preview}
+        </p>
+        <span className="block text-xs text-gray-500">
+          {sms.characters} tekens · {sms.segments} SMS-segment{sms.segments === 1 ? "" : "en"} ({sms.encoding}), zonder antwoordlinks
+        </span>
+      </div>
     </div>
   )
 }
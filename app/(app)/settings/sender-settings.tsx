@@ -0,0 +1,366 @@
+"use client"
+
+import { FormEvent, useEffect, useState } from "react"
+import { GUEST_LANGUAGES, GUEST_LANGUAGE_LABELS, type GuestLanguage } from "@/lib/shared/languages"
+import { MESSAGE_TEMPLATE_KEYS, MESSAGE_TEMPLATE_LABELS, type MessageTemplateKey } from "@/lib/shared/templates"
+
+type TemplateSids = Partial<Record<MessageTemplateKey, Partial<Record<GuestLanguage, string>>>>
+
+type SenderSummary = {
+  accountSid: string
+  whatsappFrom: string | null
+  smsFrom: string | null
+  messagingServiceSid: string | null
+  templateSids: TemplateSids
+  hasAuthToken: boolean
+}
+
+type SenderForm = {
+  accountSid: string
+  authToken: string
+  whatsappFrom: string
+  smsFrom: string
+  messagingServiceSid: string
+  templateSids: TemplateSids
+}
+
+const EMPTY_FORM: SenderForm = {
+  accountSid: "",
+  authToken: "",
+  whatsappFrom: "",
+  smsFrom: "",
+  messagingServiceSid: "",
+  templateSids: {}
+}
+
+function formFromSummary(sender: SenderSummary | null): SenderForm {
+  if (!sender) return EMPTY_FORM
+  return {
+    accountSid: sender.accountSid,
+    authToken: "",
+    whatsappFrom: sender.whatsappFrom ?? "",
+    smsFrom: sender.smsFrom ?? "",
+    messagingServiceSid: sender.messagingServiceSid ?? "",
+    templateSids: sender.templateSids
+  }
+}
+
+const INPUT_CLASS =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+
+// Own card with its own save button: the sender is stored apart from the
+// other settings, encrypted, and the auth token is never sent back.
+export function SenderSettings() {
+  const [sender, setSender] = useState<SenderSummary | null>(null)
+  const [form, setForm] = useState<SenderForm>(EMPTY_FORM)
+  const [platformAvailable, setPlatformAvailable] = useState(false)
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+  const [testTo, setTestTo] = useState("")
+  const [testChannel, setTestChannel] = useState<"sms" | "whatsapp">("sms")
+
+  useEffect(() => {
+    let active = true
+    void (async () => {
+      try {
+        const response = await fetch("/api/settings/sender", { cache: "no-store" })
+        const payload = (await response.json()) as {
+          ok?: boolean
+          error?: string
+          sender?: SenderSummary | null
+          platformAvailable?: boolean
+          encryptionConfigured?: boolean
+        }
+        if (!active) return
+        if (!response.ok || !payload.ok) {
+          setError(payload.error ?? "Kon Twilio-afzender niet laden.")
+          return
+        }
+        setSender(payload.sender ?? null)
+        setForm(formFromSummary(payload.sender ?? null))
+        setPlatformAvailable(Boolean(payload.platformAvailable))
+        setEncryptionConfigured(payload.encryptionConfigured !== false)
+      } catch {
+        if (active) setError("Netwerkfout bij laden van Twilio-afzender.")
+      } finally {
+        if (active) setLoading(false)
+      }
+    })()
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const updateField = (key: Exclude<keyof SenderForm, "templateSids">, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  const updateTemplateSid = (key: MessageTemplateKey, language: GuestLanguage, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      templateSids: {
+        ...prev.templateSids,
+        [key]: { ...prev.templateSids[key], [language]: value }
+      }
+    }))
+  }
+
+  async function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      const response = await fetch("/api/settings/sender", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form)
+      })
+      const payload = (await response.json()) as { ok?: boolean; error?: string }
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Opslaan van Twilio-afzender mislukt.")
+        return
+      }
+      setSender({
+        accountSid: form.accountSid.trim(),
+        whatsappFrom: form.whatsappFrom.trim() || null,
+        smsFrom: form.smsFrom.trim() || null,
+        messagingServiceSid: form.messagingServiceSid.trim() || null,
+        templateSids: form.templateSids,
+        hasAuthToken: true
+      })
+      setForm(prev => ({ ...prev, authToken: "" }))
+      setNotice("Twilio-afzender opgeslagen.")
+    } catch {
+      setError("Netwerkfout bij opslaan van Twilio-afzender.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!window.confirm("Eigen Twilio-afzender verwijderen?")) return
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      const response = await fetch("/api/settings/sender", { method: "DELETE" })
+      const payload = (await response.json()) as { ok?: boolean; error?: string }
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Verwijderen mislukt.")
+        return
+      }
+      setSender(null)
+      setForm(EMPTY_FORM)
+      setNotice("Eigen afzender verwijderd.")
+    } catch {
+      setError("Netwerkfout bij verwijderen.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleTest() {
+    setBusy(true)
+    setError("")
+    setNotice("")
+    try {
+      const response = await fetch("/api/settings/sender/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: testTo, channel: testChannel })
+      })
+      const payload = (await response.json()) as {
+        ok?: boolean
+        error?: string
+        source?: "restaurant" | "platform"
+        accountName?: string
+        sid?: string | null
+      }
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Test mislukt.")
+        return
+      }
+      const account = payload.source === "platform" ? "TableBack-afzender" : payload.accountName || "eigen account"
+      setNotice(
+        payload.sid
+          ? `Verbinding met ${account} werkt; testbericht verstuurd.`
+          : `Verbinding met ${account} werkt.`
+      )
+    } catch {
+      setError("Netwerkfout bij testen.")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="bg-white rounded-2xl border border-gray-100 p-6 space-y-6 shadow-sm"
+    >
+      <div>
+        <h2 className="text-lg font-semibold text-[#1f3d2b]">Twilio-afzender</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Verstuur WhatsApp en SMS vanaf je eigen Twilio-account en nummers.
+          {sender
+            ? " Je eigen afzender is actief."
+            : platformAvailable
+              ? " Zonder eigen afzender verstuurt TableBack vanaf het gedeelde nummer."
+              : " Er is nog geen afzender ingesteld; berichten kunnen niet verstuurd worden."}
+        </p>
+      </div>
+
+      {!encryptionConfigured ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          SECRETS_ENCRYPTION_KEY ontbreekt op de server; een eigen afzender kan niet bewaard worden.
+        </p>
+      ) : null}
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : notice ? (
+        <p className="rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Afzender laden...</p>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="space-y-2 block">
+              <span className="text-sm font-medium text-[#1f3d2b]">Account SID</span>
+              <input
+                value={form.accountSid}
+                onChange={e => updateField("accountSid", e.target.value)}
+                placeholder="AC..."
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-2 block">
+              <span className="text-sm font-medium text-[#1f3d2b]">Auth token</span>
+              <input
+                type="password"
+                autoComplete="off"
+                value={form.authToken}
+                onChange={e => updateField("authToken", e.target.value)}
+                placeholder={sender?.hasAuthToken ? "Bewaard, laat leeg om te behouden" : ""}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-2 block">
+              <span className="text-sm font-medium text-[#1f3d2b]">WhatsApp-nummer</span>
+              <input
+                value={form.whatsappFrom}
+                onChange={e => updateField("whatsappFrom", e.target.value)}
+                placeholder="+32470123456"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-2 block">
+              <span className="text-sm font-medium text-[#1f3d2b]">SMS-nummer</span>
+              <input
+                value={form.smsFrom}
+                onChange={e => updateField("smsFrom", e.target.value)}
+                placeholder="+32470123456"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className="space-y-2 block md:col-span-2">
+              <span className="text-sm font-medium text-[#1f3d2b]">
+                Messaging Service SID (optioneel, gaat voor op de nummers)
+              </span>
+              <input
+                value={form.messagingServiceSid}
+                onChange={e => updateField("messagingServiceSid", e.target.value)}
+                placeholder="MG..."
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <span className="text-sm font-medium text-[#1f3d2b]">WhatsApp template SID&apos;s</span>
+              <p className="text-xs text-gray-500 mt-1">
+                Zonder template SID wordt de gewone berichttekst verstuurd.
+              </p>
+            </div>
+            {MESSAGE_TEMPLATE_KEYS.map(key => (
+              <div key={key} className="grid gap-2 md:grid-cols-5 md:items-center">
+                <span className="text-sm text-gray-700">{MESSAGE_TEMPLATE_LABELS[key]}</span>
+                {GUEST_LANGUAGES.map(language => (
+                  <input
+                    key={language}
+                    value={form.templateSids[key]?.[language] ?? ""}
+                    onChange={e => updateTemplateSid(key, language, e.target.value)}
+                    placeholder={`HX... (${GUEST_LANGUAGE_LABELS[language]})`}
+                    aria-label={`${MESSAGE_TEMPLATE_LABELS[key]} (${GUEST_LANGUAGE_LABELS[language]})`}
+                    className={INPUT_CLASS}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={busy || !encryptionConfigured}
+              className="rounded-lg bg-[#1f3d2b] px-4 py-2 text-sm font-medium text-white hover:bg-[#2b5a3f] disabled:opacity-60"
+            >
+              Afzender opslaan
+            </button>
+            {sender ? (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={busy}
+                className="rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-60"
+              >
+                Eigen afzender verwijderen
+              </button>
+            ) : null}
+          </div>
+
+          <div className="border-t border-gray-100 pt-4 space-y-3">
+            <span className="text-sm font-medium text-[#1f3d2b]">Afzender testen</span>
+            <div className="flex flex-wrap gap-3">
+              <input
+                value={testTo}
+                onChange={e => setTestTo(e.target.value)}
+                placeholder="Testnummer (optioneel)"
+                className="flex-1 min-w-48 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              />
+              <select
+                value={testChannel}
+                onChange={e => setTestChannel(e.target.value as "sms" | "whatsapp")}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="sms">SMS</option>
+                <option value="whatsapp">WhatsApp</option>
+              </select>
+              <button
+                type="button"
+                onClick={handleTest}
+                disabled={busy}
+                className="rounded-lg border border-[#1f3d2b] px-4 py-2 text-sm font-medium text-[#1f3d2b] hover:bg-[#f4f8f5] disabled:opacity-60"
+              >
+                Test verbinding
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Test de opgeslagen afzender. Met een testnummer wordt ook een bericht verstuurd.
+            </p>
+          </div>
+        </>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState } from "react"
+import {
+  MAX_COVERS_PER_SLOT,
+  SLOT_MINUTE_OPTIONS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  type ServicePeriod,
+  type ServiceHours
+} from "@/lib/shared/serviceHours"
+
+const INPUT_CLASS =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+
+const NEW_PERIOD: ServicePeriod = {
+  name: "Diner",
+  weekdays: [2, 3, 4, 5, 6],
+  start: "18:00",
+  end: "21:30",
+  slotMinutes: 30,
+  maxCoversPerSlot: 20
+}
+
+// Edited as part of the settings form and saved with its button.
+export function ServiceHoursSettings({
+  value,
+  onChange
+}: {
+  value: ServiceHours
+  onChange: (next: ServiceHours) => void
+}) {
+  const [closureDate, setClosureDate] = useState("")
+  const [closureLabel, setClosureLabel] = useState("")
+
+  const updatePeriod = (index: number, changes: Partial<ServicePeriod>) => {
+    onChange({
+      ...value,
+      periods: value.periods.map((period, position) =>
+        position === index ? { ...period, ...changes } : period
+      )
+    })
+  }
+
+  const addClosure = () => {
+    if (!closureDate || value.closures.some(closure => closure.date === closureDate)) return
+    onChange({
+      ...value,
+      closures: [...value.closures, { date: closureDate, label: closureLabel.trim() }].sort(
+        (left, right) => left.date.localeCompare(right.date)
+      )
+    })
+    setClosureDate("")
+    setClosureLabel("")
+  }
+
+  return (
+    <div className="md:col-span-2 bg-white rounded-2xl border border-gray-100 p-6 space-y-6 shadow-sm">
+      <div>
+        <h2 className="text-lg font-semibold text-[#1f3d2b]">
+          Openingsuren
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Reservaties kunnen enkel starten tijdens een service, tot het laatste aanschuifmoment. Per tijdslot geldt een maximum aantal gasten. Zonder services is elk uur reserveerbaar.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {value.periods.map((period, index) => (
+          <div key={index} className="rounded-xl border border-gray-100 p-4 space-y-3">
+            <div className="grid gap-3 md:grid-cols-5">
+              <label className="space-y-1 block md:col-span-2">
+                <span className="text-xs font-medium text-[#1f3d2b]">Naam</span>
+                <input
+                  value={period.name}
+                  onChange={e => updatePeriod(index, { name: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder="Bijv. Lunch"
+                />
+              </label>
+              <label className="space-y-1 block">
+                <span className="text-xs font-medium text-[#1f3d2b]">Eerste tafel</span>
+                <input
+                  type="time"
+                  value={period.start}
+                  onChange={e => updatePeriod(index, { start: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="space-y-1 block">
+                <span className="text-xs font-medium text-[#1f3d2b]">Laatste tafel</span>
+                <input
+                  type="time"
+                  value={period.end}
+                  onChange={e => updatePeriod(index, { end: e.target.value })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="space-y-1 block">
+                <span className="text-xs font-medium text-[#1f3d2b]">Tijdslot</span>
+                <select
+                  value={period.slotMinutes}
+                  onChange={e => updatePeriod(index, { slotMinutes: Number(e.target.value) })}
+                  className={INPUT_CLASS}
+                >
+                  {SLOT_MINUTE_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes} min
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex flex-wrap gap-1.5">
+                {WEEKDAYS.map(weekday => {
+                  const active = period.weekdays.includes(weekday)
+                  return (
+                    <button
+                      key={weekday}
+                      type="button"
+                      onClick={() =>
+                        updatePeriod(index, {
+                          weekdays: active
+                            ? period.weekdays.filter(day => day !== weekday)
+                            : WEEKDAYS.filter(
+                                day => day === weekday || period.weekdays.includes(day)
+                              )
+                        })
+                      }
+                      className={`rounded-full px-2.5 py-1 text-xs font-medium transition ${
+                        active
+                          ? "bg-[#1f3d2b] text-white"
+                          : "border border-gray-300 text-gray-500 hover:bg-gray-50"
+                      }`}
+                    >
+                      {WEEKDAY_LABELS[weekday]}
+                    </button>
+                  )
+                })}
+              </div>
+              <label className="space-y-1 block w-40">
+                <span className="text-xs font-medium text-[#1f3d2b]">Gasten per tijdslot</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_COVERS_PER_SLOT}
+                  step={1}
+                  value={period.maxCoversPerSlot}
+                  onChange={e => updatePeriod(index, { maxCoversPerSlot: Number(e.target.value) })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    periods: value.periods.filter((_, position) => position !== index)
+                  })
+                }
+                className="ml-auto rounded-lg border border-red-200 px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+              >
+                Verwijderen
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, periods: [...value.periods, NEW_PERIOD] })}
+          className="rounded-lg border border-[#1f3d2b] px-4 py-2 text-sm font-medium text-[#1f3d2b] hover:bg-[#f4f8f5]"
+        >
+          Service toevoegen
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-[#1f3d2b]">
+          Sluitingsdagen
+        </h3>
+        {value.closures.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-100">
+            {value.closures.map(closure => (
+              <li key={closure.date} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-gray-700">
+                  {closure.date}
+                  {closure.label ? ` · ${closure.label}` : ""}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      ...value,
+                      closures: value.closures.filter(other => other.date !== closure.date)
+                    })
+                  }
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Verwijderen
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="date"
+            value={closureDate}
+            onChange={e => setClosureDate(e.target.value)}
+            className={`${INPUT_CLASS} md:w-48`}
+          />
+          <input
+            value={closureLabel}
+            onChange={e => setClosureLabel(e.target.value)}
+            className={INPUT_CLASS}
+            placeholder="Omschrijving, bijv. Kerstmis"
+          />
+          <button
+            type="button"
+            onClick={addClosure}
+            disabled={!closureDate}
+            className="rounded-lg border border-[#1f3d2b] px-4 py-2 text-sm font-medium text-[#1f3d2b] hover:bg-[#f4f8f5] disabled:opacity-60 whitespace-nowrap"
+          >
+            Dag sluiten
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
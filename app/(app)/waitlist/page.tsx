@@ -1,13 +1,27 @@
 "use client"
 
-import { FormEvent, useMemo, useState } from "react"
+import { FormEvent, useCallback, useMemo, useState } from "react"
 import { useReservations } from "@/context/ReservationContext"
 import type { WaitlistEntry } from "@/data/waitlist"
+import {
+  GUEST_LANGUAGES,
+  GUEST_LANGUAGE_LABELS,
+  isGuestLanguage,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import {
+  describeSeatDifference,
+  fitsTable,
+  rankWaitlistCandidates
+} from "@/lib/shared/matching"
+import { isOpenTable } from "@/lib/shared/reservationStatus"
+import { describeSeatRange, describeTables, seatsForReservation } from "@/lib/shared/tables"
 
 export default function WaitlistPage() {
   const {
     waitlist,
     reservations,
+    tables,
     automationSettings,
     addWaitlistEntry,
     removeWaitlistEntry,
@@ -18,17 +32,41 @@ export default function WaitlistPage() {
   const [partySizeFilter, setPartySizeFilter] = useState("all")
   const [name, setName] = useState("")
   const [phone, setPhone] = useState("")
+  const [email, setEmail] = useState("")
+  const [language, setLanguage] = useState<GuestLanguage | "">("")
   const [partySize, setPartySize] = useState(2)
   const [error, setError] = useState("")
 
-  const openTableSizes = useMemo(
+  const openTables = useMemo(
     () =>
       reservations
-        .filter(r => r.status === "expired" || r.status === "unfilled")
-        .map(r => r.partySize),
-    [reservations]
+        .filter(r => isOpenTable(r.status))
+        .sort((a, b) => a.time.localeCompare(b.time))
+        .map(reservation => ({ reservation, seats: seatsForReservation(reservation, tables) })),
+    [reservations, tables]
   )
 
+  const hasTableMatch = useCallback(
+    (entry: WaitlistEntry) =>
+      openTables.some(table => fitsTable(table.seats, entry.partySize, automationSettings)),
+    [openTables, automationSettings]
+  )
+
+  // The order the matching engine would offer each open table in.
+  const tableRankings = useMemo(() => {
+    const candidates = waitlist
+      .filter(entry => (entry.status ?? "waiting") === "waiting")
+      .map(entry => ({
+        entry,
+        partySize: entry.partySize,
+        waitingSince: entry.createdAt ?? 0
+      }))
+    return openTables.map(table => ({
+      table,
+      ranked: rankWaitlistCandidates(table.seats, candidates, automationSettings)
+    }))
+  }, [openTables, waitlist, automationSettings])
+
   const filteredWaitlist = useMemo(() => {
     const query = search.trim().toLowerCase()
 
@@ -46,8 +84,8 @@ export default function WaitlistPage() {
         )
       })
       .sort((a, b) => {
-        const aHasDirectMatch = openTableSizes.includes(a.partySize) ? 0 : 1
-        const bHasDirectMatch = openTableSizes.includes(b.partySize) ? 0 : 1
+        const aHasDirectMatch = hasTableMatch(a) ? 0 : 1
+        const bHasDirectMatch = hasTableMatch(b) ? 0 : 1
         if (aHasDirectMatch !== bHasDirectMatch) return aHasDirectMatch - bHasDirectMatch
 
         const aStatus = a.status === "waiting" ? 0 : 1
@@ -56,12 +94,18 @@ export default function WaitlistPage() {
 
         return (a.createdAt ?? 0) - (b.createdAt ?? 0)
       })
-  }, [waitlist, search, partySizeFilter, openTableSizes])
+  }, [waitlist, search, partySizeFilter, hasTableMatch])
+
+  const matchRulesLabel = `${
+    automationSettings.waitlistMatchPriority === "best_fit"
+      ? "best passende groep eerst"
+      : "langst wachtende groep eerst"
+  }, max. ${automationSettings.waitlistMaxEmptySeats} lege stoelen en ${
+    automationSettings.waitlistMaxExtraGuests
+  } extra gasten`
 
   const totalGuests = waitlist.reduce((sum, entry) => sum + entry.partySize, 0)
-  const directMatches = waitlist.filter(entry =>
-    openTableSizes.includes(entry.partySize)
-  ).length
+  const directMatches = waitlist.filter(hasTableMatch).length
   const contactedCount = waitlist.filter(
     entry => entry.status === "contacted"
   ).length
@@ -82,11 +126,15 @@ export default function WaitlistPage() {
     addWaitlistEntry({
       name: name.trim(),
       phone: phone.trim(),
+      email: email.trim() || undefined,
+      language: language || undefined,
       partySize
     })
 
     setName("")
     setPhone("")
+    setEmail("")
+    setLanguage("")
     setPartySize(2)
     setError("")
   }
@@ -143,6 +191,35 @@ export default function WaitlistPage() {
             />
           </label>
 
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-[#1f3d2b]">
+              E-mail (optioneel)
+            </span>
+            <input
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+              placeholder="naam@voorbeeld.be"
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-[#1f3d2b]">Taal</span>
+            <select
+              value={language}
+              onChange={e => setLanguage(isGuestLanguage(e.target.value) ? e.target.value : "")}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+            >
+              <option value="">Automatisch (volgens landnummer)</option>
+              {GUEST_LANGUAGES.map(option => (
+                <option key={option} value={option}>
+                  {GUEST_LANGUAGE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+
           <label className="block space-y-1">
             <span className="text-sm font-medium text-[#1f3d2b]">
               Aantal personen
@@ -219,7 +296,7 @@ export default function WaitlistPage() {
                 <WaitlistRow
                   key={entry.id}
                   entry={entry}
-                  hasDirectMatch={openTableSizes.includes(entry.partySize)}
+                  hasDirectMatch={hasTableMatch(entry)}
                   onContact={() => markWaitlistContacted(entry.id)}
                   onRemove={() => removeWaitlistEntry(entry.id)}
                 />
@@ -228,6 +305,48 @@ export default function WaitlistPage() {
           )}
         </div>
       </div>
+
+      {tableRankings.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-100 p-6 space-y-5">
+          <div>
+            <h2 className="text-lg font-semibold text-[#1f3d2b]">
+              Kandidaten per open tafel
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              In deze volgorde krijgen wachtenden een vrijgekomen tafel aangeboden: {matchRulesLabel}.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {tableRankings.map(({ table: { reservation, seats }, ranked }) => (
+              <div key={reservation.id} className="rounded-xl border border-gray-100 bg-[#fcfaf5] p-4 space-y-3">
+                <p className="font-medium text-[#1f3d2b]">
+                  {reservation.time} | {describeTables(reservation.tableIds, tables) || "tafel"} voor {describeSeatRange(seats)}
+                  <span className="block text-xs font-normal text-gray-500">
+                    Vrijgekomen door {reservation.name}
+                  </span>
+                </p>
+                {ranked.length === 0 ? (
+                  <p className="text-sm text-gray-400">Geen passende wachtenden.</p>
+                ) : (
+                  <ol className="space-y-1.5 text-sm">
+                    {ranked.slice(0, 5).map(({ candidate, seatDifference }, index) => (
+                      <li key={candidate.entry.id} className="flex justify-between gap-3">
+                        <span className="text-gray-700">
+                          {index + 1}. {candidate.entry.name} ({candidate.partySize} pers.)
+                        </span>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {describeSeatDifference(seatDifference)}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -272,7 +391,7 @@ function WaitlistRow({
             {entry.name}
           </p>
           <p className="text-sm text-gray-500">
-            {entry.phone} | {entry.partySize} personen | {waitingLabel}
+            {entry.phone}{entry.email ? ` | ${entry.email}` : ""}{entry.language ? ` | ${GUEST_LANGUAGE_LABELS[entry.language]}` : ""} | {entry.partySize} personen | {waitingLabel}
           </p>
         </div>
 
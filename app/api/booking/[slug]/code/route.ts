@@ -0,0 +1,92 @@
+import crypto from "node:crypto"
+import { NextResponse } from "next/server"
+import {
+  checkBookingRequest,
+  resolveBookingRestaurant,
+  sendBookingCode,
+  type BookingRequest
+} from "@/lib/server/booking"
+import { createGuestCode } from "@/lib/server/guestCodes"
+import { consumeRateLimit, getClientIp } from "@/lib/server/rateLimit"
+import { parseBookingRequest } from "@/lib/server/validation"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// Public: checks the booking and sends the guest a code. Nothing is stored
+// until the code comes back to /confirm.
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const window = consumeRateLimit({
+    key: `booking:code:ip:${getClientIp(request)}`,
+    windowMs: 15 * 60 * 1000,
+    max: 10
+  })
+  if (!window.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel aanvragen. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(window.retryAfterSeconds) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseBookingRequest(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  // Every code costs a message, so one number gets a few per hour.
+  const phoneWindow = consumeRateLimit({
+    key: `booking:code:phone:${parsed.value.phone}`,
+    windowMs: 60 * 60 * 1000,
+    max: 3
+  })
+  if (!phoneWindow.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Er werden al codes naar dit nummer gestuurd. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(phoneWindow.retryAfterSeconds) } }
+    )
+  }
+
+  const resolved = await resolveBookingRestaurant(slug)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: resolved.status })
+  }
+  const { restaurant } = resolved
+
+  const now = Date.now()
+  const check = await checkBookingRequest(restaurant, parsed.value, now)
+  if (!check.ok) {
+    return NextResponse.json({ ok: false, error: check.error }, { status: check.status })
+  }
+
+  const { channel, ...input } = parsed.value
+  const bookingRequest: BookingRequest = {
+    ...input,
+    id: crypto.randomUUID(),
+    restaurantId: restaurant.id
+  }
+  const created = createGuestCode("booking", bookingRequest, now)
+  if (!created) {
+    return NextResponse.json(
+      { ok: false, error: "Online reserveren is niet geconfigureerd." },
+      { status: 503 }
+    )
+  }
+
+  const sent = await sendBookingCode({
+    restaurant,
+    request: bookingRequest,
+    channel,
+    code: created.code
+  })
+  if (!sent.ok) {
+    return NextResponse.json(
+      { ok: false, error: "De code kon niet verstuurd worden. Kijk je nummer na." },
+      { status: 502 }
+    )
+  }
+
+  return NextResponse.json({ ok: true, token: created.token, expiresAt: created.expiresAt })
+}
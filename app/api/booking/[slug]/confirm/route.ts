@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import {
+  checkBookingRequest,
+  createOnlineReservation,
+  resolveBookingRestaurant,
+  type BookingRequest
+} from "@/lib/server/booking"
+import { peekGuestCodeId, verifyGuestCode } from "@/lib/server/guestCodes"
+import { consumeRateLimit, getClientIp } from "@/lib/server/rateLimit"
+import { parseGuestCode } from "@/lib/server/validation"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// Public: books the reservation once the guest typed the right code.
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const window = consumeRateLimit({
+    key: `booking:confirm:ip:${getClientIp(request)}`,
+    windowMs: 15 * 60 * 1000,
+    max: 20
+  })
+  if (!window.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel pogingen. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(window.retryAfterSeconds) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseGuestCode(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  // Five guesses per code, wherever they come from.
+  const codeWindow = consumeRateLimit({
+    key: `booking:confirm:token:${peekGuestCodeId(parsed.value.token) ?? parsed.value.token}`,
+    windowMs: 15 * 60 * 1000,
+    max: 5
+  })
+  if (!codeWindow.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel foute codes. Vraag een nieuwe code aan." },
+      { status: 429, headers: { "Retry-After": String(codeWindow.retryAfterSeconds) } }
+    )
+  }
+
+  const now = Date.now()
+  const verified = verifyGuestCode<BookingRequest>(
+    "booking",
+    parsed.value.token,
+    parsed.value.code,
+    now
+  )
+  if (!verified.ok) {
+    return NextResponse.json({ ok: false, error: verified.error }, { status: verified.status })
+  }
+
+  const resolved = await resolveBookingRestaurant(slug)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: resolved.status })
+  }
+  const { restaurant } = resolved
+  if (verified.request.restaurantId !== restaurant.id) {
+    return NextResponse.json({ ok: false, error: "Vraag eerst een code aan." }, { status: 400 })
+  }
+
+  // The slot may have filled up while the guest was reading the code.
+  const check = await checkBookingRequest(restaurant, verified.request, now)
+  if (!check.ok) {
+    return NextResponse.json({ ok: false, error: check.error }, { status: check.status })
+  }
+
+  const created = await createOnlineReservation(restaurant, verified.request)
+  if (!created.ok) {
+    return NextResponse.json({ ok: false, error: created.error }, { status: created.status })
+  }
+
+  const { reservation } = created
+  return NextResponse.json({
+    ok: true,
+    reservation: {
+      name: reservation.name,
+      date: reservation.date,
+      time: reservation.time,
+      partySize: reservation.partySize
+    }
+  })
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { listBookableSlots, resolveBookingRestaurant } from "@/lib/server/booking"
+import { consumeRateLimit, getClientIp } from "@/lib/server/rateLimit"
+import { isValidDateKey } from "@/lib/shared/time"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// Public: the open slots of one day, without any guest details.
+export async function GET(request: Request, context: RouteContext) {
+  const window = consumeRateLimit({
+    key: `booking:slots:ip:${getClientIp(request)}`,
+    windowMs: 60 * 1000,
+    max: 60
+  })
+  if (!window.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel aanvragen. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(window.retryAfterSeconds) } }
+    )
+  }
+
+  const { slug } = await context.params
+  const date = new URL(request.url).searchParams.get("date") ?? ""
+  if (!isValidDateKey(date)) {
+    return NextResponse.json({ ok: false, error: "Datum moet YYYY-MM-DD zijn." }, { status: 400 })
+  }
+
+  const resolved = await resolveBookingRestaurant(slug)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: resolved.status })
+  }
+
+  const result = await listBookableSlots(resolved.restaurant, date, Date.now())
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: result.status })
+  }
+
+  return NextResponse.json({ ok: true, slots: result.slots })
+}
@@ -0,0 +1,76 @@
+import crypto from "node:crypto"
+import { NextResponse } from "next/server"
+import { resolvePublicRestaurant } from "@/lib/server/booking"
+import { createGuestCode } from "@/lib/server/guestCodes"
+import { consumeRateLimit, getClientIp } from "@/lib/server/rateLimit"
+import { parseWaitlistJoinRequest } from "@/lib/server/validation"
+import { sendWaitlistCode, type WaitlistJoinRequest } from "@/lib/server/waitlistJoin"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// Public: sends a guest at the door a code to join the waitlist. Nothing is
+// stored until the code comes back to /confirm. A number already in line gets
+// a code too, so this answer does not tell who is waiting.
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const window = consumeRateLimit({
+    key: `waitlist:code:ip:${getClientIp(request)}`,
+    windowMs: 15 * 60 * 1000,
+    max: 10
+  })
+  if (!window.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel aanvragen. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(window.retryAfterSeconds) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseWaitlistJoinRequest(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const phoneWindow = consumeRateLimit({
+    key: `waitlist:code:phone:${parsed.value.phone}`,
+    windowMs: 60 * 60 * 1000,
+    max: 3
+  })
+  if (!phoneWindow.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Er werden al codes naar dit nummer gestuurd. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(phoneWindow.retryAfterSeconds) } }
+    )
+  }
+
+  const resolved = await resolvePublicRestaurant(slug)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: resolved.status })
+  }
+  const { restaurant } = resolved
+
+  const joinRequest: WaitlistJoinRequest = {
+    ...parsed.value,
+    id: crypto.randomUUID(),
+    restaurantId: restaurant.id
+  }
+  const created = createGuestCode("waitlist", joinRequest, Date.now())
+  if (!created) {
+    return NextResponse.json(
+      { ok: false, error: "De wachtlijst is niet geconfigureerd." },
+      { status: 503 }
+    )
+  }
+
+  const sent = await sendWaitlistCode({ restaurant, request: joinRequest, code: created.code })
+  if (!sent.ok) {
+    return NextResponse.json(
+      { ok: false, error: "De code kon niet verstuurd worden. Kijk je nummer na." },
+      { status: 502 }
+    )
+  }
+
+  return NextResponse.json({ ok: true, token: created.token, expiresAt: created.expiresAt })
+}
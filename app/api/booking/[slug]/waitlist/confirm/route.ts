@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server"
+import { resolvePublicRestaurant } from "@/lib/server/booking"
+import { peekGuestCodeId, verifyGuestCode } from "@/lib/server/guestCodes"
+import { consumeRateLimit, getClientIp } from "@/lib/server/rateLimit"
+import { parseGuestCode } from "@/lib/server/validation"
+import {
+  findQueuedGuest,
+  joinWaitlist,
+  sendWaitlistAcknowledgement,
+  type WaitlistJoinRequest
+} from "@/lib/server/waitlistJoin"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// Public: puts the guest on the waitlist once they typed the right code and
+// tells them their place in line.
+export async function POST(request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const window = consumeRateLimit({
+    key: `waitlist:confirm:ip:${getClientIp(request)}`,
+    windowMs: 15 * 60 * 1000,
+    max: 20
+  })
+  if (!window.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel pogingen. Probeer later opnieuw." },
+      { status: 429, headers: { "Retry-After": String(window.retryAfterSeconds) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseGuestCode(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const codeWindow = consumeRateLimit({
+    key: `waitlist:confirm:token:${peekGuestCodeId(parsed.value.token) ?? parsed.value.token}`,
+    windowMs: 15 * 60 * 1000,
+    max: 5
+  })
+  if (!codeWindow.ok) {
+    return NextResponse.json(
+      { ok: false, error: "Te veel foute codes. Vraag een nieuwe code aan." },
+      { status: 429, headers: { "Retry-After": String(codeWindow.retryAfterSeconds) } }
+    )
+  }
+
+  const verified = verifyGuestCode<WaitlistJoinRequest>(
+    "waitlist",
+    parsed.value.token,
+    parsed.value.code,
+    Date.now()
+  )
+  if (!verified.ok) {
+    return NextResponse.json({ ok: false, error: verified.error }, { status: verified.status })
+  }
+
+  const resolved = await resolvePublicRestaurant(slug)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: resolved.status })
+  }
+  const { restaurant } = resolved
+  const joinRequest = verified.request
+  if (joinRequest.restaurantId !== restaurant.id) {
+    return NextResponse.json({ ok: false, error: "Vraag eerst een code aan." }, { status: 400 })
+  }
+
+  // A number already in line keeps its place; the guest proved it is theirs,
+  // so they may see it.
+  const queued = await findQueuedGuest(restaurant.id, joinRequest.phone)
+  if (!queued.ok) {
+    return NextResponse.json({ ok: false, error: queued.error }, { status: queued.status })
+  }
+  const joined =
+    queued.entry && queued.entry.id !== joinRequest.id
+      ? { ok: true as const, entry: queued.entry, position: queued.position, created: false }
+      : await joinWaitlist(restaurant, joinRequest)
+  if (!joined.ok) {
+    return NextResponse.json({ ok: false, error: joined.error }, { status: joined.status })
+  }
+
+  // The guest already sees the place on the page, so a failed message does
+  // not undo the join.
+  if (joined.created) {
+    const sent = await sendWaitlistAcknowledgement({
+      restaurant,
+      request: joinRequest,
+      position: joined.position
+    })
+    if (!sent.ok) {
+      console.error("Waitlist acknowledgement failed", {
+        entryId: joined.entry.id,
+        error: sent.error
+      })
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    entry: { name: joined.entry.name, partySize: joined.entry.partySize },
+    position: joined.position
+  })
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import crypto from "node:crypto"
+import { runReservationAutomation } from "@/lib/server/automation"
+
+function isAuthorized(request: Request, secret: string): boolean {
+  const header = request.headers.get("authorization")?.trim() ?? ""
+  const expected = `Bearer ${secret}`
+  const headerBytes = Buffer.from(header)
+  const expectedBytes = Buffer.from(expected)
+  if (headerBytes.length !== expectedBytes.length) return false
+  return crypto.timingSafeEqual(headerBytes, expectedBytes)
+}
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET?.trim()
+  if (!secret) {
+    return NextResponse.json(
+      { ok: false, error: "CRON_SECRET ontbreekt." },
+      { status: 500 }
+    )
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ ok: false, error: "Niet toegestaan." }, { status: 401 })
+  }
+
+  try {
+    const summary = await runReservationAutomation()
+    if (summary.errors.length > 0) {
+      console.error("Automation run errors", summary.errors)
+    }
+    return NextResponse.json({ ok: true, summary })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Automatisering mislukt."
+    return NextResponse.json({ ok: false, error: message }, { status: 500 })
+  }
+}
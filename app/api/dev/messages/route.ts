@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { normalizePhone } from "@/lib/phone"
+import {
+  clearFakeMessages,
+  listFakeMessages,
+  recordFakeMessage
+} from "@/lib/server/fakeMessaging"
+import { handleInboundMessage, handleStatusUpdate } from "@/lib/server/inbound"
+import { getMessagingProvider } from "@/lib/server/messaging"
+import { parseTwilioStatus } from "@/lib/server/messageLog"
+
+// Plays the guest's side of the fake provider: lists what TableBack sent,
+// and simulates replies and delivery reports. Only exists with
+// MESSAGING_PROVIDER=fake, which is never active in production.
+function fakeOnly() {
+  if (getMessagingProvider().name === "fake") return null
+  return NextResponse.json(
+    { ok: false, error: "Alleen beschikbaar met MESSAGING_PROVIDER=fake." },
+    { status: 404 }
+  )
+}
+
+export async function GET(request: Request) {
+  const denied = fakeOnly()
+  if (denied) return denied
+
+  const phone = new URL(request.url).searchParams.get("phone") ?? undefined
+  return NextResponse.json({ ok: true, messages: listFakeMessages(phone) })
+}
+
+// { action: "reply", from, body, channel? } answers as the guest;
+// { action: "status", sid, status, errorMessage? } reports delivery.
+export async function POST(request: Request) {
+  const denied = fakeOnly()
+  if (denied) return denied
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null
+  if (body?.action === "reply") {
+    const from = typeof body.from === "string" ? normalizePhone(body.from) : ""
+    const text = typeof body.body === "string" ? body.body.trim() : ""
+    if (!from || !text) {
+      return NextResponse.json(
+        { ok: false, error: "from en body zijn verplicht." },
+        { status: 400 }
+      )
+    }
+    const inbound = await recordFakeMessage({
+      channel: body.channel === "whatsapp" ? "whatsapp" : "sms",
+      direction: "in",
+      from,
+      to: "",
+      body: text,
+      templateSid: null,
+      variables: null
+    })
+    const message = {
+      channel: inbound.channel,
+      from,
+      body: text,
+      sid: inbound.sid
+    }
+    // Plays the shared platform sender, so replies reach every restaurant
+    // without a sender of its own.
+    const replyText = await handleInboundMessage(message, null)
+    await getMessagingProvider().respondToInbound(message, replyText)
+    return NextResponse.json({ ok: true, reply: replyText })
+  }
+
+  if (body?.action === "status") {
+    const sid = typeof body.sid === "string" ? body.sid : ""
+    const status = parseTwilioStatus(typeof body.status === "string" ? body.status : "")
+    if (!sid || !status) {
+      return NextResponse.json(
+        { ok: false, error: "sid en een geldige status zijn verplicht." },
+        { status: 400 }
+      )
+    }
+    await handleStatusUpdate({
+      sid,
+      status,
+      errorCode: null,
+      errorMessage: typeof body.errorMessage === "string" ? body.errorMessage : null
+    })
+    return NextResponse.json({ ok: true })
+  }
+
+  return NextResponse.json(
+    { ok: false, error: "action moet reply of status zijn." },
+    { status: 400 }
+  )
+}
+
+export async function DELETE() {
+  const denied = fakeOnly()
+  if (denied) return denied
+
+  clearFakeMessages()
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { sendEmailMessage } from "@/lib/server/email"
+import { buildPlainEmail } from "@/lib/server/emailTemplates"
+import { getRestaurantAccess, loadRestaurantContext } from "@/lib/server/restaurants"
+import { isEmailAddress, isUuid } from "@/lib/server/validation"
+
+type SendEmailPayload = {
+  to: string
+  subject: string
+  message: string
+  reservationId?: string
+}
+
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  let body: Partial<SendEmailPayload>
+  try {
+    body = (await request.json()) as Partial<SendEmailPayload>
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: "JSON body is ongeldig." },
+      { status: 400 }
+    )
+  }
+
+  const to = body.to?.trim()
+  const message = body.message?.trim()
+  if (!to || !message) {
+    return NextResponse.json(
+      { ok: false, error: "to en message zijn verplicht." },
+      { status: 400 }
+    )
+  }
+  if (!isEmailAddress(to)) {
+    return NextResponse.json(
+      { ok: false, error: "Ongeldig e-mailadres." },
+      { status: 400 }
+    )
+  }
+
+  const restaurant = await loadRestaurantContext(access.restaurantId)
+  const restaurantName = restaurant?.name ?? "TableBack"
+  const content = buildPlainEmail({
+    subject: body.subject?.trim() || `Bericht van ${restaurantName}`,
+    restaurantName,
+    message
+  })
+
+  const reservationId = isUuid(body.reservationId) ? body.reservationId : null
+  const result = await sendEmailMessage({
+    to,
+    ...content,
+    log: { restaurantId: access.restaurantId, reservationId }
+  })
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, messageId: result.messageId })
+}
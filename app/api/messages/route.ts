@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { messageFromRow, type MessageLogRow } from "@/lib/shared/rows"
+import { isValidDateKey } from "@/lib/shared/time"
+
+// Delivery log for the reservations of one day.
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const date = new URL(request.url).searchParams.get("date")
+  if (!date || !isValidDateKey(date)) {
+    return NextResponse.json(
+      { ok: false, error: "Datum moet YYYY-MM-DD zijn." },
+      { status: 400 }
+    )
+  }
+
+  const { data: reservationRows, error: reservationsError } = await supabaseAdmin
+    .from("reservations")
+    .select("id")
+    .eq("restaurant_id", access.restaurantId)
+    .eq("reservation_date", date)
+  if (reservationsError) {
+    return NextResponse.json(
+      { ok: false, error: reservationsError.message },
+      { status: 500 }
+    )
+  }
+
+  const reservationIds = (reservationRows ?? []).map(row => row.id as string)
+  if (reservationIds.length === 0) {
+    return NextResponse.json({ ok: true, messages: [] })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("message_log")
+    .select("*")
+    .eq("restaurant_id", access.restaurantId)
+    .in("reservation_id", reservationIds)
+    .order("created_at", { ascending: true })
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    ok: true,
+    messages: ((data ?? []) as MessageLogRow[]).map(messageFromRow)
+  })
+}
@@ -0,0 +1,194 @@
+import { NextResponse } from "next/server"
+import type { RestaurantTable } from "@/data/tables"
+import { createWaitlistOffer } from "@/lib/server/offers"
+import { getRestaurantAccess, loadRestaurantContext } from "@/lib/server/restaurants"
+import { pickTableForParty } from "@/lib/shared/matching"
+import { OPEN_TABLE_STATUSES } from "@/lib/shared/reservationStatus"
+import {
+  offerFromRow,
+  type ReservationRow,
+  type WaitlistOfferRow,
+  type WaitlistRow
+} from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { loadRestaurantTables } from "@/lib/server/tables"
+import { isUuid } from "@/lib/server/validation"
+import { supportsReplyAutomation } from "@/lib/shared/settings"
+import { seatsForReservation } from "@/lib/shared/tables"
+import { getDateKeyInZone, isValidDateKey } from "@/lib/shared/time"
+
+type CreateOfferPayload = {
+  waitlistId: string
+}
+
+// Offer history of the reservations of one day: who was offered which
+// table, when, and what they answered.
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const date = new URL(request.url).searchParams.get("date")
+  if (!date || !isValidDateKey(date)) {
+    return NextResponse.json(
+      { ok: false, error: "Datum moet YYYY-MM-DD zijn." },
+      { status: 400 }
+    )
+  }
+
+  const { data: reservationRows, error: reservationsError } = await supabaseAdmin
+    .from("reservations")
+    .select("id")
+    .eq("restaurant_id", access.restaurantId)
+    .eq("reservation_date", date)
+  if (reservationsError) {
+    return NextResponse.json(
+      { ok: false, error: reservationsError.message },
+      { status: 500 }
+    )
+  }
+
+  const reservationIds = (reservationRows ?? []).map(row => row.id as string)
+  if (reservationIds.length === 0) {
+    return NextResponse.json({ ok: true, offers: [] })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .select("*")
+    .eq("restaurant_id", access.restaurantId)
+    .in("reservation_id", reservationIds)
+    .order("created_at", { ascending: true })
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    ok: true,
+    offers: ((data ?? []) as WaitlistOfferRow[]).map(offerFromRow)
+  })
+}
+
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { restaurantId } = access
+  const restaurant = await loadRestaurantContext(restaurantId)
+  if (!restaurant) {
+    return NextResponse.json(
+      { ok: false, error: "Geen restaurant gekoppeld aan deze gebruiker." },
+      { status: 400 }
+    )
+  }
+
+  let body: Partial<CreateOfferPayload>
+  try {
+    body = (await request.json()) as Partial<CreateOfferPayload>
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: "JSON body is ongeldig." },
+      { status: 400 }
+    )
+  }
+
+  if (!body.waitlistId) {
+    return NextResponse.json(
+      { ok: false, error: "waitlistId is verplicht." },
+      { status: 400 }
+    )
+  }
+  if (!isUuid(body.waitlistId)) {
+    return NextResponse.json(
+      { ok: false, error: "waitlistId is ongeldig." },
+      { status: 400 }
+    )
+  }
+
+  if (!supportsReplyAutomation(restaurant.automationSettings.preferredChannel)) {
+    return NextResponse.json(
+      { ok: false, error: "Dit kanaal ondersteunt geen automatische opvolging." },
+      { status: 400 }
+    )
+  }
+
+  const { data: entry, error: entryError } = await supabaseAdmin
+    .from("waitlist")
+    .select("*")
+    .eq("id", body.waitlistId)
+    .eq("restaurant_id", restaurantId)
+    .maybeSingle()
+  if (entryError) {
+    return NextResponse.json({ ok: false, error: entryError.message }, { status: 500 })
+  }
+  if (!entry) {
+    return NextResponse.json(
+      { ok: false, error: "Wachtende niet gevonden." },
+      { status: 404 }
+    )
+  }
+
+  const waitlistEntry = entry as WaitlistRow
+  if ((waitlistEntry.status ?? "waiting") !== "waiting") {
+    return NextResponse.json(
+      { ok: false, error: "Deze gast wacht niet meer op een tafel." },
+      { status: 409 }
+    )
+  }
+
+  const { data: candidates, error: candidatesError } = await supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .in("status", OPEN_TABLE_STATUSES)
+    .eq("reservation_date", getDateKeyInZone(Date.now(), restaurant.localeSettings.timeZone))
+    .order("created_at", { ascending: true })
+  if (candidatesError) {
+    return NextResponse.json({ ok: false, error: candidatesError.message }, { status: 500 })
+  }
+
+  let tables: RestaurantTable[]
+  try {
+    tables = await loadRestaurantTables(restaurantId)
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Kon tafels niet laden." },
+      { status: 500 }
+    )
+  }
+
+  const candidateReservation = pickTableForParty(
+    waitlistEntry.party_size,
+    ((candidates ?? []) as ReservationRow[]).map(row => ({
+      row,
+      seats: seatsForReservation(
+        { partySize: row.party_size, tableIds: row.table_ids ?? [] },
+        tables
+      )
+    })),
+    restaurant.automationSettings
+  )?.row
+  if (!candidateReservation) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: `Geen open tafel beschikbaar voor ${waitlistEntry.party_size} personen`
+      },
+      { status: 409 }
+    )
+  }
+
+  const result = await createWaitlistOffer({
+    restaurant,
+    reservation: candidateReservation,
+    entry: waitlistEntry
+  })
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: result.status })
+  }
+
+  return NextResponse.json({ ok: true, offerId: result.offerId })
+}
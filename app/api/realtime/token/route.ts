@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { createRealtimeToken } from "@/lib/server/realtimeAuth"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+
+// The token for the restaurant's private realtime channel.
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const created = createRealtimeToken(
+    { userId: access.user.id, restaurantId: access.restaurantId },
+    Date.now()
+  )
+  if (!created) {
+    return NextResponse.json(
+      { ok: false, error: "Realtime is niet geconfigureerd (SUPABASE_JWT_SECRET)." },
+      { status: 503 }
+    )
+  }
+
+  return NextResponse.json({ ok: true, token: created.token, expiresAt: created.expiresAt })
+}
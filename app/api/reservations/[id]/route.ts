@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server"
+import {
+  checkReservationCapacity,
+  isSlotFullError,
+  slotFullError
+} from "@/lib/server/capacity"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { checkTableAssignment } from "@/lib/server/tables"
+import {
+  RESERVATION_STATUS_LABELS,
+  canSetManually,
+  isOpenTable
+} from "@/lib/shared/reservationStatus"
+import { reservationFromRow, type ReservationRow } from "@/lib/shared/rows"
+import { isUuid, parseReservationPatch, parseVersion } from "@/lib/server/validation"
+import {
+  deleteVersionedRow,
+  updateVersionedRow,
+  versionedErrorResponse
+} from "@/lib/server/versioning"
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Reservatie niet gevonden." }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseReservationPatch(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  // The version check below makes sure the row still has the status and
+  // slot checked here when the update lands.
+  const { changes } = parsed.value
+  const nextStatus = changes.status
+  const movesSlot =
+    changes.reservation_date !== undefined ||
+    changes.time !== undefined ||
+    changes.party_size !== undefined
+  let slotCandidate: { id: string; date: string; time: string; partySize: number } | undefined
+  if (nextStatus !== undefined || movesSlot) {
+    const { data: current, error: currentError } = await supabaseAdmin
+      .from("reservations")
+      .select("status,version,reservation_date,time,party_size")
+      .eq("id", id)
+      .eq("restaurant_id", access.restaurantId)
+      .maybeSingle()
+    if (currentError) {
+      return NextResponse.json({ ok: false, error: currentError.message }, { status: 500 })
+    }
+    if (!current) {
+      return NextResponse.json({ ok: false, error: "Reservatie niet gevonden." }, { status: 404 })
+    }
+    const currentRow = current as Pick<
+      ReservationRow,
+      "status" | "version" | "reservation_date" | "time" | "party_size"
+    >
+    const isCurrent = currentRow.version === parsed.value.version
+    if (
+      nextStatus !== undefined &&
+      isCurrent &&
+      currentRow.status !== nextStatus &&
+      !canSetManually(currentRow.status, nextStatus)
+    ) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Reservatie kan niet van ${RESERVATION_STATUS_LABELS[currentRow.status]} naar ${RESERVATION_STATUS_LABELS[nextStatus]}.`
+        },
+        { status: 400 }
+      )
+    }
+
+    const date = changes.reservation_date ?? currentRow.reservation_date
+    if (movesSlot && isCurrent && date && !isOpenTable(nextStatus ?? currentRow.status)) {
+      slotCandidate = {
+        id,
+        date,
+        time: changes.time ?? currentRow.time,
+        partySize: changes.party_size ?? currentRow.party_size
+      }
+      const capacity = await checkReservationCapacity(access.restaurantId, slotCandidate)
+      if (!capacity.ok) {
+        return NextResponse.json(
+          { ok: false, error: capacity.error },
+          { status: capacity.status }
+        )
+      }
+    }
+  }
+
+  const tableIds = changes.table_ids
+  if (tableIds) {
+    const assignment = await checkTableAssignment(access.restaurantId, tableIds)
+    if (!assignment.ok) {
+      return NextResponse.json(
+        { ok: false, error: assignment.error },
+        { status: assignment.status }
+      )
+    }
+  }
+
+  const result = await updateVersionedRow<ReservationRow>({
+    table: "reservations",
+    id,
+    restaurantId: access.restaurantId,
+    version: parsed.value.version,
+    changes
+  })
+  if (!result.ok && isSlotFullError(result.error)) {
+    const full = await slotFullError(access.restaurantId, slotCandidate)
+    return NextResponse.json({ ok: false, error: full.error }, { status: full.status })
+  }
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Reservatie niet gevonden.", reservationFromRow)
+  }
+
+  return NextResponse.json({
+    ok: true,
+    reservation: reservationFromRow(result.row as ReservationRow)
+  })
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Reservatie niet gevonden." }, { status: 404 })
+  }
+
+  const version = parseVersion(new URL(request.url).searchParams.get("version"))
+  if (!version.ok) {
+    return NextResponse.json({ ok: false, error: version.error }, { status: 400 })
+  }
+
+  const result = await deleteVersionedRow<ReservationRow>({
+    table: "reservations",
+    id,
+    restaurantId: access.restaurantId,
+    version: version.value
+  })
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Reservatie niet gevonden.", reservationFromRow)
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,120 @@
+import crypto from "node:crypto"
+import { NextResponse } from "next/server"
+import {
+  checkReservationCapacity,
+  isSlotFullError,
+  slotFullError
+} from "@/lib/server/capacity"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import {
+  reservationFromRow,
+  reservationToRow,
+  type ReservationRow
+} from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { parseNewReservation } from "@/lib/server/validation"
+import { isValidDateKey } from "@/lib/shared/time"
+
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const date = new URL(request.url).searchParams.get("date")
+  if (date && !isValidDateKey(date)) {
+    return NextResponse.json(
+      { ok: false, error: "Datum moet YYYY-MM-DD zijn." },
+      { status: 400 }
+    )
+  }
+
+  let query = supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .eq("restaurant_id", access.restaurantId)
+    .order("created_at", { ascending: true })
+  if (date) query = query.eq("reservation_date", date)
+
+  const { data, error } = await query
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    ok: true,
+    reservations: ((data ?? []) as ReservationRow[]).map(row => reservationFromRow(row))
+  })
+}
+
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseNewReservation(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const capacity = await checkReservationCapacity(access.restaurantId, parsed.value)
+  if (!capacity.ok) {
+    return NextResponse.json({ ok: false, error: capacity.error }, { status: capacity.status })
+  }
+
+  const row = {
+    ...reservationToRow(
+      {
+        ...parsed.value,
+        id: parsed.value.id ?? crypto.randomUUID(),
+        createdAt: Date.now(),
+        status: "booked",
+        reminderCount: 0,
+        filledFromWaitlist: false,
+        tableIds: [],
+        version: 1
+      },
+      access.user.id
+    ),
+    restaurant_id: access.restaurantId
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .insert([row])
+    .select("*")
+    .single()
+  if (isSlotFullError(error?.message)) {
+    const full = await slotFullError(access.restaurantId, parsed.value)
+    return NextResponse.json({ ok: false, error: full.error }, { status: full.status })
+  }
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500
+    return NextResponse.json({ ok: false, error: error.message }, { status })
+  }
+
+  return NextResponse.json({
+    ok: true,
+    reservation: reservationFromRow(data as ReservationRow)
+  })
+}
+
+export async function DELETE(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .delete()
+    .eq("restaurant_id", access.restaurantId)
+    .select("id")
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, deleted: (data ?? []).length })
+}
@@ -0,0 +1,106 @@
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { renderResponsePage } from "@/lib/server/html"
+import { renderReplyText, routeLinkReply } from "@/lib/server/replies"
+import { DEFAULT_GUEST_LANGUAGE } from "@/lib/shared/languages"
+import {
+  consumeResponseToken,
+  isResponseTokenUsed,
+  parseResponseToken,
+  type ResponseToken
+} from "@/lib/server/responseLinks"
+
+// The used-token store can fail; the guest then gets a page, not a bare 500.
+function unavailablePage(token: ResponseToken): Response {
+  return renderResponsePage(GUEST_COPY[token.language].page.unavailable, {
+    status: 503,
+    language: token.language
+  })
+}
+
+async function checkToken(
+  value: string,
+  now: number
+): Promise<{ ok: true; token: ResponseToken } | { ok: false; response: Response }> {
+  const token = parseResponseToken(value)
+  if (!token) {
+    return {
+      ok: false,
+      response: renderResponsePage(GUEST_COPY[DEFAULT_GUEST_LANGUAGE].page.invalidLink, {
+        status: 400
+      })
+    }
+  }
+  const copy = GUEST_COPY[token.language].page
+  if (token.expiresAt <= now) {
+    return {
+      ok: false,
+      response: renderResponsePage(copy.expiredLink, {
+        status: 410,
+        language: token.language
+      })
+    }
+  }
+  let used: boolean
+  try {
+    used = await isResponseTokenUsed(token)
+  } catch {
+    return { ok: false, response: unavailablePage(token) }
+  }
+  if (used) {
+    return {
+      ok: false,
+      response: renderResponsePage(copy.alreadyAnswered, {
+        status: 409,
+        language: token.language
+      })
+    }
+  }
+  return { ok: true, token }
+}
+
+// Opening the link only shows what will happen; nothing is applied on GET.
+export async function GET(request: Request) {
+  const value = new URL(request.url).searchParams.get("token") ?? ""
+  const checked = await checkToken(value, Date.now())
+  if (!checked.ok) return checked.response
+
+  const { token } = checked
+  const prompt = GUEST_COPY[token.language].page.prompts[token.kind][token.action]
+  return renderResponsePage(prompt.question, {
+    language: token.language,
+    confirm: { token: value, label: prompt.label }
+  })
+}
+
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null)
+  const value = String(formData?.get("token") ?? "")
+  const now = Date.now()
+  const checked = await checkToken(value, now)
+  if (!checked.ok) return checked.response
+
+  const { token } = checked
+  const copy = GUEST_COPY[token.language].page
+  let consumed: boolean
+  try {
+    consumed = await consumeResponseToken(token)
+  } catch {
+    return unavailablePage(token)
+  }
+  if (!consumed) {
+    return renderResponsePage(copy.alreadyAnswered, { status: 409, language: token.language })
+  }
+
+  const result = await routeLinkReply({
+    target: { kind: token.kind, id: token.id },
+    reply: token.action,
+    language: token.language,
+    now
+  })
+  const message =
+    result.kind === "offer" && result.outcome === "closed"
+      ? copy.tableTaken
+      : await renderReplyText(result)
+
+  return renderResponsePage(message, { language: token.language })
+}
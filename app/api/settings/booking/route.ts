@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { parseBookingSlug } from "@/lib/server/validation"
+
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("restaurants")
+    .select("booking_slug")
+    .eq("id", access.restaurantId)
+    .maybeSingle()
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, slug: (data?.booking_slug as string | null) ?? null })
+}
+
+export async function PUT(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseBookingSlug(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const { error } = await supabaseAdmin
+    .from("restaurants")
+    .update({ booking_slug: parsed.value })
+    .eq("id", access.restaurantId)
+  if (error) {
+    if (error.code === "23505") {
+      return NextResponse.json(
+        { ok: false, error: "Deze link is al in gebruik door een ander restaurant." },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, slug: parsed.value })
+}
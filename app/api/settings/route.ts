@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { settingsFromRow, type SettingsRow } from "@/lib/shared/rows"
+import { saveRestaurantSettings } from "@/lib/server/settings"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { parseSettings } from "@/lib/server/validation"
+
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("settings")
+    .select("*")
+    .eq("restaurant_id", access.restaurantId)
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, ...settingsFromRow(data as SettingsRow | null) })
+}
+
+export async function PUT(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseSettings(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const result = await saveRestaurantSettings({
+    userId: access.user.id,
+    restaurantId: access.restaurantId,
+    settings: parsed.value
+  })
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, warning: result.warning })
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server"
+import { isEncryptionConfigured } from "@/lib/server/encryption"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import {
+  deleteRestaurantSender,
+  isPlatformAccountSid,
+  isPlatformSenderAvailable,
+  loadRestaurantSender,
+  saveRestaurantSender
+} from "@/lib/server/senders"
+import { checkTwilioAccount } from "@/lib/server/twilio"
+import { parseSenderConfig } from "@/lib/server/validation"
+
+// The auth token never leaves the server; the form only learns whether one
+// is stored.
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const stored = await loadRestaurantSender(access.restaurantId)
+  if (!stored.ok) {
+    return NextResponse.json({ ok: false, error: stored.error }, { status: 500 })
+  }
+
+  const { config } = stored
+  return NextResponse.json({
+    ok: true,
+    sender: config
+      ? {
+          accountSid: config.accountSid,
+          whatsappFrom: config.whatsappFrom,
+          smsFrom: config.smsFrom,
+          messagingServiceSid: config.messagingServiceSid,
+          templateSids: config.templateSids,
+          hasAuthToken: Boolean(config.authToken)
+        }
+      : null,
+    platformAvailable: isPlatformSenderAvailable(),
+    encryptionConfigured: isEncryptionConfigured()
+  })
+}
+
+export async function PUT(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseSenderConfig(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  if (isPlatformAccountSid(parsed.value.accountSid)) {
+    return NextResponse.json(
+      { ok: false, error: "Dit is het Twilio-account van TableBack zelf; laat de afzender dan leeg." },
+      { status: 400 }
+    )
+  }
+
+  // A blank token keeps the stored one, but only for the same account.
+  let authToken = parsed.value.authToken
+  if (!authToken) {
+    const stored = await loadRestaurantSender(access.restaurantId)
+    if (!stored.ok) {
+      return NextResponse.json({ ok: false, error: stored.error }, { status: 500 })
+    }
+    if (stored.config?.accountSid === parsed.value.accountSid) {
+      authToken = stored.config.authToken
+    }
+  }
+  if (!authToken) {
+    return NextResponse.json(
+      { ok: false, error: "Auth token is verplicht voor een nieuw Twilio-account." },
+      { status: 400 }
+    )
+  }
+
+  // Only a SID/token pair Twilio accepts may sign webhooks for this
+  // restaurant.
+  const config = { ...parsed.value, authToken }
+  const account = await checkTwilioAccount({ ...config, source: "restaurant" })
+  if (!account.ok) {
+    return NextResponse.json(
+      { ok: false, error: `Twilio weigerde dit account: ${account.error}` },
+      { status: 400 }
+    )
+  }
+
+  const result = await saveRestaurantSender(access.restaurantId, config)
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: result.status })
+  }
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function DELETE(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const error = await deleteRestaurantSender(access.restaurantId)
+  if (error) {
+    return NextResponse.json({ ok: false, error }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { normalizePhone } from "@/lib/phone"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { resolveTwilioSender } from "@/lib/server/senders"
+import { checkTwilioAccount, sendSmsMessage, sendWhatsAppMessage } from "@/lib/server/twilio"
+
+// Tests the sender the restaurant would send from right now: its own when
+// one is saved, the platform sender otherwise. With a phone number it also
+// sends a short test message.
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    to?: unknown
+    channel?: unknown
+  }
+  const channel = body.channel === "whatsapp" ? "whatsapp" : "sms"
+  const to = typeof body.to === "string" && body.to.trim() ? normalizePhone(body.to) : null
+  if (to !== null && !to.startsWith("+")) {
+    return NextResponse.json(
+      { ok: false, error: "Gebruik een testnummer in internationaal formaat, bv. +32470123456." },
+      { status: 400 }
+    )
+  }
+
+  const resolved = await resolveTwilioSender(access.restaurantId)
+  if (!resolved.ok) {
+    return NextResponse.json({ ok: false, error: resolved.error }, { status: 400 })
+  }
+
+  const account = await checkTwilioAccount(resolved.sender)
+  if (!account.ok) {
+    return NextResponse.json({ ok: false, error: account.error }, { status: 502 })
+  }
+
+  let sid: string | null = null
+  if (to) {
+    const message = "TableBack test: deze afzender werkt."
+    const sent =
+      channel === "whatsapp"
+        ? await sendWhatsAppMessage({ restaurantId: access.restaurantId, to, body: message })
+        : await sendSmsMessage({ restaurantId: access.restaurantId, to, body: message })
+    if (!sent.ok) {
+      return NextResponse.json({ ok: false, error: sent.error }, { status: 502 })
+    }
+    sid = sent.sid
+  }
+
+  return NextResponse.json({
+    ok: true,
+    source: resolved.sender.source,
+    accountName: account.friendlyName,
+    accountStatus: account.status,
+    sid
+  })
+}
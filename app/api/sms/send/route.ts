@@ -1,20 +1,23 @@
 import { NextResponse } from "next/server"
 import { normalizePhone } from "@/lib/phone"
-import { getSessionUserFromCookieHeader } from "@/lib/server/auth"
-import { setPhoneConfirmation } from "@/lib/whatsappState"
-import type { WhatsAppConversationType } from "@/lib/whatsappState"
+import { startConversationForTarget, type ConversationType } from "@/lib/server/conversations"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { sendSmsMessage } from "@/lib/server/twilio"
+import { isUuid } from "@/lib/server/validation"
 
 type SendSmsPayload = {
   to: string
   message: string
-  conversationType?: WhatsAppConversationType
+  conversationType?: ConversationType
+  reservationId?: string
+  offerId?: string
   offerExpiresAt?: number
 }
 
 export async function POST(request: Request) {
-  const user = getSessionUserFromCookieHeader(request.headers.get("cookie") ?? "")
-  if (!user) {
-    return NextResponse.json({ ok: false, error: "Niet ingelogd." }, { status: 401 })
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
   }
 
   let body: Partial<SendSmsPayload>
@@ -48,73 +51,35 @@ export async function POST(request: Request) {
     )
   }
 
-  const accountSid = process.env.TWILIO_ACCOUNT_SID
-  const authToken = process.env.TWILIO_AUTH_TOKEN
-  const from = process.env.TWILIO_SMS_FROM
-  const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID
-  const statusCallbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL
-
-  if (!accountSid || !authToken || (!from && !messagingServiceSid)) {
-    return NextResponse.json(
-      {
-        ok: false,
-        error:
-          "Twilio env ontbreekt. Zet TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN en TWILIO_SMS_FROM of TWILIO_MESSAGING_SERVICE_SID."
-      },
-      { status: 500 }
-    )
-  }
-
   const normalizedTo = normalizePhone(to)
-  const normalizedFrom = from ? normalizePhone(from) : ""
-  if (!normalizedTo || (from && !normalizedFrom)) {
+  if (!normalizedTo) {
     return NextResponse.json(
       { ok: false, error: "Ongeldig telefoonnummer voor SMS." },
       { status: 400 }
     )
   }
 
-  const form = new URLSearchParams()
-  if (messagingServiceSid) {
-    form.set("MessagingServiceSid", messagingServiceSid)
-  } else {
-    form.set("From", normalizedFrom)
-  }
-  form.set("To", normalizedTo)
-  form.set("Body", message)
-  if (statusCallbackUrl?.trim()) {
-    form.set("StatusCallback", statusCallbackUrl.trim())
-  }
-
-  setPhoneConfirmation(normalizedTo, {
-    confirmed: false,
-    declined: false,
-    lastReply: "",
-    updatedAt: Date.now(),
+  // Without a reservation or offer there is nothing a reply could answer,
+  // so no conversation is opened.
+  const reservationId = isUuid(body.reservationId) ? body.reservationId : null
+  const offerId = isUuid(body.offerId) ? body.offerId : null
+  await startConversationForTarget({
+    restaurantId: access.restaurantId,
+    phone: normalizedTo,
     conversationType,
-    offerExpiresAt,
-    offerClosed: false
+    targetId: conversationType === "waitlist_offer" ? offerId : reservationId,
+    offerExpiresAt
   })
 
-  const response = await fetch(
-    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
-        "Content-Type": "application/x-www-form-urlencoded"
-      },
-      body: form.toString()
-    }
-  )
-
-  const data = await response.json()
-  if (!response.ok) {
-    return NextResponse.json(
-      { ok: false, error: data?.message ?? "SMS verzending mislukt." },
-      { status: 500 }
-    )
+  const result = await sendSmsMessage({
+    restaurantId: access.restaurantId,
+    to: normalizedTo,
+    body: message,
+    log: { restaurantId: access.restaurantId, reservationId }
+  })
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, error: result.error }, { status: 500 })
   }
 
-  return NextResponse.json({ ok: true, sid: data.sid })
+  return NextResponse.json({ ok: true, sid: result.sid })
 }
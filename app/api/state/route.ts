@@ -1,178 +1,46 @@
 import { NextResponse } from "next/server"
-import crypto from "node:crypto"
-import { getSessionUserFromCookieHeader } from "@/lib/server/auth"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
 import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import {
+  reservationFromRow,
+  settingsFromRow,
+  tableFromRow,
+  waitlistFromRow,
+  type ReservationRow,
+  type RestaurantTableRow,
+  type SettingsRow,
+  type WaitlistRow
+} from "@/lib/shared/rows"
 import type { Reservation } from "@/data/reservations"
+import type { RestaurantTable } from "@/data/tables"
 import type { WaitlistEntry } from "@/data/waitlist"
-import {
-  DEFAULT_AUTOMATION_SETTINGS,
-  DEFAULT_REMINDER_SETTINGS,
-  type AutomationSettings,
-  type ReminderSettings
+import type {
+  AutomationSettings,
+  LocaleSettings,
+  ReminderSettings
 } from "@/lib/shared/settings"
+import type { ServiceHours } from "@/lib/shared/serviceHours"
+import type { MessageTemplates } from "@/lib/shared/templates"
 
 type PersistedAppState = {
   reservations: Reservation[]
   waitlist: WaitlistEntry[]
+  tables: RestaurantTable[]
   reminderSettings: ReminderSettings
   automationSettings: AutomationSettings
-}
-
-type ReservationRow = {
-  id: string
-  user_id: string
-  restaurant_id?: string | null
-  name: string
-  phone: string | null
-  time: string
-  created_at: string | null
-  party_size: number
-  status: Reservation["status"]
-  filled_from_waitlist: boolean | null
-  original_guest_name: string | null
-  estimated_revenue: number
-  reminder_count: number | null
-  last_reminder_at: string | null
-}
-
-type WaitlistRow = {
-  id: string
-  user_id: string
-  restaurant_id?: string | null
-  name: string
-  phone: string
-  party_size: number
-  status: "waiting" | "contacted" | "declined" | null
-  created_at: string | null
-  last_contacted_at: string | null
-}
-
-type SettingsRow = {
-  id?: number
-  user_id: string
-  restaurant_id?: string | null
-  first_reminder_minutes_before: number | null
-  final_reminder_minutes_before: number | null
-  no_show_threshold_minutes: number | null
-  waitlist_response_minutes: number | null
-  preferred_channel: "whatsapp" | "sms" | "both" | "email" | null
-}
-
-function isPreferredChannelCompatError(errorMessage: string): boolean {
-  const lower = errorMessage.toLowerCase()
-  return (
-    lower.includes("preferred_channel") &&
-    (
-      lower.includes("enum") ||
-      lower.includes("invalid input value") ||
-      lower.includes("check constraint")
-    )
-  )
-}
-
-function ensureUuidId(value: unknown): string {
-  if (typeof value === "string" && /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value)) {
-    return value
-  }
-  return crypto.randomUUID()
-}
-
-function parseTimestamp(value: string | null): number | undefined {
-  if (!value) return undefined
-  const parsed = Date.parse(value.includes(" ") ? value.replace(" ", "T") : value)
-  return Number.isFinite(parsed) ? parsed : undefined
-}
-
-function reservationFromRow(row: ReservationRow): Reservation {
-  return {
-    id: row.id,
-    name: row.name,
-    phone: row.phone ?? "",
-    time: row.time,
-    createdAt: parseTimestamp(row.created_at) ?? Date.now(),
-    partySize: row.party_size,
-    status: row.status,
-    filledFromWaitlist: Boolean(row.filled_from_waitlist),
-    originalGuestName: row.original_guest_name ?? undefined,
-    estimatedRevenue: row.estimated_revenue,
-    reminderCount: row.reminder_count ?? 0,
-    lastReminderAt: parseTimestamp(row.last_reminder_at)
-  }
-}
-
-function reservationToRow(entry: Reservation, userId: string): ReservationRow {
-  return {
-    id: entry.id,
-    user_id: userId,
-    name: entry.name,
-    phone: entry.phone,
-    time: entry.time,
-    created_at: new Date(entry.createdAt ?? Date.now()).toISOString(),
-    party_size: entry.partySize,
-    status: entry.status,
-    filled_from_waitlist: Boolean(entry.filledFromWaitlist),
-    original_guest_name: entry.originalGuestName ?? null,
-    estimated_revenue: entry.estimatedRevenue,
-    reminder_count: entry.reminderCount,
-    last_reminder_at: entry.lastReminderAt
-      ? new Date(entry.lastReminderAt).toISOString()
-      : null
-  }
-}
-
-function waitlistFromRow(row: WaitlistRow): WaitlistEntry {
-  return {
-    id: row.id,
-    name: row.name,
-    phone: row.phone,
-    partySize: row.party_size,
-    status: row.status ?? "waiting",
-    createdAt: parseTimestamp(row.created_at),
-    lastContactedAt: parseTimestamp(row.last_contacted_at)
-  }
-}
-
-function waitlistToRow(entry: WaitlistEntry, userId: string): WaitlistRow {
-  return {
-    id: entry.id,
-    user_id: userId,
-    restaurant_id: null,
-    name: entry.name,
-    phone: entry.phone,
-    party_size: entry.partySize,
-    status: entry.status ?? "waiting",
-    created_at: new Date(entry.createdAt ?? Date.now()).toISOString(),
-    last_contacted_at: entry.lastContactedAt
-      ? new Date(entry.lastContactedAt).toISOString()
-      : null
-  }
-}
-
-async function getRestaurantIdForUser(userId: string): Promise<string | null> {
-  const { data, error } = await supabaseAdmin
-    .from("restaurants")
-    .select("id")
-    .eq("owner_user_id", userId)
-    .maybeSingle()
-  if (error || !data?.id) return null
-  return data.id as string
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
 }
 
 export async function GET(request: Request) {
-  const user = getSessionUserFromCookieHeader(request.headers.get("cookie") ?? "")
-  if (!user) {
-    return NextResponse.json({ ok: false, error: "Niet ingelogd." }, { status: 401 })
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
   }
+  const { restaurantId } = access
 
-  const restaurantId = await getRestaurantIdForUser(user.id)
-  if (!restaurantId) {
-    return NextResponse.json(
-      { ok: false, error: "Geen restaurant gekoppeld aan deze gebruiker." },
-      { status: 400 }
-    )
-  }
-
-  const [reservationsResult, waitlistResult, settingsResult] = await Promise.all([
+  const [reservationsResult, waitlistResult, tablesResult, settingsResult] = await Promise.all([
     supabaseAdmin
       .from("reservations")
       .select("*")
@@ -183,6 +51,11 @@ export async function GET(request: Request) {
       .select("*")
       .eq("restaurant_id", restaurantId)
       .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("restaurant_tables")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("name", { ascending: true }),
     supabaseAdmin
       .from("settings")
       .select("*")
@@ -190,13 +63,19 @@ export async function GET(request: Request) {
       .maybeSingle()
   ])
 
-  if (reservationsResult.error || waitlistResult.error || settingsResult.error) {
+  if (
+    reservationsResult.error ||
+    waitlistResult.error ||
+    tablesResult.error ||
+    settingsResult.error
+  ) {
     return NextResponse.json(
       {
         ok: false,
         error:
           reservationsResult.error?.message ??
           waitlistResult.error?.message ??
+          tablesResult.error?.message ??
           settingsResult.error?.message ??
           "Kon state niet laden."
       },
@@ -204,236 +83,20 @@ export async function GET(request: Request) {
     )
   }
 
-  const settings = settingsResult.data as SettingsRow | null
-  const preferredChannel =
-    settings?.preferred_channel === "whatsapp" ||
-    settings?.preferred_channel === "sms" ||
-    settings?.preferred_channel === "both" ||
-    settings?.preferred_channel === "email"
-      ? settings.preferred_channel
-      : DEFAULT_AUTOMATION_SETTINGS.preferredChannel
+  const settings = settingsFromRow(settingsResult.data as SettingsRow | null)
 
   const state: PersistedAppState = {
-    reservations: ((reservationsResult.data ?? []) as ReservationRow[]).map(
-      reservationFromRow
+    reservations: ((reservationsResult.data ?? []) as ReservationRow[]).map(row =>
+      reservationFromRow(row, settings.localeSettings.timeZone)
     ),
     waitlist: ((waitlistResult.data ?? []) as WaitlistRow[]).map(waitlistFromRow),
-    reminderSettings: {
-      firstReminderMinutesBefore:
-        settings?.first_reminder_minutes_before ??
-        DEFAULT_REMINDER_SETTINGS.firstReminderMinutesBefore,
-      finalReminderMinutesBefore:
-        settings?.final_reminder_minutes_before ??
-        DEFAULT_REMINDER_SETTINGS.finalReminderMinutesBefore
-    },
-    automationSettings: {
-      noShowThresholdMinutes:
-        settings?.no_show_threshold_minutes ??
-        DEFAULT_AUTOMATION_SETTINGS.noShowThresholdMinutes,
-      waitlistResponseMinutes:
-        settings?.waitlist_response_minutes ??
-        DEFAULT_AUTOMATION_SETTINGS.waitlistResponseMinutes,
-      preferredChannel
-    }
+    tables: ((tablesResult.data ?? []) as RestaurantTableRow[]).map(tableFromRow),
+    reminderSettings: settings.reminderSettings,
+    automationSettings: settings.automationSettings,
+    localeSettings: settings.localeSettings,
+    messageTemplates: settings.messageTemplates,
+    serviceHours: settings.serviceHours
   }
 
   return NextResponse.json({ ok: true, state })
 }
-
-export async function PUT(request: Request) {
-  const user = getSessionUserFromCookieHeader(request.headers.get("cookie") ?? "")
-  if (!user) {
-    return NextResponse.json({ ok: false, error: "Niet ingelogd." }, { status: 401 })
-  }
-
-  const restaurantId = await getRestaurantIdForUser(user.id)
-  if (!restaurantId) {
-    return NextResponse.json(
-      { ok: false, error: "Geen restaurant gekoppeld aan deze gebruiker." },
-      { status: 400 }
-    )
-  }
-
-  let body: Partial<PersistedAppState>
-  try {
-    body = (await request.json()) as Partial<PersistedAppState>
-  } catch {
-    return NextResponse.json(
-      { ok: false, error: "JSON body is ongeldig." },
-      { status: 400 }
-    )
-  }
-
-  const reservations = Array.isArray(body.reservations) ? body.reservations : []
-  const waitlist = Array.isArray(body.waitlist) ? body.waitlist : []
-  const reminderSettings = body.reminderSettings ?? DEFAULT_REMINDER_SETTINGS
-  const automationSettings = body.automationSettings ?? DEFAULT_AUTOMATION_SETTINGS
-
-  const reservationRows = reservations.map(entry =>
-    ({
-      ...reservationToRow({ ...entry, id: ensureUuidId(entry.id) }, user.id),
-      restaurant_id: restaurantId
-    })
-  )
-  const waitlistRows = waitlist.map(entry =>
-    ({
-      ...waitlistToRow({ ...entry, id: ensureUuidId(entry.id) }, user.id),
-      restaurant_id: restaurantId
-    })
-  )
-
-  if (reservationRows.length > 0) {
-    const { error } = await supabaseAdmin
-      .from("reservations")
-      .upsert(reservationRows, { onConflict: "id" })
-    if (error) {
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  }
-
-  const { data: existingReservations, error: reservationIdsError } =
-    await supabaseAdmin
-      .from("reservations")
-      .select("id")
-      .eq("restaurant_id", restaurantId)
-  if (reservationIdsError) {
-    return NextResponse.json(
-      { ok: false, error: reservationIdsError.message },
-      { status: 500 }
-    )
-  }
-
-  const reservationIdSet = new Set(reservationRows.map(entry => entry.id))
-  const staleReservationIds = (existingReservations ?? [])
-    .map(row => row.id as string)
-    .filter(id => !reservationIdSet.has(id))
-
-  if (staleReservationIds.length > 0) {
-    const { error } = await supabaseAdmin
-      .from("reservations")
-      .delete()
-      .eq("restaurant_id", restaurantId)
-      .in("id", staleReservationIds)
-    if (error) {
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  }
-
-  if (waitlistRows.length > 0) {
-    const { error } = await supabaseAdmin
-      .from("waitlist")
-      .upsert(waitlistRows, { onConflict: "id" })
-    if (error) {
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  }
-
-  const { data: existingWaitlist, error: waitlistIdsError } =
-    await supabaseAdmin
-      .from("waitlist")
-      .select("id")
-      .eq("restaurant_id", restaurantId)
-  if (waitlistIdsError) {
-    return NextResponse.json({ ok: false, error: waitlistIdsError.message }, { status: 500 })
-  }
-
-  const waitlistIdSet = new Set(waitlistRows.map(entry => entry.id))
-  const staleWaitlistIds = (existingWaitlist ?? [])
-    .map(row => row.id as string)
-    .filter(id => !waitlistIdSet.has(id))
-
-  if (staleWaitlistIds.length > 0) {
-    const { error } = await supabaseAdmin
-      .from("waitlist")
-      .delete()
-      .eq("restaurant_id", restaurantId)
-      .in("id", staleWaitlistIds)
-    if (error) {
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  }
-
-  const settingsPayload: SettingsRow = {
-    user_id: user.id,
-    restaurant_id: restaurantId,
-    first_reminder_minutes_before: reminderSettings.firstReminderMinutesBefore,
-    final_reminder_minutes_before: reminderSettings.finalReminderMinutesBefore,
-    no_show_threshold_minutes: automationSettings.noShowThresholdMinutes,
-    waitlist_response_minutes: automationSettings.waitlistResponseMinutes,
-    preferred_channel: automationSettings.preferredChannel
-  }
-
-  const { data: existingSettings, error: settingsSelectError } = await supabaseAdmin
-    .from("settings")
-    .select("id")
-    .eq("restaurant_id", restaurantId)
-    .order("id", { ascending: false })
-    .limit(1)
-  if (settingsSelectError) {
-    return NextResponse.json({ ok: false, error: settingsSelectError.message }, { status: 500 })
-  }
-
-  if (existingSettings && existingSettings.length > 0) {
-    const { error } = await supabaseAdmin
-      .from("settings")
-      .update({
-        first_reminder_minutes_before:
-          settingsPayload.first_reminder_minutes_before,
-        final_reminder_minutes_before: settingsPayload.final_reminder_minutes_before,
-        no_show_threshold_minutes: settingsPayload.no_show_threshold_minutes,
-        waitlist_response_minutes: settingsPayload.waitlist_response_minutes,
-        preferred_channel: settingsPayload.preferred_channel
-      })
-      .eq("id", existingSettings[0].id as number)
-    if (error) {
-      if (isPreferredChannelCompatError(error.message)) {
-        const { error: fallbackError } = await supabaseAdmin
-          .from("settings")
-          .update({
-            first_reminder_minutes_before:
-              settingsPayload.first_reminder_minutes_before,
-            final_reminder_minutes_before: settingsPayload.final_reminder_minutes_before,
-            no_show_threshold_minutes: settingsPayload.no_show_threshold_minutes,
-            waitlist_response_minutes: settingsPayload.waitlist_response_minutes
-          })
-          .eq("id", existingSettings[0].id as number)
-        if (!fallbackError) {
-          return NextResponse.json({
-            ok: true,
-            warning:
-              "preferred_channel kon niet worden opgeslagen in de database (enum-compatibiliteit). Kanaalkeuze blijft lokaal bewaard."
-          })
-        }
-      }
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  } else {
-    const { error } = await supabaseAdmin.from("settings").insert([settingsPayload])
-    if (error) {
-      if (isPreferredChannelCompatError(error.message)) {
-        const { error: fallbackError } = await supabaseAdmin.from("settings").insert([
-          {
-            user_id: settingsPayload.user_id,
-            restaurant_id: settingsPayload.restaurant_id,
-            first_reminder_minutes_before:
-              settingsPayload.first_reminder_minutes_before,
-            final_reminder_minutes_before:
-              settingsPayload.final_reminder_minutes_before,
-            no_show_threshold_minutes: settingsPayload.no_show_threshold_minutes,
-            waitlist_response_minutes: settingsPayload.waitlist_response_minutes
-          }
-        ])
-        if (!fallbackError) {
-          return NextResponse.json({
-            ok: true,
-            warning:
-              "preferred_channel kon niet worden opgeslagen in de database (enum-compatibiliteit). Kanaalkeuze blijft lokaal bewaard."
-          })
-        }
-      }
-      return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
-    }
-  }
-
-  return NextResponse.json({ ok: true })
-}
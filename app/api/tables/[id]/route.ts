@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server"
+import type { RestaurantTable } from "@/data/tables"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { loadRestaurantTables } from "@/lib/server/tables"
+import { tableFromRow, type RestaurantTableRow } from "@/lib/shared/rows"
+import {
+  TABLE_COVERS_ORDER_ERROR,
+  isUuid,
+  parseTablePatch,
+  parseVersion
+} from "@/lib/server/validation"
+import {
+  deleteVersionedRow,
+  updateVersionedRow,
+  versionedErrorResponse
+} from "@/lib/server/versioning"
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Tafel niet gevonden." }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseTablePatch(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  let tables: RestaurantTable[]
+  try {
+    tables = await loadRestaurantTables(access.restaurantId)
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Kon tafels niet laden." },
+      { status: 500 }
+    )
+  }
+  const current = tables.find(table => table.id === id)
+  if (!current) {
+    return NextResponse.json({ ok: false, error: "Tafel niet gevonden." }, { status: 404 })
+  }
+
+  // Checked against the loaded row; the version check below makes sure it
+  // did not change before the update lands.
+  const { changes } = parsed.value
+  if (current.version === parsed.value.version) {
+    const minCovers = changes.min_covers ?? current.minCovers
+    const maxCovers = changes.max_covers ?? current.maxCovers
+    if (minCovers > maxCovers) {
+      return NextResponse.json({ ok: false, error: TABLE_COVERS_ORDER_ERROR }, { status: 400 })
+    }
+  }
+  if (
+    changes.pos_x !== undefined &&
+    tables.some(
+      table => table.id !== id && table.x === changes.pos_x && table.y === changes.pos_y
+    )
+  ) {
+    return NextResponse.json(
+      { ok: false, error: "Er staat al een tafel op deze plaats." },
+      { status: 409 }
+    )
+  }
+  if (changes.combinable_with) {
+    changes.combinable_with = changes.combinable_with.filter(
+      tableId => tableId !== id && tables.some(table => table.id === tableId)
+    )
+  }
+
+  const result = await updateVersionedRow<RestaurantTableRow>({
+    table: "restaurant_tables",
+    id,
+    restaurantId: access.restaurantId,
+    version: parsed.value.version,
+    changes
+  })
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Tafel niet gevonden.", tableFromRow)
+  }
+
+  return NextResponse.json({
+    ok: true,
+    table: tableFromRow(result.row as RestaurantTableRow)
+  })
+}
+
+// Reservations keep the id of a deleted table; it drops out of their
+// assignment wherever tables are looked up.
+export async function DELETE(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Tafel niet gevonden." }, { status: 404 })
+  }
+
+  const version = parseVersion(new URL(request.url).searchParams.get("version"))
+  if (!version.ok) {
+    return NextResponse.json({ ok: false, error: version.error }, { status: 400 })
+  }
+
+  const result = await deleteVersionedRow<RestaurantTableRow>({
+    table: "restaurant_tables",
+    id,
+    restaurantId: access.restaurantId,
+    version: version.value
+  })
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Tafel niet gevonden.", tableFromRow)
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,79 @@
+import crypto from "node:crypto"
+import { NextResponse } from "next/server"
+import type { RestaurantTable } from "@/data/tables"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { loadRestaurantTables } from "@/lib/server/tables"
+import { parseNewTable } from "@/lib/server/validation"
+import { tableFromRow, type RestaurantTableRow } from "@/lib/shared/rows"
+
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  try {
+    return NextResponse.json({ ok: true, tables: await loadRestaurantTables(access.restaurantId) })
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Kon tafels niet laden." },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseNewTable(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  let tables: RestaurantTable[]
+  try {
+    tables = await loadRestaurantTables(access.restaurantId)
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Kon tafels niet laden." },
+      { status: 500 }
+    )
+  }
+  if (tables.some(table => table.x === parsed.value.x && table.y === parsed.value.y)) {
+    return NextResponse.json(
+      { ok: false, error: "Er staat al een tafel op deze plaats." },
+      { status: 409 }
+    )
+  }
+
+  const row = {
+    id: parsed.value.id ?? crypto.randomUUID(),
+    restaurant_id: access.restaurantId,
+    name: parsed.value.name,
+    min_covers: parsed.value.minCovers,
+    max_covers: parsed.value.maxCovers,
+    area: parsed.value.area ?? null,
+    combinable_with: parsed.value.combinableWith.filter(id =>
+      tables.some(table => table.id === id)
+    ),
+    pos_x: parsed.value.x,
+    pos_y: parsed.value.y
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("restaurant_tables")
+    .insert([row])
+    .select("*")
+    .single()
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500
+    return NextResponse.json({ ok: false, error: error.message }, { status })
+  }
+
+  return NextResponse.json({ ok: true, table: tableFromRow(data as RestaurantTableRow) })
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { waitlistFromRow, type WaitlistRow } from "@/lib/shared/rows"
+import { isUuid, parseWaitlistPatch, parseVersion } from "@/lib/server/validation"
+import {
+  deleteVersionedRow,
+  updateVersionedRow,
+  versionedErrorResponse
+} from "@/lib/server/versioning"
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Wachtende niet gevonden." }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseWaitlistPatch(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const result = await updateVersionedRow<WaitlistRow>({
+    table: "waitlist",
+    id,
+    restaurantId: access.restaurantId,
+    version: parsed.value.version,
+    changes: parsed.value.changes
+  })
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Wachtende niet gevonden.", waitlistFromRow)
+  }
+
+  return NextResponse.json({
+    ok: true,
+    entry: waitlistFromRow(result.row as WaitlistRow)
+  })
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { id } = await context.params
+  if (!isUuid(id)) {
+    return NextResponse.json({ ok: false, error: "Wachtende niet gevonden." }, { status: 404 })
+  }
+
+  const version = parseVersion(new URL(request.url).searchParams.get("version"))
+  if (!version.ok) {
+    return NextResponse.json({ ok: false, error: version.error }, { status: 400 })
+  }
+
+  const result = await deleteVersionedRow<WaitlistRow>({
+    table: "waitlist",
+    id,
+    restaurantId: access.restaurantId,
+    version: version.value
+  })
+  if (!result.ok) {
+    return versionedErrorResponse(result, "Wachtende niet gevonden.", waitlistFromRow)
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,65 @@
+import crypto from "node:crypto"
+import { NextResponse } from "next/server"
+import { getRestaurantAccess } from "@/lib/server/restaurants"
+import { waitlistFromRow, waitlistToRow, type WaitlistRow } from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { parseNewWaitlistEntry } from "@/lib/server/validation"
+
+export async function GET(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("waitlist")
+    .select("*")
+    .eq("restaurant_id", access.restaurantId)
+    .order("created_at", { ascending: true })
+  if (error) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    ok: true,
+    waitlist: ((data ?? []) as WaitlistRow[]).map(waitlistFromRow)
+  })
+}
+
+export async function POST(request: Request) {
+  const access = await getRestaurantAccess(request)
+  if (!access.ok) {
+    return NextResponse.json({ ok: false, error: access.error }, { status: access.status })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseNewWaitlistEntry(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 })
+  }
+
+  const row = {
+    ...waitlistToRow(
+      {
+        ...parsed.value,
+        id: parsed.value.id ?? crypto.randomUUID(),
+        status: "waiting",
+        createdAt: Date.now()
+      },
+      access.user.id
+    ),
+    restaurant_id: access.restaurantId
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("waitlist")
+    .insert([row])
+    .select("*")
+    .single()
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500
+    return NextResponse.json({ ok: false, error: error.message }, { status })
+  }
+
+  return NextResponse.json({ ok: true, entry: waitlistFromRow(data as WaitlistRow) })
+}
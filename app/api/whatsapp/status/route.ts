@@ -1,20 +1,33 @@
 import { NextResponse } from "next/server"
+import { handleStatusUpdate } from "@/lib/server/inbound"
+import { getMessagingProvider, readWebhookParams } from "@/lib/server/messaging"
 
 export async function POST(request: Request) {
-  const formData = await request.formData()
-
-  const messageSid = String(formData.get("MessageSid") ?? "")
-  const messageStatus = String(formData.get("MessageStatus") ?? "")
-  const errorCode = String(formData.get("ErrorCode") ?? "")
-  const errorMessage = String(formData.get("ErrorMessage") ?? "")
+  const provider = getMessagingProvider()
+  const params = await readWebhookParams(request)
+  if (!params) {
+    return NextResponse.json({ ok: false, error: "Body moet form data zijn." }, { status: 400 })
+  }
+  const check = await provider.verifyWebhook(request, params, "status")
+  if (!check.ok) {
+    return NextResponse.json({ ok: false, error: check.error }, { status: check.status })
+  }
 
-  if (messageSid) {
-    console.log("Twilio status callback", {
-      messageSid,
-      messageStatus,
-      errorCode: errorCode || null,
-      errorMessage: errorMessage || null
-    })
+  const update = provider.parseStatus(params)
+  if (update) {
+    try {
+      await handleStatusUpdate(update)
+    } catch (error) {
+      console.error("Twilio status callback failed", {
+        messageSid: update.sid,
+        messageStatus: update.status,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return NextResponse.json(
+        { ok: false, error: "Status niet opgeslagen." },
+        { status: 500 }
+      )
+    }
   }
 
   return new NextResponse(null, { status: 204 })
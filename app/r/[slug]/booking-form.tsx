@@ -0,0 +1,246 @@
+"use client"
+
+import { FormEvent, useEffect, useState } from "react"
+import {
+  BOOKING_DAYS_AHEAD,
+  MAX_ONLINE_PARTY_SIZE,
+  type BookingChannel,
+  type BookingSlot
+} from "@/lib/shared/booking"
+import type { LocaleSettings } from "@/lib/shared/settings"
+import { formatDateKey, formatTimeKey, getDateKeyInZone, shiftDateKey } from "@/lib/shared/time"
+import { ChannelPicker, CodeForm, INPUT_CLASS, postJson } from "./guest-code"
+
+type Booked = {
+  name: string
+  date: string
+  time: string
+  partySize: number
+}
+
+export default function BookingForm({
+  slug,
+  restaurantName,
+  localeSettings
+}: {
+  slug: string
+  restaurantName: string
+  localeSettings: LocaleSettings
+}) {
+  const [today] = useState(() => getDateKeyInZone(Date.now(), localeSettings.timeZone))
+  const [date, setDate] = useState(today)
+  const [partySize, setPartySize] = useState(2)
+  const [time, setTime] = useState("")
+  const [loaded, setLoaded] = useState<{ date: string; slots: BookingSlot[] } | null>(null)
+  const [name, setName] = useState("")
+  const [phone, setPhone] = useState("")
+  const [channel, setChannel] = useState<BookingChannel>("sms")
+  const [token, setToken] = useState("")
+  const [code, setCode] = useState("")
+  const [booked, setBooked] = useState<Booked | null>(null)
+  const [error, setError] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    void (async () => {
+      let slots: BookingSlot[] = []
+      try {
+        const response = await fetch(
+          `/api/booking/${encodeURIComponent(slug)}?date=${encodeURIComponent(date)}`,
+          { cache: "no-store" }
+        )
+        const payload = (await response.json()) as { ok?: boolean; slots?: BookingSlot[] }
+        if (payload.ok && payload.slots) slots = payload.slots
+      } catch {
+        // Shown as a day without free slots.
+      }
+      if (active) setLoaded({ date, slots })
+    })()
+    return () => {
+      active = false
+    }
+  }, [slug, date])
+
+  const slots = loaded?.date === date ? loaded.slots : null
+  const openSlots = (slots ?? []).filter(slot => slot.free >= partySize)
+  const selectedTime = openSlots.some(slot => slot.time === time) ? time : ""
+
+  async function requestCode(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    if (!selectedTime) {
+      setError("Kies een uur.")
+      return
+    }
+    if (!name.trim() || !phone.trim()) {
+      setError("Naam en telefoon zijn verplicht.")
+      return
+    }
+
+    setBusy(true)
+    setError("")
+    const result = await postJson<{ token: string }>(
+      `/api/booking/${encodeURIComponent(slug)}/code`,
+      { name, phone, date, time: selectedTime, partySize, channel }
+    )
+    setBusy(false)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setToken(result.data.token)
+    setCode("")
+  }
+
+  async function confirmCode(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setBusy(true)
+    setError("")
+    const result = await postJson<{ reservation: Booked }>(
+      `/api/booking/${encodeURIComponent(slug)}/confirm`,
+      { token, code }
+    )
+    setBusy(false)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setBooked(result.data.reservation)
+  }
+
+  if (booked) {
+    return (
+      <div className="space-y-3 text-center">
+        <h1 className="text-2xl font-semibold text-[#1f3d2b]">Tot dan!</h1>
+        <p className="text-sm text-gray-600">
+          Je reservatie bij {restaurantName} voor {booked.partySize} personen op{" "}
+          {formatDateKey(booked.date, localeSettings.locale)} om{" "}
+          {formatTimeKey(booked.time, localeSettings.locale)} is bevestigd.
+        </p>
+      </div>
+    )
+  }
+
+  if (token) {
+    return (
+      <CodeForm
+        title="Bevestig je reservatie"
+        channel={channel}
+        phone={phone}
+        code={code}
+        error={error}
+        busy={busy}
+        onCodeChange={setCode}
+        onSubmit={confirmCode}
+        onBack={() => {
+          setToken("")
+          setError("")
+        }}
+      />
+    )
+  }
+
+  return (
+    <form onSubmit={requestCode} className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-semibold text-[#1f3d2b]">Reserveer bij {restaurantName}</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Kies een moment. Je bevestigt met een code die we je via WhatsApp of SMS sturen.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-[#1f3d2b]">Datum</span>
+          <input
+            type="date"
+            value={date}
+            min={today}
+            max={shiftDateKey(today, BOOKING_DAYS_AHEAD)}
+            onChange={e => {
+              if (e.target.value) setDate(e.target.value)
+            }}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-[#1f3d2b]">Personen</span>
+          <select
+            value={partySize}
+            onChange={e => setPartySize(Number(e.target.value))}
+            className={INPUT_CLASS}
+          >
+            {Array.from({ length: MAX_ONLINE_PARTY_SIZE }, (_, index) => index + 1).map(size => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-[#1f3d2b]">Uur</span>
+        {slots === null ? (
+          <p className="text-sm text-gray-400">Beschikbaarheid laden...</p>
+        ) : openSlots.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Geen plaats meer voor {partySize} personen op deze dag. Kies een andere dag.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {openSlots.map(slot => (
+              <button
+                key={slot.time}
+                type="button"
+                onClick={() => setTime(slot.time)}
+                title={slot.period}
+                className={`rounded-lg px-3 py-1.5 text-sm transition ${
+                  slot.time === selectedTime
+                    ? "bg-[#1f3d2b] text-white"
+                    : "border border-gray-300 text-[#1f3d2b] hover:bg-[#f9f6f0]"
+                }`}
+              >
+                {formatTimeKey(slot.time, localeSettings.locale)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-[#1f3d2b]">Naam</span>
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          autoComplete="name"
+          className={INPUT_CLASS}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-[#1f3d2b]">Telefoon</span>
+        <input
+          type="tel"
+          value={phone}
+          onChange={e => setPhone(e.target.value)}
+          autoComplete="tel"
+          className={INPUT_CLASS}
+          placeholder="+32470123456"
+        />
+      </label>
+
+      <ChannelPicker value={channel} onChange={setChannel} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={busy}
+        className="w-full bg-[#1f3d2b] text-white rounded-lg px-4 py-2.5 hover:opacity-90 transition disabled:opacity-60"
+      >
+        Code versturen
+      </button>
+    </form>
+  )
+}
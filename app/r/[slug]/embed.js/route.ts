@@ -0,0 +1,39 @@
+import { getBaseUrl } from "@/lib/server/billing"
+import { resolveBookingRestaurant } from "@/lib/server/booking"
+import { bookingPath } from "@/lib/shared/booking"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// <script src=".../r/[slug]/embed.js" async></script> puts the booking page
+// in an iframe right where the tag stands.
+export async function GET(_request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const resolved = await resolveBookingRestaurant(slug)
+  if (!resolved.ok) {
+    return new Response(`console.error(${JSON.stringify(`TableBack: ${resolved.error}`)})`, {
+      status: resolved.status,
+      headers: { "Content-Type": "text/javascript; charset=utf-8" }
+    })
+  }
+
+  const src = `${getBaseUrl()}${bookingPath(slug)}?embed=1`
+  const script = `(function () {
+  var script = document.currentScript
+  if (!script || !script.parentNode) return
+  var frame = document.createElement("iframe")
+  frame.src = ${JSON.stringify(src)}
+  frame.title = ${JSON.stringify(`Reserveer bij ${resolved.restaurant.name}`)}
+  frame.loading = "lazy"
+  frame.style.cssText = "width:100%;max-width:520px;height:760px;border:0"
+  script.parentNode.insertBefore(frame, script)
+})()
+`
+  return new Response(script, {
+    headers: {
+      "Content-Type": "text/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=300"
+    }
+  })
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { FormEvent } from "react"
+import { BOOKING_CHANNEL_LABELS, type BookingChannel } from "@/lib/shared/booking"
+
+// Shared by the public booking and waitlist forms.
+
+export const INPUT_CLASS =
+  "w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#d87a3b]"
+
+export async function postJson<T>(
+  url: string,
+  body: unknown
+): Promise<{ ok: true; data: T } | { ok: false; error: string }> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    })
+    const payload = (await response.json()) as { ok?: boolean; error?: string } & T
+    if (!response.ok || !payload.ok) {
+      return { ok: false, error: payload.error ?? "Er ging iets mis. Probeer opnieuw." }
+    }
+    return { ok: true, data: payload }
+  } catch {
+    return { ok: false, error: "Netwerkfout. Probeer opnieuw." }
+  }
+}
+
+export function ChannelPicker({
+  value,
+  onChange
+}: {
+  value: BookingChannel
+  onChange: (channel: BookingChannel) => void
+}) {
+  return (
+    <fieldset className="space-y-1">
+      <legend className="text-sm font-medium text-[#1f3d2b]">Code ontvangen via</legend>
+      <div className="flex gap-4">
+        {(Object.keys(BOOKING_CHANNEL_LABELS) as BookingChannel[]).map(option => (
+          <label key={option} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="channel"
+              checked={value === option}
+              onChange={() => onChange(option)}
+            />
+            {BOOKING_CHANNEL_LABELS[option]}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
+export function CodeForm({
+  title,
+  channel,
+  phone,
+  code,
+  error,
+  busy,
+  onCodeChange,
+  onSubmit,
+  onBack
+}: {
+  title: string
+  channel: BookingChannel
+  phone: string
+  code: string
+  error: string
+  busy: boolean
+  onCodeChange: (code: string) => void
+  onSubmit: (event: FormEvent<HTMLFormElement>) => void
+  onBack: () => void
+}) {
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold text-[#1f3d2b]">{title}</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          We stuurden een code van 6 cijfers via {BOOKING_CHANNEL_LABELS[channel]} naar {phone}.
+        </p>
+      </div>
+      <input
+        value={code}
+        onChange={e => onCodeChange(e.target.value.replace(/\D/g, "").slice(0, 6))}
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        className={`${INPUT_CLASS} text-center text-lg tracking-[0.4em]`}
+        placeholder="000000"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={busy || code.length !== 6}
+        className="w-full bg-[#1f3d2b] text-white rounded-lg px-4 py-2.5 hover:opacity-90 transition disabled:opacity-60"
+      >
+        Bevestigen
+      </button>
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-full text-sm text-gray-500 hover:underline"
+      >
+        Gegevens wijzigen of nieuwe code
+      </button>
+    </form>
+  )
+}
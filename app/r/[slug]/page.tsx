@@ -0,0 +1,43 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { resolveBookingRestaurant } from "@/lib/server/booking"
+import BookingForm from "./booking-form"
+
+type PageProps = {
+  params: Promise<{ slug: string }>
+  searchParams?: Promise<{ embed?: string }>
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const resolved = await resolveBookingRestaurant((await params).slug)
+  return { title: resolved.ok ? `Reserveer bij ${resolved.restaurant.name}` : "TableBack" }
+}
+
+// ?embed=1 drops the page frame for the iframe on the restaurant's own site.
+export default async function BookingPage({ params, searchParams }: PageProps) {
+  const { slug } = await params
+  const resolved = await resolveBookingRestaurant(slug)
+  if (!resolved.ok) {
+    if (resolved.status === 404) notFound()
+    throw new Error(resolved.error)
+  }
+
+  const { restaurant } = resolved
+  const embedded = ((await searchParams) ?? {}).embed === "1"
+  const form = (
+    <BookingForm
+      slug={slug}
+      restaurantName={restaurant.name}
+      localeSettings={restaurant.localeSettings}
+    />
+  )
+  if (embedded) return <main className="bg-white p-4">{form}</main>
+
+  return (
+    <main className="min-h-screen bg-[#f3efe7] px-4 py-10 sm:px-6">
+      <section className="mx-auto w-full max-w-xl rounded-3xl bg-white p-8 shadow-xl sm:p-10">
+        {form}
+      </section>
+    </main>
+  )
+}
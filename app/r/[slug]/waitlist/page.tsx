@@ -0,0 +1,31 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { resolvePublicRestaurant } from "@/lib/server/booking"
+import WaitlistForm from "./waitlist-form"
+
+type PageProps = {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const resolved = await resolvePublicRestaurant((await params).slug)
+  return { title: resolved.ok ? `Wachtlijst van ${resolved.restaurant.name}` : "TableBack" }
+}
+
+// Opened from the QR code at the door.
+export default async function WaitlistJoinPage({ params }: PageProps) {
+  const { slug } = await params
+  const resolved = await resolvePublicRestaurant(slug)
+  if (!resolved.ok) {
+    if (resolved.status === 404) notFound()
+    throw new Error(resolved.error)
+  }
+
+  return (
+    <main className="min-h-screen bg-[#f3efe7] px-4 py-10 sm:px-6">
+      <section className="mx-auto w-full max-w-xl rounded-3xl bg-white p-8 shadow-xl sm:p-10">
+        <WaitlistForm slug={slug} restaurantName={resolved.restaurant.name} />
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+import { notFound } from "next/navigation"
+import { resolvePublicRestaurant } from "@/lib/server/booking"
+import { waitlistJoinPath } from "@/lib/shared/booking"
+import PrintButton from "./print-button"
+
+type PageProps = {
+  params: Promise<{ slug: string }>
+}
+
+export const metadata: Metadata = { title: "Wachtlijst-affiche" }
+
+// A page to print and hang at the door.
+export default async function WaitlistPosterPage({ params }: PageProps) {
+  const { slug } = await params
+  const resolved = await resolvePublicRestaurant(slug)
+  if (!resolved.ok) {
+    if (resolved.status === 404) notFound()
+    throw new Error(resolved.error)
+  }
+
+  return (
+    <main className="min-h-screen bg-white px-6 py-12 print:p-0">
+      <section className="mx-auto flex max-w-lg flex-col items-center gap-6 text-center">
+        <h1 className="text-4xl font-semibold text-[#1f3d2b]">{resolved.restaurant.name}</h1>
+        <p className="text-2xl text-[#1f3d2b]">Geen tafel vrij? Zet je op de wachtlijst.</p>
+        <Image
+          src={`${waitlistJoinPath(slug)}/qr.svg`}
+          alt="QR-code naar de wachtlijst"
+          width={320}
+          height={320}
+          unoptimized
+        />
+        <p className="text-lg text-gray-600">
+          Scan de code, laat je naam en nummer achter en we sturen je een bericht zodra er een
+          tafel vrij is.
+        </p>
+        <PrintButton />
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,13 @@
+"use client"
+
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-lg bg-[#1f3d2b] px-4 py-2 text-sm font-medium text-white hover:opacity-90 print:hidden"
+    >
+      Afdrukken
+    </button>
+  )
+}
@@ -0,0 +1,32 @@
+import QRCode from "qrcode"
+import { getBaseUrl } from "@/lib/server/billing"
+import { resolvePublicRestaurant } from "@/lib/server/booking"
+import { waitlistJoinPath } from "@/lib/shared/booking"
+
+type RouteContext = {
+  params: Promise<{ slug: string }>
+}
+
+// The code to print for the door; it points at the waitlist page.
+export async function GET(request: Request, context: RouteContext) {
+  const { slug } = await context.params
+  const resolved = await resolvePublicRestaurant(slug)
+  if (!resolved.ok) return new Response(resolved.error, { status: resolved.status })
+
+  const svg = await QRCode.toString(`${getBaseUrl()}${waitlistJoinPath(slug)}`, {
+    type: "svg",
+    errorCorrectionLevel: "M",
+    margin: 2,
+    color: { dark: "#1f3d2b", light: "#ffffff" }
+  })
+  const download = new URL(request.url).searchParams.get("download") === "1"
+  return new Response(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=300",
+      ...(download
+        ? { "Content-Disposition": `attachment; filename="wachtlijst-${slug}.svg"` }
+        : {})
+    }
+  })
+}
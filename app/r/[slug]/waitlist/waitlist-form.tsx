@@ -0,0 +1,160 @@
+"use client"
+
+import { FormEvent, useState } from "react"
+import { MAX_ONLINE_PARTY_SIZE, type BookingChannel } from "@/lib/shared/booking"
+import { ChannelPicker, CodeForm, INPUT_CLASS, postJson } from "../guest-code"
+
+type Joined = {
+  name: string
+  partySize: number
+  position: number
+}
+
+export default function WaitlistForm({
+  slug,
+  restaurantName
+}: {
+  slug: string
+  restaurantName: string
+}) {
+  const [name, setName] = useState("")
+  const [phone, setPhone] = useState("")
+  const [partySize, setPartySize] = useState(2)
+  const [channel, setChannel] = useState<BookingChannel>("sms")
+  const [token, setToken] = useState("")
+  const [code, setCode] = useState("")
+  const [joined, setJoined] = useState<Joined | null>(null)
+  const [error, setError] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  async function requestCode(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    if (!name.trim() || !phone.trim()) {
+      setError("Naam en telefoon zijn verplicht.")
+      return
+    }
+
+    setBusy(true)
+    setError("")
+    const result = await postJson<{ token: string }>(
+      `/api/booking/${encodeURIComponent(slug)}/waitlist/code`,
+      { name, phone, partySize, channel }
+    )
+    setBusy(false)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setToken(result.data.token)
+    setCode("")
+  }
+
+  async function confirmCode(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setBusy(true)
+    setError("")
+    const result = await postJson<{ entry: Omit<Joined, "position">; position: number }>(
+      `/api/booking/${encodeURIComponent(slug)}/waitlist/confirm`,
+      { token, code }
+    )
+    setBusy(false)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setJoined({ ...result.data.entry, position: result.data.position })
+  }
+
+  if (joined) {
+    return (
+      <div className="space-y-3 text-center">
+        <p className="text-sm text-gray-500">Je plaats op de wachtlijst</p>
+        <p className="text-5xl font-semibold text-[#1f3d2b]">{joined.position}</p>
+        <p className="text-sm text-gray-600">
+          {joined.name}, je staat op de wachtlijst van {restaurantName} voor {joined.partySize}{" "}
+          {joined.partySize === 1 ? "persoon" : "personen"}. We sturen je een bericht zodra er
+          een tafel vrij is.
+        </p>
+      </div>
+    )
+  }
+
+  if (token) {
+    return (
+      <CodeForm
+        title="Bevestig je nummer"
+        channel={channel}
+        phone={phone}
+        code={code}
+        error={error}
+        busy={busy}
+        onCodeChange={setCode}
+        onSubmit={confirmCode}
+        onBack={() => {
+          setToken("")
+          setError("")
+        }}
+      />
+    )
+  }
+
+  return (
+    <form onSubmit={requestCode} className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-semibold text-[#1f3d2b]">Wachtlijst van {restaurantName}</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Laat je gegevens achter. We sturen je een bericht zodra er een tafel vrij is.
+        </p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-[#1f3d2b]">Naam</span>
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          autoComplete="name"
+          className={INPUT_CLASS}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-[#1f3d2b]">Telefoon</span>
+        <input
+          type="tel"
+          value={phone}
+          onChange={e => setPhone(e.target.value)}
+          autoComplete="tel"
+          className={INPUT_CLASS}
+          placeholder="+32470123456"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-[#1f3d2b]">Personen</span>
+        <select
+          value={partySize}
+          onChange={e => setPartySize(Number(e.target.value))}
+          className={INPUT_CLASS}
+        >
+          {Array.from({ length: MAX_ONLINE_PARTY_SIZE }, (_, index) => index + 1).map(size => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <ChannelPicker value={channel} onChange={setChannel} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={busy}
+        className="w-full bg-[#1f3d2b] text-white rounded-lg px-4 py-2.5 hover:opacity-90 transition disabled:opacity-60"
+      >
+        Code versturen
+      </button>
+    </form>
+  )
+}
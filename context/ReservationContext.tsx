@@ -14,21 +14,60 @@ import {
   Reservation
 } from "@/data/reservations"
 
+import type { MessageDelivery } from "@/data/messages"
+import type { OfferAttempt } from "@/data/offers"
+import type { RestaurantTable } from "@/data/tables"
 import type { WaitlistEntry } from "@/data/waitlist"
-import { normalizePhone } from "@/lib/phone"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+import {
+  messageFromRow,
+  reservationFromRow,
+  settingsFromRow,
+  tableFromRow,
+  waitlistFromRow,
+  type MessageLogRow,
+  type ReservationRow,
+  type RestaurantTableRow,
+  type SettingsRow,
+  type WaitlistRow
+} from "@/lib/shared/rows"
 import {
   DEFAULT_AUTOMATION_SETTINGS,
+  DEFAULT_LOCALE_SETTINGS,
   DEFAULT_REMINDER_SETTINGS,
+  supportsReplyAutomation,
   type AutomationSettings,
   type ContactChannel,
+  type LocaleSettings,
   type ReminderSettings
 } from "@/lib/shared/settings"
+import { resolveGuestLanguage, type GuestLanguage } from "@/lib/shared/languages"
+import { pickTableForParty } from "@/lib/shared/matching"
+import {
+  RESERVATION_STATUS_LABELS,
+  canSetManually,
+  isOpenTable,
+  type ReservationStatus
+} from "@/lib/shared/reservationStatus"
+import {
+  DEFAULT_SERVICE_HOURS,
+  checkServiceCapacity,
+  type ServiceHours
+} from "@/lib/shared/serviceHours"
+import { describeTables, seatsForReservation } from "@/lib/shared/tables"
+import { DEFAULT_MESSAGE_TEMPLATES, type MessageTemplates } from "@/lib/shared/templates"
+import { getDateKeyInZone } from "@/lib/shared/time"
 
 type PersistedAppState = {
   reservations: Reservation[]
   waitlist: WaitlistEntry[]
+  tables: RestaurantTable[]
   reminderSettings: ReminderSettings
   automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
 }
 
 const PREFERRED_CHANNEL_STORAGE_KEY = "tableback.preferredChannel"
@@ -64,88 +103,6 @@ function normalizeWaitlistEntry(
   }
 }
 
-function getBrusselsNowParts(referenceTimestamp: number): {
-  year: number
-  month: number
-  day: number
-  hour: number
-  minute: number
-  second: number
-} {
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    timeZone: "Europe/Brussels",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-    hourCycle: "h23"
-  })
-
-  const parts = formatter.formatToParts(referenceTimestamp)
-  const value = (type: Intl.DateTimeFormatPartTypes) =>
-    Number(parts.find(part => part.type === type)?.value ?? "0")
-
-  return {
-    year: value("year"),
-    month: value("month"),
-    day: value("day"),
-    hour: value("hour"),
-    minute: value("minute"),
-    second: value("second")
-  }
-}
-
-function getNowInBrusselsTimestamp(referenceTimestamp: number): number {
-  const parts = getBrusselsNowParts(referenceTimestamp)
-  return Date.UTC(
-    parts.year,
-    parts.month - 1,
-    parts.day,
-    parts.hour,
-    parts.minute,
-    parts.second
-  )
-}
-
-function getReservationTimestampInBrussels(
-  time: string,
-  referenceTimestamp: number
-): number | null {
-  const [hoursPart, minutesPart] = time.split(":")
-  const hours = Number(hoursPart)
-  const minutes = Number(minutesPart)
-
-  if (
-    !Number.isInteger(hours) ||
-    !Number.isInteger(minutes) ||
-    hours < 0 ||
-    hours > 23 ||
-    minutes < 0 ||
-    minutes > 59
-  ) {
-    return null
-  }
-
-  const nowInBrussels = getBrusselsNowParts(referenceTimestamp)
-  return Date.UTC(
-    nowInBrussels.year,
-    nowInBrussels.month - 1,
-    nowInBrussels.day,
-    hours,
-    minutes,
-    0
-  )
-}
-
-function formatBrusselsDate(referenceTimestamp: number): string {
-  const parts = getBrusselsNowParts(referenceTimestamp)
-  const day = String(parts.day).padStart(2, "0")
-  const month = String(parts.month).padStart(2, "0")
-  return `${day}/${month}/${parts.year}`
-}
-
 function formatChannelLabel(channel: ContactChannel): string {
   if (channel === "whatsapp") return "WhatsApp"
   if (channel === "sms") return "SMS"
@@ -153,144 +110,242 @@ function formatChannelLabel(channel: ContactChannel): string {
   return "E-mail"
 }
 
-function isWhatsAppChannel(channel: ContactChannel): boolean {
-  return channel === "whatsapp" || channel === "both"
-}
+type ApiFailure = { ok: false; error: string; status: number; current?: unknown }
+
+type ApiResult<T> = { ok: true; data: T } | ApiFailure
 
-function isSmsChannel(channel: ContactChannel): boolean {
-  return channel === "sms" || channel === "both"
+// The payload of realtime.broadcast_changes: old_record is null on INSERT,
+// record on DELETE.
+type RealtimeChange = {
+  table: string
+  operation: "INSERT" | "UPDATE" | "DELETE"
+  record: ({ id?: string } & Record<string, unknown>) | null
+  old_record: ({ id?: string } & Record<string, unknown>) | null
 }
 
-async function sendWhatsAppMessage(
-  to: string,
-  message: string,
-  conversationType: "reservation_confirmation" | "waitlist_offer",
-  offerExpiresAt?: number,
-  templateKey?:
-    | "reminder_first"
-    | "reminder_final"
-    | "confirmation"
-    | "cancellation"
-    | "waitlist_offer",
-  templateVariables?: Record<string, string | number | boolean>
-): Promise<void> {
-  const response = await fetch("/api/whatsapp/send", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      to,
-      message,
-      conversationType,
-      offerExpiresAt,
-      templateKey,
-      templateVariables
+async function requestApi<T>(
+  input: string,
+  init?: { method: string; body?: unknown }
+): Promise<ApiResult<T>> {
+  try {
+    const response = await fetch(input, {
+      method: init?.method ?? "GET",
+      headers:
+        init?.body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+      cache: "no-store"
     })
-  })
-
-  if (!response.ok) {
-    const payload = (await response.json()) as { error?: string }
-    throw new Error(payload.error ?? "WhatsApp verzending mislukt.")
+    const payload = (await response.json().catch(() => ({}))) as T & {
+      ok?: boolean
+      error?: string
+      current?: unknown
+    }
+    if (!response.ok || !payload.ok) {
+      return {
+        ok: false,
+        error: payload.error ?? "Serverfout, probeer opnieuw.",
+        status: response.status,
+        current: payload.current
+      }
+    }
+    return { ok: true, data: payload }
+  } catch {
+    return { ok: false, error: "Netwerkfout, probeer opnieuw.", status: 0 }
   }
 }
 
-async function sendSmsMessage(
-  to: string,
-  message: string,
-  conversationType: "reservation_confirmation" | "waitlist_offer",
-  offerExpiresAt?: number
-): Promise<void> {
-  const response = await fetch("/api/sms/send", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({ to, message, conversationType, offerExpiresAt })
-  })
-
-  if (!response.ok) {
-    const payload = (await response.json()) as { error?: string }
-    throw new Error(payload.error ?? "SMS verzending mislukt.")
+function normalizeReservation(entry: Reservation, timeZone: string): Reservation {
+  const createdAt =
+    typeof entry.createdAt === "number" ? entry.createdAt : Date.now()
+  return {
+    ...entry,
+    phone: typeof entry.phone === "string" ? entry.phone : "",
+    date: typeof entry.date === "string" ? entry.date : getDateKeyInZone(createdAt, timeZone),
+    createdAt,
+    reminderCount:
+      typeof entry.reminderCount === "number" ? entry.reminderCount : 0,
+    tableIds: Array.isArray(entry.tableIds) ? entry.tableIds : []
   }
 }
 
-type WhatsAppConfirmationPayload = {
-  confirmed?: boolean
-  declined?: boolean
-  updatedAt?: number | null
+const WAITLIST_STATUS_LABELS: Record<NonNullable<WaitlistEntry["status"]>, string> = {
+  waiting: "wachtend",
+  contacted: "gecontacteerd",
+  declined: "overgeslagen"
 }
 
-async function getWhatsAppConfirmation(
-  phone: string
-): Promise<WhatsAppConfirmationPayload | null> {
-  const normalizedPhone = normalizePhone(phone)
-  if (!normalizedPhone) return null
-
-  const response = await fetch(
-    `/api/whatsapp/confirmation?phone=${encodeURIComponent(normalizedPhone)}`,
-    { cache: "no-store" }
-  )
+// Builds the toast shown when the server rejected a write because the row
+// changed since it was loaded (409). Lists what the other writer changed.
+function describeReservationConflict(
+  local: Reservation | undefined,
+  current: Reservation
+): string {
+  const changes: string[] = []
+  if (local) {
+    if (local.status !== current.status) {
+      changes.push(`status is nu ${RESERVATION_STATUS_LABELS[current.status]}`)
+    }
+    if (local.date !== current.date || local.time !== current.time) {
+      changes.push(`moment is nu ${current.date} ${current.time}`)
+    }
+    if (local.partySize !== current.partySize) {
+      changes.push(`${current.partySize} personen`)
+    }
+    if (local.name !== current.name) changes.push(`naam is nu ${current.name}`)
+    if (local.reminderCount !== current.reminderCount) {
+      changes.push("herinnering verstuurd")
+    }
+  }
+  const detail = changes.length > 0 ? ` (${changes.join(", ")})` : ""
+  return `Reservatie van ${current.name} werd intussen gewijzigd${detail}. Jouw wijziging werd niet opgeslagen.`
+}
 
-  if (!response.ok) return null
-  return (await response.json()) as WhatsAppConfirmationPayload
+function describeWaitlistConflict(
+  local: WaitlistEntry | undefined,
+  current: WaitlistEntry
+): string {
+  const changes: string[] = []
+  if (local) {
+    if (local.status !== current.status && current.status) {
+      changes.push(`status is nu ${WAITLIST_STATUS_LABELS[current.status]}`)
+    }
+    if (local.partySize !== current.partySize) {
+      changes.push(`${current.partySize} personen`)
+    }
+    if (local.name !== current.name) changes.push(`naam is nu ${current.name}`)
+  }
+  const detail = changes.length > 0 ? ` (${changes.join(", ")})` : ""
+  return `${current.name} op de wachtlijst werd intussen gewijzigd${detail}. Jouw wijziging werd niet opgeslagen.`
 }
 
-function normalizeReservation(entry: Reservation): Reservation {
-  return {
-    ...entry,
-    phone: typeof entry.phone === "string" ? entry.phone : "",
-    createdAt:
-      typeof entry.createdAt === "number" ? entry.createdAt : Date.now(),
-    reminderCount:
-      typeof entry.reminderCount === "number" ? entry.reminderCount : 0
+function describeTableConflict(local: RestaurantTable | undefined, current: RestaurantTable): string {
+  const changes: string[] = []
+  if (local) {
+    if (local.name !== current.name) changes.push(`naam is nu ${current.name}`)
+    if (local.minCovers !== current.minCovers || local.maxCovers !== current.maxCovers) {
+      changes.push(`${current.minCovers}-${current.maxCovers} plaatsen`)
+    }
+    if (local.x !== current.x || local.y !== current.y) changes.push("verplaatst")
   }
+  const detail = changes.length > 0 ? ` (${changes.join(", ")})` : ""
+  return `${current.name} werd intussen gewijzigd${detail}. Jouw wijziging werd niet opgeslagen.`
 }
 
-function supportsReplyAutomation(channel: ContactChannel): boolean {
-  return isWhatsAppChannel(channel) || isSmsChannel(channel)
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  return items.some(existing => existing.id === item.id)
+    ? items.map(existing => (existing.id === item.id ? item : existing))
+    : [...items, item]
 }
 
-function buildSmsResponseLinks(phone: string): { yes: string; no: string } | null {
-  if (typeof window === "undefined") return null
-  const normalizedPhone = normalizePhone(phone)
-  if (!normalizedPhone) return null
+// Reminders, no-shows and waitlist offers are handled by the server scheduler;
+// surface what it did since the last reload so hosts still get the familiar
+// toasts.
+function describeAutomationChanges(
+  previous: { reservations: Reservation[]; waitlist: WaitlistEntry[] },
+  next: { reservations: Reservation[]; waitlist: WaitlistEntry[] }
+): string[] {
+  const previousReservations = new Map(
+    previous.reservations.map(reservation => [reservation.id, reservation])
+  )
+  const previousWaitlist = new Map(previous.waitlist.map(entry => [entry.id, entry]))
+  const messages: string[] = []
+
+  for (const reservation of next.reservations) {
+    const before = previousReservations.get(reservation.id)
+    if (!before) continue
+
+    if (before.status === "booked" && reservation.status === "confirmed") {
+      messages.push(`${reservation.name} bevestigde via bericht`)
+    } else if (before.status === "booked" && reservation.status === "cancelled") {
+      messages.push(`${reservation.name} annuleerde via bericht`)
+    } else if (before.status === "booked" && reservation.status === "no_show") {
+      messages.push(`${reservation.name} gemarkeerd als no-show`)
+    } else if (before.status === "offered" && reservation.status === "refilled") {
+      messages.push(`${reservation.name} bevestigde de tafel`)
+    } else if (
+      (before.status === "cancelled" || before.status === "no_show") &&
+      reservation.status === "unfilled"
+    ) {
+      messages.push(
+        `Geen match gevonden voor tafel van ${reservation.partySize} personen`
+      )
+    } else if (reservation.reminderCount > before.reminderCount) {
+      messages.push(
+        reservation.reminderCount >= 2
+          ? `Laatste herinnering verstuurd naar ${reservation.name}`
+          : `Eerste herinnering verstuurd naar ${reservation.name}`
+      )
+    }
+  }
 
-  const origin = window.location.origin
-  const base = `${origin}/api/sms/respond?phone=${encodeURIComponent(normalizedPhone)}`
-  return {
-    yes: `${base}&action=yes`,
-    no: `${base}&action=no`
+  for (const entry of next.waitlist) {
+    const before = previousWaitlist.get(entry.id)
+    if (!before || before.status === entry.status) continue
+
+    if (entry.status === "contacted") {
+      messages.push(`Aanbod verstuurd naar ${entry.name}`)
+    } else if (before.status === "contacted" && entry.status === "declined") {
+      messages.push(`${entry.name} sloeg de tafel over of antwoordde niet op tijd`)
+    }
   }
+
+  return messages
 }
 
 type NewWaitlistEntry = {
   name: string
   phone: string
+  email?: string
+  language?: GuestLanguage
   partySize: number
 }
 
 type NewReservationEntry = {
   name: string
   phone: string
+  email?: string
+  language?: GuestLanguage
   partySize: number
+  date: string
   time: string
 }
 
+export type TableDraft = Omit<RestaurantTable, "id" | "version">
+
+export type SettingsSnapshot = {
+  reminderSettings: ReminderSettings
+  automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
+}
+
 type ReservationContextType = {
   reservations: Reservation[]
   waitlist: WaitlistEntry[]
+  tables: RestaurantTable[]
+  messages: MessageDelivery[]
+  offers: OfferAttempt[]
   reminderSettings: ReminderSettings
   automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
   toast: { message: string; id: number } | null
+  selectedDate: string
+  setSelectedDate: (date: string) => void
   addReservation: (entry: NewReservationEntry) => void
   removeReservation: (id: string) => void
+  updateReservationStatus: (id: string, status: ReservationStatus) => void
+  assignReservationTables: (id: string, tableIds: string[]) => void
   clearReservations: () => void
-  updateReminderSettings: (next: ReminderSettings) => void
-  updateAutomationSettings: (next: AutomationSettings) => void
+  updateSettings: (next: SettingsSnapshot) => Promise<boolean>
   addWaitlistEntry: (entry: NewWaitlistEntry) => void
   removeWaitlistEntry: (id: string) => void
   markWaitlistContacted: (id: string) => void
+  addTable: (draft: TableDraft) => Promise<boolean>
+  updateTable: (id: string, changes: Partial<TableDraft>) => Promise<boolean>
+  removeTable: (id: string) => void
 }
 
 const ReservationContext = createContext<ReservationContextType | undefined>(
@@ -304,10 +359,11 @@ export function ReservationProvider({
 }) {
   const [reservations, setReservations] = useState<Reservation[]>([])
   const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([])
+  const [tables, setTables] = useState<RestaurantTable[]>([])
+  const [messages, setMessages] = useState<MessageDelivery[]>([])
+  const [offers, setOffers] = useState<OfferAttempt[]>([])
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const [currentRestaurantId, setCurrentRestaurantId] = useState<string | null>(null)
-  const [currentRestaurantName, setCurrentRestaurantName] = useState<string>("Restaurant")
-  const [isAuthResolved, setIsAuthResolved] = useState(false)
 
   const [toast, setToast] =
     useState<{ message: string; id: number } | null>(null)
@@ -315,38 +371,21 @@ export function ReservationProvider({
     useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS)
   const [automationSettings, setAutomationSettings] =
     useState<AutomationSettings>(DEFAULT_AUTOMATION_SETTINGS)
-  const [isHydratedFromServer, setIsHydratedFromServer] = useState(false)
-
-  const inFlightReservationIds = useRef<Set<string>>(new Set())
-  const fillTimeouts = useRef<Map<string, ReturnType<typeof setTimeout>>>(
-    new Map()
+  const [localeSettings, setLocaleSettings] =
+    useState<LocaleSettings>(DEFAULT_LOCALE_SETTINGS)
+  const [messageTemplates, setMessageTemplates] =
+    useState<MessageTemplates>(DEFAULT_MESSAGE_TEMPLATES)
+  const [serviceHours, setServiceHours] =
+    useState<ServiceHours>(DEFAULT_SERVICE_HOURS)
+  const [selectedDate, setSelectedDate] = useState(() =>
+    getDateKeyInZone(Date.now(), DEFAULT_LOCALE_SETTINGS.timeZone)
   )
-  const pendingWaitlistMatches = useRef<Map<string, string>>(new Map())
-  const pendingFallbackStatuses = useRef<Map<string, Reservation["status"]>>(
-    new Map()
-  )
-  const reservationsRef = useRef<Reservation[]>(reservations)
-  const sentReminderEvents = useRef<Set<string>>(new Set())
-  const syncTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const lastSyncedSignature = useRef<string>("")
-
-  function buildSnapshotSignature(snapshot: {
-    reservations: Reservation[]
-    waitlist: WaitlistEntry[]
-    reminderSettings: ReminderSettings
-    automationSettings: AutomationSettings
-  }): string {
-    return JSON.stringify(snapshot)
-  }
 
-  useEffect(() => {
-    const storedPreferredChannel = getStoredPreferredChannel()
-    if (!storedPreferredChannel) return
-    setAutomationSettings(prev => ({
-      ...prev,
-      preferredChannel: storedPreferredChannel
-    }))
-  }, [])
+  const [isRealtimeConnected, setIsRealtimeConnected] = useState(false)
+
+  const reservationsRef = useRef<Reservation[]>(reservations)
+  const waitlistRef = useRef<WaitlistEntry[]>(waitlist)
+  const timeZoneRef = useRef(localeSettings.timeZone)
 
   useEffect(() => {
     let active = true
@@ -359,32 +398,22 @@ export function ReservationProvider({
         if (!response.ok) {
           setCurrentUserId(null)
           setCurrentRestaurantId(null)
-          setCurrentRestaurantName("Restaurant")
-          setIsAuthResolved(true)
           return
         }
 
         const payload = (await response.json()) as {
           ok?: boolean
           user?: { id?: string }
-          restaurant?: { id?: string; name?: string } | null
+          restaurant?: { id?: string } | null
         }
         setCurrentUserId(payload.ok && payload.user?.id ? payload.user.id : null)
         setCurrentRestaurantId(
           payload.ok && payload.restaurant?.id ? payload.restaurant.id : null
         )
-        setCurrentRestaurantName(
-          payload.ok && payload.restaurant?.name?.trim()
-            ? payload.restaurant.name.trim()
-            : "Restaurant"
-        )
       } catch {
         if (!active) return
         setCurrentUserId(null)
         setCurrentRestaurantId(null)
-        setCurrentRestaurantName("Restaurant")
-      } finally {
-        if (active) setIsAuthResolved(true)
       }
     })()
 
@@ -412,8 +441,12 @@ export function ReservationProvider({
     }
     if (!payload.ok || !payload.state) return
 
+    const nextLocaleSettings =
+      payload.state.localeSettings ?? DEFAULT_LOCALE_SETTINGS
     const nextReservations = Array.isArray(payload.state.reservations)
-      ? payload.state.reservations.map(normalizeReservation)
+      ? payload.state.reservations.map(entry =>
+          normalizeReservation(entry, nextLocaleSettings.timeZone)
+        )
       : []
     const nextWaitlist = Array.isArray(payload.state.waitlist)
       ? payload.state.waitlist.map(entry =>
@@ -426,50 +459,131 @@ export function ReservationProvider({
       payload.state.automationSettings ?? DEFAULT_AUTOMATION_SETTINGS
     const storedPreferredChannel = getStoredPreferredChannel()
 
+    const automationMessages = describeAutomationChanges(
+      { reservations: reservationsRef.current, waitlist: waitlistRef.current },
+      { reservations: nextReservations, waitlist: nextWaitlist }
+    )
+
     setReservations(nextReservations)
     setWaitlist(nextWaitlist)
+    setTables(Array.isArray(payload.state.tables) ? payload.state.tables : [])
     setReminderSettings(nextReminderSettings)
+    setLocaleSettings(nextLocaleSettings)
+    setMessageTemplates(payload.state.messageTemplates ?? DEFAULT_MESSAGE_TEMPLATES)
+    setServiceHours(payload.state.serviceHours ?? DEFAULT_SERVICE_HOURS)
     setAutomationSettings({
       ...nextAutomationSettings,
       preferredChannel:
         storedPreferredChannel ?? nextAutomationSettings.preferredChannel
     })
-    lastSyncedSignature.current = buildSnapshotSignature({
-      reservations: nextReservations,
-      waitlist: nextWaitlist,
-      reminderSettings: nextReminderSettings,
-      automationSettings: nextAutomationSettings
-    })
+    for (const message of automationMessages) {
+      setToast({
+        message,
+        id: Date.now()
+      })
+    }
   }, [currentRestaurantId, currentUserId])
 
-  const syncSnapshotToDatabase = useCallback(async (snapshot: {
-    reservations: Reservation[]
-    waitlist: WaitlistEntry[]
-    reminderSettings: ReminderSettings
-    automationSettings: AutomationSettings
-  }): Promise<void> => {
-    if (!currentUserId) return
+  const reloadMessages = useCallback(async (): Promise<void> => {
+    if (!currentUserId || !currentRestaurantId) return
 
-    const response = await fetch("/api/state", {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(snapshot)
+    const result = await requestApi<{ messages: MessageDelivery[] }>(
+      `/api/messages?date=${encodeURIComponent(selectedDate)}`
+    )
+    if (result.ok) setMessages(result.data.messages)
+  }, [currentRestaurantId, currentUserId, selectedDate])
+
+  useEffect(() => {
+    void (async () => {
+      await reloadMessages()
+    })()
+  }, [reloadMessages])
+
+  const reloadOffers = useCallback(async (): Promise<void> => {
+    if (!currentUserId || !currentRestaurantId) return
+
+    const result = await requestApi<{ offers: OfferAttempt[] }>(
+      `/api/offers?date=${encodeURIComponent(selectedDate)}`
+    )
+    if (result.ok) setOffers(result.data.offers)
+  }, [currentRestaurantId, currentUserId, selectedDate])
+
+  // Offers are not on the realtime channel; every new round or answer moves
+  // one of the day's reservations, so that is when the history reloads.
+  const offerActivityKey = reservations
+    .filter(reservation => reservation.date === selectedDate)
+    .map(reservation => `${reservation.id}:${reservation.status}:${reservation.offerAttempts ?? 0}`)
+    .join("|")
+
+  useEffect(() => {
+    void (async () => {
+      await reloadOffers()
+    })()
+  }, [reloadOffers, offerActivityKey])
+
+  const reportSyncError = useCallback((error: string) => {
+    setToast({
+      message: `Sync fout: ${error}`,
+      id: Date.now()
     })
+    void reloadFromDatabase()
+  }, [reloadFromDatabase])
+
+  // Takes the server's copy of a row after a version conflict so the host
+  // sees what changed instead of silently overwriting it.
+  const resolveReservationFailure = useCallback(
+    (local: Reservation | undefined, failure: ApiFailure) => {
+      if (failure.status === 409 && failure.current) {
+        const current = normalizeReservation(
+          failure.current as Reservation,
+          localeSettings.timeZone
+        )
+        setReservations(prev => upsertById(prev, current))
+        setToast({
+          message: describeReservationConflict(local, current),
+          id: Date.now()
+        })
+        return
+      }
+      reportSyncError(failure.error)
+    },
+    [localeSettings.timeZone, reportSyncError]
+  )
 
-    if (!response.ok) {
-      const payload = (await response.json().catch(() => ({}))) as {
-        error?: string
+  const resolveWaitlistFailure = useCallback(
+    (local: WaitlistEntry | undefined, failure: ApiFailure) => {
+      if (failure.status === 409 && failure.current) {
+        const current = normalizeWaitlistEntry(failure.current as WaitlistEntry, Date.now())
+        setWaitlist(prev => upsertById(prev, current))
+        setToast({
+          message: describeWaitlistConflict(local, current),
+          id: Date.now()
+        })
+        return
+      }
+      reportSyncError(failure.error)
+    },
+    [reportSyncError]
+  )
+
+  const resolveTableFailure = useCallback(
+    (local: RestaurantTable | undefined, failure: ApiFailure) => {
+      if (failure.status === 409 && failure.current) {
+        const current = failure.current as RestaurantTable
+        setTables(prev => upsertById(prev, current))
+        setToast({
+          message: describeTableConflict(local, current),
+          id: Date.now()
+        })
+        return
       }
       setToast({
-        message: payload.error
-          ? `Sync fout: ${payload.error}`
-          : "Sync fout: kon serverstate niet opslaan",
+        message: failure.error,
         id: Date.now()
       })
-      return
-    }
-    lastSyncedSignature.current = buildSnapshotSignature(snapshot)
-  }, [currentUserId])
+    },
+    []
+  )
 
   useEffect(() => {
     let active = true
@@ -479,385 +593,115 @@ export function ReservationProvider({
         if (active) {
           setReservations([])
           setWaitlist([])
+          setTables([])
+          setMessages([])
+          setOffers([])
           setReminderSettings(DEFAULT_REMINDER_SETTINGS)
           setAutomationSettings(DEFAULT_AUTOMATION_SETTINGS)
-          setIsHydratedFromServer(isAuthResolved)
+          setLocaleSettings(DEFAULT_LOCALE_SETTINGS)
+          setMessageTemplates(DEFAULT_MESSAGE_TEMPLATES)
+          setServiceHours(DEFAULT_SERVICE_HOURS)
         }
         return
       }
       await reloadFromDatabase()
-      if (active) {
-        setIsHydratedFromServer(true)
-      }
     })()
 
     return () => {
       active = false
     }
-  }, [currentUserId, isAuthResolved, reloadFromDatabase])
+  }, [currentUserId, reloadFromDatabase])
 
   useEffect(() => {
     reservationsRef.current = reservations
   }, [reservations])
 
-  // REMINDER + NO-SHOW AUTOMATISERING
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now()
-      const nowBrusselsTimestamp = getNowInBrusselsTimestamp(now)
-      const currentReservations = reservationsRef.current
-      const updates = new Map<
-        string,
-        {
-          status: Reservation["status"]
-          reminderCount: number
-          lastReminderAt?: number
-        }
-      >()
-
-      const nowDate = formatBrusselsDate(now)
-      const toSend: Array<{
-        name: string
-        phone: string
-        text: string
-        templateKey: "reminder_first" | "reminder_final"
-        templateVariables: Record<string, string | number | boolean>
-      }> = []
-      const toToast: string[] = []
-
-      for (const reservation of currentReservations) {
-        if (reservation.status !== "attention") continue
-
-        const reservationTimestamp = getReservationTimestampInBrussels(
-          reservation.time,
-          now
-        )
-        if (reservationTimestamp === null) continue
-
-        const firstReminderAt =
-          reservationTimestamp -
-          reminderSettings.firstReminderMinutesBefore * 60000
-        const finalReminderAt =
-          reservationTimestamp -
-          reminderSettings.finalReminderMinutesBefore * 60000
-        const noShowAt =
-          reservationTimestamp +
-          automationSettings.noShowThresholdMinutes * 60000
-
-        let reminderCount = reservation.reminderCount
-        let lastReminderAt = reservation.lastReminderAt
-        let status: Reservation["status"] = reservation.status
-        let changed = false
-
-        if (reminderCount < 2 && nowBrusselsTimestamp >= finalReminderAt) {
-          reminderCount = 2
-          lastReminderAt = now
-          changed = true
-
-          const reminderKey = `${reservation.id}:2`
-          if (!sentReminderEvents.current.has(reminderKey)) {
-            sentReminderEvents.current.add(reminderKey)
-            toToast.push(`Laatste herinnering verstuurd naar ${reservation.name}`)
-            if (
-              (isWhatsAppChannel(automationSettings.preferredChannel) ||
-                isSmsChannel(automationSettings.preferredChannel)) &&
-              reservation.phone.trim()
-            ) {
-              toSend.push({
-                name: reservation.name,
-                phone: reservation.phone,
-                text: `Laatste herinnering: bevestig je reservatie om ${reservation.time}. Antwoord met JA om te bevestigen of NEE om te annuleren.`,
-                templateKey: "reminder_final",
-                templateVariables: {
-                  "1": reservation.name,
-                  "2": currentRestaurantName,
-                  "3": nowDate,
-                  "4": reservation.time
-                }
-              })
-            }
-          }
-        } else if (reminderCount < 1 && nowBrusselsTimestamp >= firstReminderAt) {
-          reminderCount = 1
-          lastReminderAt = now
-          changed = true
-
-          const reminderKey = `${reservation.id}:1`
-          if (!sentReminderEvents.current.has(reminderKey)) {
-            sentReminderEvents.current.add(reminderKey)
-            toToast.push(`Eerste herinnering verstuurd naar ${reservation.name}`)
-            if (
-              (isWhatsAppChannel(automationSettings.preferredChannel) ||
-                isSmsChannel(automationSettings.preferredChannel)) &&
-              reservation.phone.trim()
-            ) {
-              toSend.push({
-                name: reservation.name,
-                phone: reservation.phone,
-                text: `Dag ${reservation.name}, bevestig je reservatie om ${reservation.time} voor ${reservation.partySize} personen. Antwoord met JA om te bevestigen of NEE om te annuleren.`,
-                templateKey: "reminder_first",
-                templateVariables: {
-                  "1": reservation.name,
-                  "2": currentRestaurantName,
-                  "3": nowDate,
-                  "4": reservation.time
-                }
-              })
-            }
-          }
-        }
-
-        if (nowBrusselsTimestamp >= noShowAt) {
-          status = "expired"
-          changed = true
-          toToast.push(`${reservation.name} gemarkeerd als no-show`)
-        }
-
-        if (!changed) continue
-
-        updates.set(reservation.id, {
-          status,
-          reminderCount,
-          lastReminderAt
-        })
-      }
-
-      if (updates.size > 0) {
-        setReservations(prev => {
-          let changed = false
-          const next = prev.map(reservation => {
-            const update = updates.get(reservation.id)
-            if (!update) return reservation
-            if (
-              reservation.status === update.status &&
-              reservation.reminderCount === update.reminderCount &&
-              reservation.lastReminderAt === update.lastReminderAt
-            ) {
-              return reservation
-            }
-            changed = true
-            return {
-              ...reservation,
-              status: update.status,
-              reminderCount: update.reminderCount,
-              lastReminderAt: update.lastReminderAt
-            }
-          })
-          return changed ? next : prev
-        })
-      }
-
-      for (const message of toToast) {
-        setToast({
-          message,
-          id: Date.now()
-        })
-      }
-
-      for (const outbound of toSend) {
-        if (isWhatsAppChannel(automationSettings.preferredChannel)) {
-          void sendWhatsAppMessage(
-            outbound.phone,
-            outbound.text,
-            "reservation_confirmation",
-            undefined,
-            outbound.templateKey,
-            outbound.templateVariables
-          ).catch(error => {
-            setToast({
-              message: `WhatsApp fout: ${error.message}`,
-              id: Date.now()
-            })
-          })
-        }
-        if (isSmsChannel(automationSettings.preferredChannel)) {
-          const links = buildSmsResponseLinks(outbound.phone)
-          const smsText = links
-            ? `${outbound.text} Bevestig: ${links.yes} Weiger: ${links.no}`
-            : outbound.text
-          void sendSmsMessage(
-            outbound.phone,
-            smsText,
-            "reservation_confirmation"
-          ).catch(error => {
-            setToast({
-              message: `SMS fout: ${error.message}`,
-              id: Date.now()
-            })
-          })
-        }
-      }
-    }, 5000)
-
-    return () => clearInterval(interval)
-  }, [
-    reminderSettings.firstReminderMinutesBefore,
-    reminderSettings.finalReminderMinutesBefore,
-    automationSettings.noShowThresholdMinutes,
-    automationSettings.preferredChannel,
-    currentRestaurantName
-  ])
-
   useEffect(() => {
-    const interval = setInterval(() => {
-      const attentionReservations = reservationsRef.current.filter(
-        reservation =>
-          reservation.status === "attention" &&
-          reservation.reminderCount > 0 &&
-          reservation.phone.trim().length > 0
-      )
-      if (!supportsReplyAutomation(automationSettings.preferredChannel)) return
-
-      void (async () => {
-        const confirmedIds = new Set<string>()
-        const declinedIds = new Set<string>()
-
-        for (const reservation of attentionReservations) {
-          const payload = await getWhatsAppConfirmation(reservation.phone)
-          const confirmed = Boolean(payload?.confirmed)
-          const declined = Boolean(payload?.declined)
-          const updatedAt = Number(payload?.updatedAt ?? 0)
-          const lastReminderAt = Number(reservation.lastReminderAt ?? 0)
-          const createdAt = Number(reservation.createdAt ?? 0)
-          const minimumAcceptedReplyAt = Math.max(lastReminderAt, createdAt)
-
-          if (!lastReminderAt || updatedAt < minimumAcceptedReplyAt) continue
-          if (declined) declinedIds.add(reservation.id)
-          if (confirmed) confirmedIds.add(reservation.id)
-        }
-
-        if (confirmedIds.size === 0 && declinedIds.size === 0) return
-
-        let confirmedCount = 0
-        let declinedCount = 0
-        setReservations(prev => {
-          const next = prev.map(r => {
-            if (r.status !== "attention") return r
-            if (declinedIds.has(r.id)) {
-              declinedCount += 1
-              return { ...r, status: "expired" as const }
-            }
-            if (confirmedIds.has(r.id)) {
-              confirmedCount += 1
-              return { ...r, status: "confirmed" as const }
-            }
-            return r
-          })
-          return confirmedCount > 0 || declinedCount > 0 ? next : prev
-        })
-
-        if (confirmedCount > 0) {
-          setToast({
-            message:
-              confirmedCount === 1
-                ? "Reservatie bevestigd via WhatsApp"
-                : `${confirmedCount} reservaties bevestigd via WhatsApp`,
-            id: Date.now()
-          })
-        }
-        if (declinedCount > 0) {
-          setToast({
-            message:
-              declinedCount === 1
-                ? "Reservatie geannuleerd via WhatsApp"
-                : `${declinedCount} reservaties geannuleerd via WhatsApp`,
-            id: Date.now()
-          })
-        }
-      })()
-    }, 6000)
-
-    return () => clearInterval(interval)
-  }, [automationSettings.preferredChannel])
+    waitlistRef.current = waitlist
+  }, [waitlist])
 
   useEffect(() => {
-    if (!isHydratedFromServer) return
+    timeZoneRef.current = localeSettings.timeZone
+  }, [localeSettings.timeZone])
 
-    if (syncTimeout.current) {
-      clearTimeout(syncTimeout.current)
+  async function addReservation(entry: NewReservationEntry) {
+    if (!currentUserId) {
+      setToast({
+        message: "Niet ingelogd",
+        id: Date.now()
+      })
+      return
     }
 
-    const snapshot = {
-      reservations,
-      waitlist,
-      reminderSettings,
-      automationSettings
+    // The server checks again against every booking, not only the ones
+    // loaded here.
+    const capacity = checkServiceCapacity(serviceHours, reservations, entry)
+    if (!capacity.ok) {
+      setToast({
+        message: `Reservatie niet opgeslagen: ${capacity.error}`,
+        id: Date.now()
+      })
+      return
     }
-    const snapshotSignature = buildSnapshotSignature(snapshot)
-    if (snapshotSignature === lastSyncedSignature.current) return
 
-    syncTimeout.current = setTimeout(() => {
-      void syncSnapshotToDatabase(snapshot)
-    }, 250)
-
-    return () => {
-      if (syncTimeout.current) {
-        clearTimeout(syncTimeout.current)
-      }
+    const reservation: Reservation = {
+      id: crypto.randomUUID(),
+      name: entry.name,
+      phone: entry.phone,
+      email: entry.email,
+      language: resolveGuestLanguage(entry.language, entry.phone),
+      date: entry.date,
+      time: entry.time,
+      createdAt: Date.now(),
+      partySize: entry.partySize,
+      status: "booked",
+      estimatedRevenue: entry.partySize * 60,
+      reminderCount: 0,
+      lastReminderAt: undefined,
+      filledFromWaitlist: false,
+      originalGuestName: undefined,
+      tableIds: [],
+      version: 1
     }
-  }, [
-    isHydratedFromServer,
-    reservations,
-    waitlist,
-    reminderSettings,
-    automationSettings,
-    syncSnapshotToDatabase
-  ])
-
-  function addReservation(entry: NewReservationEntry) {
-    if (!currentUserId) {
+    setReservations(prev => [...prev, reservation])
+
+    const result = await requestApi<{ reservation: Reservation }>("/api/reservations", {
+      method: "POST",
+      body: {
+        id: reservation.id,
+        name: reservation.name,
+        phone: reservation.phone,
+        email: reservation.email,
+        language: entry.language,
+        date: reservation.date,
+        time: reservation.time,
+        partySize: reservation.partySize,
+        estimatedRevenue: reservation.estimatedRevenue
+      }
+    })
+    if (!result.ok) {
+      setReservations(prev => prev.filter(item => item.id !== reservation.id))
       setToast({
-        message: "Niet ingelogd",
+        message: `Reservatie niet opgeslagen: ${result.error}`,
         id: Date.now()
       })
       return
     }
 
-    const createdAt = Date.now()
-    setReservations(prev => {
-      const nextId = crypto.randomUUID()
-
-      return [
-        ...prev,
-        {
-          id: nextId,
-          name: entry.name,
-          phone: entry.phone,
-          time: entry.time,
-          createdAt,
-          partySize: entry.partySize,
-          status: "attention",
-          estimatedRevenue: entry.partySize * 60,
-          reminderCount: 0,
-          lastReminderAt: undefined,
-          filledFromWaitlist: false,
-          originalGuestName: undefined
-        }
-      ]
-    })
-
+    setReservations(prev =>
+      prev.map(item =>
+        item.id === reservation.id
+          ? normalizeReservation(result.data.reservation, localeSettings.timeZone)
+          : item
+      )
+    )
     setToast({
       message: `Reservatie voor ${entry.name} toegevoegd`,
       id: Date.now()
     })
   }
 
-  function clearReservationAutomationState(ids: string[]) {
-    for (const id of ids) {
-      const timeout = fillTimeouts.current.get(id)
-      if (timeout) {
-        clearTimeout(timeout)
-        fillTimeouts.current.delete(id)
-      }
-      inFlightReservationIds.current.delete(id)
-      pendingWaitlistMatches.current.delete(id)
-      pendingFallbackStatuses.current.delete(id)
-      sentReminderEvents.current.delete(`${id}:1`)
-      sentReminderEvents.current.delete(`${id}:2`)
-    }
-  }
-
-  function removeReservation(id: string) {
+  async function removeReservation(id: string) {
     if (!currentUserId) {
       setToast({
         message: "Niet ingelogd",
@@ -867,18 +711,88 @@ export function ReservationProvider({
     }
 
     const existing = reservations.find(item => item.id === id)
-    clearReservationAutomationState([id])
+    if (!existing) return
     setReservations(prev => prev.filter(item => item.id !== id))
 
-    if (existing) {
+    const result = await requestApi(
+      `/api/reservations/${id}?version=${existing.version}`,
+      { method: "DELETE" }
+    )
+    if (!result.ok && result.status !== 404) {
+      resolveReservationFailure(existing, result)
+      return
+    }
+
+    setToast({
+      message: `Reservatie van ${existing.name} verwijderd`,
+      id: Date.now()
+    })
+  }
+
+  async function updateReservationStatus(id: string, status: ReservationStatus) {
+    const existing = reservations.find(item => item.id === id)
+    if (!existing) return
+    if (!canSetManually(existing.status, status)) {
       setToast({
-        message: `Reservatie van ${existing.name} verwijderd`,
+        message: `Reservatie van ${existing.name} kan niet van ${RESERVATION_STATUS_LABELS[existing.status]} naar ${RESERVATION_STATUS_LABELS[status]}.`,
         id: Date.now()
       })
+      return
+    }
+    setReservations(prev =>
+      prev.map(item => (item.id === id ? { ...item, status } : item))
+    )
+
+    const result = await requestApi<{ reservation: Reservation }>(`/api/reservations/${id}`, {
+      method: "PATCH",
+      body: { status, version: existing.version }
+    })
+    if (!result.ok) {
+      setReservations(prev => upsertById(prev, existing))
+      resolveReservationFailure(existing, result)
+      return
+    }
+    setReservations(prev =>
+      upsertById(prev, normalizeReservation(result.data.reservation, localeSettings.timeZone))
+    )
+  }
+
+  async function assignReservationTables(id: string, tableIds: string[]) {
+    const existing = reservations.find(item => item.id === id)
+    if (!existing) return
+    setReservations(prev =>
+      prev.map(item => (item.id === id ? { ...item, tableIds } : item))
+    )
+
+    const result = await requestApi<{ reservation: Reservation }>(`/api/reservations/${id}`, {
+      method: "PATCH",
+      body: { tableIds, version: existing.version }
+    })
+    if (!result.ok) {
+      setReservations(prev => upsertById(prev, existing))
+      if (result.status === 409) {
+        resolveReservationFailure(existing, result)
+      } else {
+        setToast({
+          message: `Tafel niet toegewezen: ${result.error}`,
+          id: Date.now()
+        })
+      }
+      return
     }
+    setReservations(prev =>
+      upsertById(prev, normalizeReservation(result.data.reservation, localeSettings.timeZone))
+    )
+    setToast({
+      message:
+        tableIds.length > 0
+          ? `${existing.name} zit aan ${describeTables(tableIds, tables)}`
+          : `Tafel van ${existing.name} vrijgemaakt`,
+      id: Date.now()
+    })
   }
 
-  function clearReservations() {
+  async function clearReservations() {
     if (!currentUserId) {
       setToast({
         message: "Niet ingelogd",
@@ -887,24 +801,49 @@ export function ReservationProvider({
       return
     }
     if (reservations.length === 0) return
-    clearReservationAutomationState(reservations.map(item => item.id))
     setReservations([])
+
+    const result = await requestApi("/api/reservations", { method: "DELETE" })
+    if (!result.ok) {
+      reportSyncError(result.error)
+      return
+    }
+
     setToast({
       message: "Alle reservaties verwijderd",
       id: Date.now()
     })
   }
 
-  function updateReminderSettings(next: ReminderSettings) {
-    setReminderSettings(next)
-  }
+  async function updateSettings(next: SettingsSnapshot): Promise<boolean> {
+    const result = await requestApi<{ warning?: string }>("/api/settings", {
+      method: "PUT",
+      body: next
+    })
+    if (!result.ok) {
+      setToast({
+        message: `Instellingen niet opgeslagen: ${result.error}`,
+        id: Date.now()
+      })
+      return false
+    }
 
-  function updateAutomationSettings(next: AutomationSettings) {
-    setAutomationSettings(next)
-    storePreferredChannel(next.preferredChannel)
+    setReminderSettings(next.reminderSettings)
+    setAutomationSettings(next.automationSettings)
+    setLocaleSettings(next.localeSettings)
+    setMessageTemplates(next.messageTemplates)
+    setServiceHours(next.serviceHours)
+    storePreferredChannel(next.automationSettings.preferredChannel)
+    if (result.data.warning) {
+      setToast({
+        message: result.data.warning,
+        id: Date.now()
+      })
+    }
+    return true
   }
 
-  function addWaitlistEntry({ name, phone, partySize }: NewWaitlistEntry) {
+  async function addWaitlistEntry({ name, phone, email, language, partySize }: NewWaitlistEntry) {
     if (!currentUserId) {
       setToast({
         message: "Niet ingelogd",
@@ -912,28 +851,46 @@ export function ReservationProvider({
       })
       return
     }
-    setWaitlist(prev => {
-      const nextId = crypto.randomUUID()
-
-      return [
-        ...prev,
-        {
-          id: nextId,
-          name,
-          phone,
-          partySize,
-          status: "waiting",
-          createdAt: Date.now()
-        }
-      ]
+
+    const entry: WaitlistEntry = {
+      id: crypto.randomUUID(),
+      name,
+      phone,
+      email,
+      language: resolveGuestLanguage(language, phone),
+      partySize,
+      status: "waiting",
+      createdAt: Date.now()
+    }
+    setWaitlist(prev => [...prev, entry])
+
+    const result = await requestApi<{ entry: WaitlistEntry }>("/api/waitlist", {
+      method: "POST",
+      body: { id: entry.id, name, phone, email, language, partySize }
     })
+    if (!result.ok) {
+      setWaitlist(prev => prev.filter(item => item.id !== entry.id))
+      setToast({
+        message: `Wachtende niet opgeslagen: ${result.error}`,
+        id: Date.now()
+      })
+      return
+    }
+
+    setWaitlist(prev =>
+      prev.map(item =>
+        item.id === entry.id
+          ? normalizeWaitlistEntry(result.data.entry, entry.createdAt ?? Date.now())
+          : item
+      )
+    )
     setToast({
       message: `${name} toegevoegd aan de wachtlijst`,
       id: Date.now()
     })
   }
 
-  function removeWaitlistEntry(id: string) {
+  async function removeWaitlistEntry(id: string) {
     if (!currentUserId) {
       setToast({
         message: "Niet ingelogd",
@@ -942,43 +899,51 @@ export function ReservationProvider({
       return
     }
     const removedEntry = waitlist.find(entry => entry.id === id)
+    if (!removedEntry) return
     setWaitlist(prev => prev.filter(entry => entry.id !== id))
 
-    if (removedEntry) {
-      setToast({
-        message: `${removedEntry.name} verwijderd van de wachtlijst`,
-        id: Date.now()
-      })
+    const result = await requestApi(
+      `/api/waitlist/${id}?version=${removedEntry.version ?? 1}`,
+      { method: "DELETE" }
+    )
+    if (!result.ok && result.status !== 404) {
+      resolveWaitlistFailure(removedEntry, result)
+      return
     }
+
+    setToast({
+      message: `${removedEntry.name} verwijderd van de wachtlijst`,
+      id: Date.now()
+    })
   }
 
-  function markWaitlistContacted(id: string) {
+  async function markWaitlistContacted(id: string) {
     const entry = waitlist.find(item => item.id === id)
     if (!entry) return
-    const replyAutomationEnabled = supportsReplyAutomation(
-      automationSettings.preferredChannel
-    )
-    const whatsappEnabled = isWhatsAppChannel(automationSettings.preferredChannel)
-    const smsEnabled = isSmsChannel(automationSettings.preferredChannel)
-
-    const candidateReservation = reservations
-      .filter(
-        reservation =>
-          (reservation.status === "expired" || reservation.status === "unfilled") &&
-          reservation.partySize === entry.partySize &&
-          !inFlightReservationIds.current.has(reservation.id)
-      )
-      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))[0]
 
-    if (!candidateReservation) {
-      setToast({
-        message: `Geen open tafel beschikbaar voor ${entry.partySize} personen`,
-        id: Date.now()
-      })
-      return
-    }
+    if (!supportsReplyAutomation(automationSettings.preferredChannel)) {
+      const today = getDateKeyInZone(Date.now(), localeSettings.timeZone)
+      const hasOpenTable = Boolean(
+        pickTableForParty(
+          entry.partySize,
+          reservations
+            .filter(
+              reservation =>
+                isOpenTable(reservation.status) &&
+                reservation.date === today
+            )
+            .map(reservation => ({ seats: seatsForReservation(reservation, tables) })),
+          automationSettings
+        )
+      )
+      if (!hasOpenTable) {
+        setToast({
+          message: `Geen open tafel beschikbaar voor ${entry.partySize} personen`,
+          id: Date.now()
+        })
+        return
+      }
 
-    if (!replyAutomationEnabled) {
       setWaitlist(prev =>
         prev.map(waitlistEntry =>
           waitlistEntry.id === id
@@ -991,6 +956,17 @@ export function ReservationProvider({
         )
       )
 
+      const result = await requestApi<{ entry: WaitlistEntry }>(`/api/waitlist/${id}`, {
+        method: "PATCH",
+        body: { status: "contacted", version: entry.version ?? 1 }
+      })
+      if (!result.ok) {
+        resolveWaitlistFailure(entry, result)
+        return
+      }
+      const saved = normalizeWaitlistEntry(result.data.entry, Date.now())
+      setWaitlist(prev => upsertById(prev, saved))
+
       setToast({
         message: `${entry.name} gecontacteerd via ${formatChannelLabel(automationSettings.preferredChannel)} (manuele opvolging)`,
         id: Date.now()
@@ -998,411 +974,246 @@ export function ReservationProvider({
       return
     }
 
-    inFlightReservationIds.current.add(candidateReservation.id)
-    pendingWaitlistMatches.current.set(candidateReservation.id, id)
-    pendingFallbackStatuses.current.set(
-      candidateReservation.id,
-      candidateReservation.status
-    )
-
-    setReservations(prev =>
-      prev.map(reservation =>
-        reservation.id === candidateReservation.id
-          ? { ...reservation, status: "processing" }
-          : reservation
-      )
-    )
-
-    const responseTimeoutMs =
-      Math.max(automationSettings.waitlistResponseMinutes, 1) * 60000
-    const offerExpiresAt = Date.now() + responseTimeoutMs
-
-    const timeout = setTimeout(() => {
-      const fallbackStatus =
-        pendingFallbackStatuses.current.get(candidateReservation.id) ?? "expired"
-
-      setReservations(prev =>
-        prev.map(reservation =>
-          reservation.id === candidateReservation.id &&
-          reservation.status === "processing"
-            ? {
-                ...reservation,
-                status: fallbackStatus
-              }
-            : reservation
-        )
-      )
-      setWaitlist(prev =>
-        prev.map(waitlistEntry =>
-          waitlistEntry.id === id
-            ? {
-                ...waitlistEntry,
-                status: "declined"
-              }
-            : waitlistEntry
-        )
-      )
-
+    const result = await requestApi("/api/offers", {
+      method: "POST",
+      body: { waitlistId: id }
+    })
+    if (!result.ok) {
       setToast({
-        message: `${entry.name} antwoordde niet op tijd`,
+        message: result.error,
         id: Date.now()
       })
+      return
+    }
 
-      inFlightReservationIds.current.delete(candidateReservation.id)
-      pendingWaitlistMatches.current.delete(candidateReservation.id)
-      pendingFallbackStatuses.current.delete(candidateReservation.id)
-      fillTimeouts.current.delete(candidateReservation.id)
-    }, responseTimeoutMs)
-
-    fillTimeouts.current.set(candidateReservation.id, timeout)
-
-    setWaitlist(prev =>
-      prev.map(entry =>
-        entry.id === id
-          ? {
-              ...entry,
-              status: "contacted",
-              lastContactedAt: Date.now()
-            }
-          : entry
-      )
-    )
-
+    await reloadFromDatabase()
     setToast({
       message: `${entry.name} gecontacteerd via ${formatChannelLabel(automationSettings.preferredChannel)}`,
       id: Date.now()
     })
-
-    if (whatsappEnabled && entry.phone.trim()) {
-      void sendWhatsAppMessage(
-        entry.phone,
-        `Hallo ${entry.name}, er is mogelijk een tafel beschikbaar voor ${entry.partySize} personen. Antwoord met JA om te bevestigen of NEE om over te slaan.`,
-        "waitlist_offer",
-        offerExpiresAt,
-        "waitlist_offer",
-        {
-          "1": entry.name,
-          "2": currentRestaurantName,
-          "3": formatBrusselsDate(Date.now()),
-          "4": candidateReservation.time
-        }
-      ).catch(error => {
-        const timeoutForManual = fillTimeouts.current.get(candidateReservation.id)
-        if (timeoutForManual) {
-          clearTimeout(timeoutForManual)
-          fillTimeouts.current.delete(candidateReservation.id)
-        }
-        setReservations(prev =>
-          prev.map(reservation =>
-            reservation.id === candidateReservation.id &&
-            reservation.status === "processing"
-              ? { ...reservation, status: candidateReservation.status }
-              : reservation
-          )
-        )
-        setWaitlist(prev =>
-          prev.map(waitlistEntry =>
-            waitlistEntry.id === id
-              ? {
-                  ...waitlistEntry,
-                  status: "waiting"
-                }
-              : waitlistEntry
-          )
-        )
-        inFlightReservationIds.current.delete(candidateReservation.id)
-        pendingWaitlistMatches.current.delete(candidateReservation.id)
-        pendingFallbackStatuses.current.delete(candidateReservation.id)
-        setToast({
-          message: `WhatsApp fout: ${error.message}`,
-          id: Date.now()
-        })
-      })
-    }
-    if (smsEnabled && entry.phone.trim()) {
-      const links = buildSmsResponseLinks(entry.phone)
-      const smsText = links
-        ? `Hallo ${entry.name}, er is mogelijk een tafel beschikbaar voor ${entry.partySize} personen. Bevestig: ${links.yes} Weiger: ${links.no}`
-        : `Hallo ${entry.name}, er is mogelijk een tafel beschikbaar voor ${entry.partySize} personen. Antwoord met JA om te bevestigen of NEE om over te slaan.`
-      void sendSmsMessage(
-        entry.phone,
-        smsText,
-        "waitlist_offer",
-        offerExpiresAt
-      ).catch(error => {
-        setToast({
-          message: `SMS fout: ${error.message}`,
-          id: Date.now()
-        })
-      })
-    }
   }
 
-  // MATCHING ENGINE
-  useEffect(() => {
-    if (!supportsReplyAutomation(automationSettings.preferredChannel)) return
-    const whatsappEnabled = isWhatsAppChannel(automationSettings.preferredChannel)
-    const smsEnabled = isSmsChannel(automationSettings.preferredChannel)
-
-    const expiredReservation = reservations.find(
-      r =>
-        r.status === "expired" &&
-        !inFlightReservationIds.current.has(r.id)
-    )
+  async function addTable(draft: TableDraft): Promise<boolean> {
+    const table: RestaurantTable = { ...draft, id: crypto.randomUUID(), version: 1 }
+    setTables(prev => [...prev, table])
 
-    if (!expiredReservation) return
-
-    const match = waitlist
-      .filter(
-        p =>
-          p.partySize === expiredReservation.partySize &&
-          (p.status ?? "waiting") === "waiting"
-      )
-      .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))[0]
-
-    if (!match) {
-      setReservations(prev =>
-        prev.map(r =>
-          r.id === expiredReservation.id
-            ? { ...r, status: "unfilled" }
-            : r
-        )
-      )
+    const result = await requestApi<{ table: RestaurantTable }>("/api/tables", {
+      method: "POST",
+      body: { ...draft, id: table.id }
+    })
+    if (!result.ok) {
+      setTables(prev => prev.filter(item => item.id !== table.id))
       setToast({
-        message: `Geen match gevonden voor tafel van ${expiredReservation.partySize} personen`,
+        message: `Tafel niet opgeslagen: ${result.error}`,
         id: Date.now()
       })
-      return
+      return false
     }
 
-    inFlightReservationIds.current.add(expiredReservation.id)
+    setTables(prev => upsertById(prev, result.data.table))
+    setToast({
+      message: `${table.name} toegevoegd aan het zaalplan`,
+      id: Date.now()
+    })
+    return true
+  }
+
+  async function updateTable(id: string, changes: Partial<TableDraft>): Promise<boolean> {
+    const existing = tables.find(table => table.id === id)
+    if (!existing) return false
+    setTables(prev => prev.map(table => (table.id === id ? { ...table, ...changes } : table)))
 
-    setReservations(prev =>
-      prev.map(r =>
-        r.id === expiredReservation.id
-          ? { ...r, status: "processing" }
-          : r
-      )
-    )
+    const result = await requestApi<{ table: RestaurantTable }>(`/api/tables/${id}`, {
+      method: "PATCH",
+      body: { ...changes, version: existing.version }
+    })
+    if (!result.ok) {
+      setTables(prev => upsertById(prev, existing))
+      resolveTableFailure(existing, result)
+      return false
+    }
+    setTables(prev => upsertById(prev, result.data.table))
+    return true
+  }
 
-    setWaitlist(prev =>
-      prev.map(p =>
-        p.id === match.id
-          ? {
-              ...p,
-              status: "contacted",
-              lastContactedAt: Date.now()
-            }
-          : p
-      )
-    )
+  async function removeTable(id: string) {
+    const existing = tables.find(table => table.id === id)
+    if (!existing) return
+    setTables(prev => prev.filter(table => table.id !== id))
+
+    const result = await requestApi(`/api/tables/${id}?version=${existing.version}`, {
+      method: "DELETE"
+    })
+    if (!result.ok && result.status !== 404) {
+      setTables(prev => upsertById(prev, existing))
+      resolveTableFailure(existing, result)
+      return
+    }
 
     setToast({
-      message: `${formatChannelLabel(automationSettings.preferredChannel)} verstuurd naar ${match.name}`,
+      message: `${existing.name} verwijderd van het zaalplan`,
       id: Date.now()
     })
+  }
 
-    const responseTimeoutMs =
-      Math.max(automationSettings.waitlistResponseMinutes, 1) * 60000
-    const offerExpiresAt = Date.now() + responseTimeoutMs
-
-    if (whatsappEnabled && match.phone.trim()) {
-      void sendWhatsAppMessage(
-        match.phone,
-        `Er is nu een tafel vrijgekomen voor ${match.partySize} personen. Antwoord met JA om deze te nemen of NEE om over te slaan.`,
-        "waitlist_offer",
-        offerExpiresAt,
-        "waitlist_offer",
-        {
-          "1": match.name,
-          "2": currentRestaurantName,
-          "3": formatBrusselsDate(Date.now()),
-          "4": expiredReservation.time
-        }
-      ).catch(error => {
-        const timeout = fillTimeouts.current.get(expiredReservation.id)
-        if (timeout) {
-          clearTimeout(timeout)
-          fillTimeouts.current.delete(expiredReservation.id)
-        }
-        setReservations(prev =>
-          prev.map(r =>
-            r.id === expiredReservation.id && r.status === "processing"
-              ? { ...r, status: "expired" }
-              : r
-          )
-        )
-        setWaitlist(prev =>
-          prev.map(p =>
-            p.id === match.id
-              ? {
-                  ...p,
-                  status: "waiting"
-                }
-              : p
-          )
-        )
-        inFlightReservationIds.current.delete(expiredReservation.id)
-        pendingWaitlistMatches.current.delete(expiredReservation.id)
-        pendingFallbackStatuses.current.delete(expiredReservation.id)
-        setToast({
-          message: `WhatsApp fout: ${error.message}`,
-          id: Date.now()
-        })
-      })
-    }
-    if (smsEnabled && match.phone.trim()) {
-      const links = buildSmsResponseLinks(match.phone)
-      const smsText = links
-        ? `Er is nu een tafel vrijgekomen voor ${match.partySize} personen. Bevestig: ${links.yes} Weiger: ${links.no}`
-        : `Er is nu een tafel vrijgekomen voor ${match.partySize} personen. Antwoord met JA om deze te nemen of NEE om over te slaan.`
-      void sendSmsMessage(
-        match.phone,
-        smsText,
-        "waitlist_offer",
-        offerExpiresAt
-      ).catch(error => {
+  // Row changes arrive over Supabase Realtime, on a private channel per
+  // restaurant. Polling only runs while that channel is down.
+  useEffect(() => {
+    if (!currentUserId || !currentRestaurantId) return
+
+    const showAutomationToasts = (messages: string[]) => {
+      for (const message of messages) {
         setToast({
-          message: `SMS fout: ${error.message}`,
+          message,
           id: Date.now()
         })
-      })
+      }
     }
 
-    pendingWaitlistMatches.current.set(expiredReservation.id, match.id)
-    pendingFallbackStatuses.current.set(expiredReservation.id, "expired")
-
-    const timeout = setTimeout(() => {
-      setReservations(prev =>
-        prev.map(r =>
-          r.id === expiredReservation.id &&
-          r.status === "processing"
-            ? {
-                ...r,
-                status: "expired"
-              }
-            : r
+    const applyReservationRow = (row: ReservationRow) => {
+      const next = reservationFromRow(row, timeZoneRef.current)
+      const before = reservationsRef.current.find(item => item.id === next.id)
+      if (before && before.version > next.version) return
+      if (before) {
+        showAutomationToasts(
+          describeAutomationChanges(
+            { reservations: [before], waitlist: [] },
+            { reservations: [next], waitlist: [] }
+          )
         )
-      )
-      setWaitlist(prev =>
-        prev.map(p =>
-          p.id === match.id
-            ? {
-                ...p,
-                status: "declined"
-              }
-            : p
+      }
+      setReservations(prev => upsertById(prev, next))
+    }
+
+    const applyWaitlistRow = (row: WaitlistRow) => {
+      const next = waitlistFromRow(row)
+      const before = waitlistRef.current.find(item => item.id === next.id)
+      if (before && (before.version ?? 1) > (next.version ?? 1)) return
+      if (before) {
+        showAutomationToasts(
+          describeAutomationChanges(
+            { reservations: [], waitlist: [before] },
+            { reservations: [], waitlist: [next] }
+          )
         )
-      )
+      }
+      setWaitlist(prev => upsertById(prev, next))
+    }
 
-      setToast({
-        message: `${match.name} antwoordde niet op tijd`,
-        id: Date.now()
+    const applyTableRow = (row: RestaurantTableRow) => {
+      const next = tableFromRow(row)
+      setTables(prev => {
+        const before = prev.find(item => item.id === next.id)
+        return before && before.version > next.version ? prev : upsertById(prev, next)
       })
+    }
 
-      inFlightReservationIds.current.delete(expiredReservation.id)
-      pendingWaitlistMatches.current.delete(expiredReservation.id)
-      pendingFallbackStatuses.current.delete(expiredReservation.id)
-      fillTimeouts.current.delete(expiredReservation.id)
-    }, responseTimeoutMs)
-
-    fillTimeouts.current.set(expiredReservation.id, timeout)
-  }, [reservations, waitlist, automationSettings, currentRestaurantName])
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const entries = Array.from(pendingWaitlistMatches.current.entries())
-      if (entries.length === 0) return
-
-      void (async () => {
-        for (const [reservationId, waitlistId] of entries) {
-          const reservation = reservationsRef.current.find(r => r.id === reservationId)
-          const waitlistEntry = waitlist.find(w => w.id === waitlistId)
-          if (!reservation || reservation.status !== "processing" || !waitlistEntry) {
-            continue
-          }
+    const applySettingsRow = (row: SettingsRow) => {
+      const next = settingsFromRow(row)
+      const storedPreferredChannel = getStoredPreferredChannel()
+      setReminderSettings(next.reminderSettings)
+      setLocaleSettings(next.localeSettings)
+      setMessageTemplates(next.messageTemplates)
+      setServiceHours(next.serviceHours)
+      setAutomationSettings({
+        ...next.automationSettings,
+        preferredChannel:
+          storedPreferredChannel ?? next.automationSettings.preferredChannel
+      })
+    }
 
-          const payload = await getWhatsAppConfirmation(waitlistEntry.phone)
-          const confirmed = Boolean(payload?.confirmed)
-          const declined = Boolean(payload?.declined)
-          const updatedAt = Number(payload?.updatedAt ?? 0)
-          const contactedAt = Number(waitlistEntry.lastContactedAt ?? 0)
+    const applyChange = (change: RealtimeChange) => {
+      const { table, operation } = change
+      if (operation === "DELETE") {
+        const id = change.old_record?.id
+        if (!id) return
+        if (table === "reservations") setReservations(prev => prev.filter(item => item.id !== id))
+        if (table === "waitlist") setWaitlist(prev => prev.filter(item => item.id !== id))
+        if (table === "restaurant_tables") setTables(prev => prev.filter(item => item.id !== id))
+        return
+      }
+      if (!change.record) return
+      if (table === "reservations") applyReservationRow(change.record as ReservationRow)
+      if (table === "waitlist") applyWaitlistRow(change.record as WaitlistRow)
+      if (table === "restaurant_tables") applyTableRow(change.record as RestaurantTableRow)
+      if (table === "message_log") {
+        const message = messageFromRow(change.record as MessageLogRow)
+        setMessages(prev => upsertById(prev, message))
+      }
+      if (table === "settings") applySettingsRow(change.record as SettingsRow)
+    }
 
-          if (!contactedAt || updatedAt < contactedAt) continue
-          if (!confirmed && !declined) continue
+    // Database triggers broadcast every change to the restaurant's private
+    // channel; joining it takes a token from /api/realtime/token, renewed
+    // before it expires. Without one the channel stays down and polling
+    // takes over.
+    let active = true
+    let channel: RealtimeChannel | null = null
+    let renewTimer: ReturnType<typeof setTimeout> | undefined
 
-          const timeout = fillTimeouts.current.get(reservationId)
-          if (timeout) {
-            clearTimeout(timeout)
-            fillTimeouts.current.delete(reservationId)
-          }
+    const authorize = async (): Promise<boolean> => {
+      try {
+        const response = await fetch("/api/realtime/token", { cache: "no-store" })
+        const payload = (await response.json()) as {
+          ok?: boolean
+          token?: string
+          expiresAt?: number
+        }
+        if (!active || !response.ok || !payload.ok || !payload.token || !payload.expiresAt) {
+          return false
+        }
+        await supabase.realtime.setAuth(payload.token)
+        renewTimer = setTimeout(
+          () => void authorize(),
+          Math.max(60_000, payload.expiresAt - Date.now() - 5 * 60_000)
+        )
+        return true
+      } catch {
+        return false
+      }
+    }
 
-          if (confirmed) {
-            setReservations(prev =>
-              prev.map(r =>
-                r.id === reservationId && r.status === "processing"
-                  ? {
-                      ...r,
-                      status: "filled",
-                      originalGuestName: r.originalGuestName ?? r.name,
-                      name: waitlistEntry.name,
-                      phone: waitlistEntry.phone,
-                      filledFromWaitlist: true
-                    }
-                  : r
-              )
-            )
-            setWaitlist(prev => prev.filter(w => w.id !== waitlistId))
-            setToast({
-              message: `${waitlistEntry.name} bevestigde de tafel`,
-              id: Date.now()
-            })
+    void (async () => {
+      if (!(await authorize()) || !active) {
+        if (active) setIsRealtimeConnected(false)
+        return
+      }
+      const onChange = ({ payload }: { payload: RealtimeChange }) => applyChange(payload)
+      channel = supabase
+        .channel(`restaurant:${currentRestaurantId}`, { config: { private: true } })
+        .on("broadcast", { event: "INSERT" }, onChange)
+        .on("broadcast", { event: "UPDATE" }, onChange)
+        .on("broadcast", { event: "DELETE" }, onChange)
+        .subscribe(status => {
+          if (status === "SUBSCRIBED") {
+            setIsRealtimeConnected(true)
+            // Catch up on anything missed while the channel was down.
+            void reloadFromDatabase()
           } else {
-            const fallbackStatus =
-              pendingFallbackStatuses.current.get(reservationId) ?? "expired"
-            setReservations(prev =>
-              prev.map(r =>
-                r.id === reservationId && r.status === "processing"
-                  ? { ...r, status: fallbackStatus }
-                  : r
-              )
-            )
-            setWaitlist(prev =>
-              prev.map(w =>
-                w.id === waitlistId
-                  ? {
-                      ...w,
-                      status: "declined"
-                    }
-                  : w
-              )
-            )
-            setToast({
-              message: `${waitlistEntry.name} sloeg de tafel over`,
-              id: Date.now()
-            })
+            setIsRealtimeConnected(false)
           }
+        })
+    })()
 
-          inFlightReservationIds.current.delete(reservationId)
-          pendingWaitlistMatches.current.delete(reservationId)
-          pendingFallbackStatuses.current.delete(reservationId)
-        }
-      })()
-    }, 4000)
-
-    return () => clearInterval(interval)
-  }, [waitlist])
+    return () => {
+      active = false
+      clearTimeout(renewTimer)
+      if (channel) void supabase.removeChannel(channel)
+    }
+  }, [currentRestaurantId, currentUserId, reloadFromDatabase])
 
   useEffect(() => {
-    if (!currentUserId || !currentRestaurantId) return
+    if (!currentUserId || !currentRestaurantId || isRealtimeConnected) return
 
     const interval = setInterval(() => {
       if (document.visibilityState !== "visible") return
       void reloadFromDatabase()
+      void reloadMessages()
     }, 4000)
 
     const onFocus = () => {
       void reloadFromDatabase()
+      void reloadMessages()
     }
     window.addEventListener("focus", onFocus)
 
@@ -1410,39 +1221,42 @@ export function ReservationProvider({
       clearInterval(interval)
       window.removeEventListener("focus", onFocus)
     }
-  }, [currentRestaurantId, currentUserId, reloadFromDatabase])
-
-  useEffect(() => {
-    const timeouts = fillTimeouts.current
-    const inFlight = inFlightReservationIds.current
-    const pendingMatches = pendingWaitlistMatches.current
-    const fallbackStatuses = pendingFallbackStatuses.current
-
-    return () => {
-      timeouts.forEach(timeout => clearTimeout(timeout))
-      timeouts.clear()
-      inFlight.clear()
-      pendingMatches.clear()
-      fallbackStatuses.clear()
-    }
-  }, [])
+  }, [
+    currentRestaurantId,
+    currentUserId,
+    isRealtimeConnected,
+    reloadFromDatabase,
+    reloadMessages
+  ])
 
   return (
     <ReservationContext.Provider
       value={{
         reservations,
         waitlist,
+        tables,
+        messages,
+        offers,
         reminderSettings,
         automationSettings,
+        localeSettings,
+        messageTemplates,
+        serviceHours,
         toast,
+        selectedDate,
+        setSelectedDate,
         addReservation,
         removeReservation,
+        updateReservationStatus,
+        assignReservationTables,
         clearReservations,
-        updateReminderSettings,
-        updateAutomationSettings,
+        updateSettings,
         addWaitlistEntry,
         removeWaitlistEntry,
-        markWaitlistContacted
+        markWaitlistContacted,
+        addTable,
+        updateTable,
+        removeTable
       }}
     >
       {children}
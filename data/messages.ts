@@ -0,0 +1,21 @@
+export type MessageChannel = "whatsapp" | "sms" | "email"
+
+export type MessageStatus =
+  | "queued"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed"
+  | "undelivered"
+
+export type MessageDelivery = {
+  id: string
+  reservationId: string | null
+  channel: MessageChannel
+  status: MessageStatus
+  errorMessage?: string
+  // Set on an SMS that was sent because this WhatsApp message did not arrive.
+  fallbackOf: string | null
+  createdAt: number
+  updatedAt: number
+}
@@ -0,0 +1,14 @@
+export type OfferAttemptStatus = "pending" | "accepted" | "declined" | "expired" | "cancelled"
+
+// One waitlist guest who was offered a freed table, for the per-table history.
+export type OfferAttempt = {
+  id: string
+  reservationId: string
+  waitlistId: string | null
+  guestName: string
+  partySize?: number
+  status: OfferAttemptStatus
+  createdAt: number
+  expiresAt: number
+  resolvedAt?: number
+}
@@ -1,16 +1,27 @@
+import type { GuestLanguage } from "@/lib/shared/languages"
+import type { ReservationStatus } from "@/lib/shared/reservationStatus"
+
 export type Reservation = {
   id: string
   name: string
   phone: string
+  email?: string
+  language?: GuestLanguage
+  date: string
   time: string
   createdAt?: number
   partySize: number
-  status: "confirmed" | "attention" | "expired" | "processing" | "filled" | "unfilled"
+  status: ReservationStatus
   filledFromWaitlist?: boolean
   originalGuestName?: string
   estimatedRevenue: number
   reminderCount: number
   lastReminderAt?: number
+  // Waitlist offer rounds sent for this table since it was freed.
+  offerAttempts?: number
+  // Tables assigned on the floor plan; several when tables are combined.
+  tableIds: string[]
+  version: number
 }
 
 export const reservations: Reservation[] = []
@@ -0,0 +1,13 @@
+// A physical table of the restaurant. x and y place it on the floor plan
+// grid; combinableWith lists the tables it can be pushed together with.
+export type RestaurantTable = {
+  id: string
+  name: string
+  minCovers: number
+  maxCovers: number
+  area?: string
+  combinableWith: string[]
+  x: number
+  y: number
+  version: number
+}
@@ -1,11 +1,16 @@
+import type { GuestLanguage } from "@/lib/shared/languages"
+
 export type WaitlistEntry = {
   id: string
   name: string
   phone: string
+  email?: string
+  language?: GuestLanguage
   partySize: number
   status?: "waiting" | "contacted" | "declined"
   createdAt?: number
   lastContactedAt?: number
+  version?: number
 }
 
 export const initialWaitlist = [] satisfies WaitlistEntry[]
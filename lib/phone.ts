@@ -1,3 +1,5 @@
+import type { GuestLanguage } from "@/lib/shared/languages"
+
 export function normalizePhone(input: string): string {
   const stripped = input
     .trim()
@@ -13,6 +15,29 @@ export function normalizePhone(input: string): string {
   return stripped.replace(/\D/g, "")
 }
 
+// Longest prefixes first, so +351 is not read as +35.
+const COUNTRY_LANGUAGES: [string, GuestLanguage][] = [
+  ["+351", "pt"],
+  ["+352", "fr"],
+  ["+353", "en"],
+  ["+377", "fr"],
+  ["+31", "nl"],
+  ["+32", "nl"],
+  ["+33", "fr"],
+  ["+44", "en"],
+  ["+55", "pt"],
+  ["+1", "en"]
+]
+
+// Only numbers in international format say which country they are from;
+// Belgian numbers default to Dutch.
+export function languageFromPhone(input: string): GuestLanguage | null {
+  const normalized = normalizePhone(input)
+  if (!normalized.startsWith("+")) return null
+  const match = COUNTRY_LANGUAGES.find(([prefix]) => normalized.startsWith(prefix))
+  return match ? match[1] : null
+}
+
 export function toWhatsAppAddress(input: string): string {
   const normalized = normalizePhone(input)
   return normalized.startsWith("whatsapp:")
@@ -0,0 +1,335 @@
+import { normalizePhone } from "@/lib/phone"
+import { runWaitlistMatching } from "@/lib/server/offers"
+import { loadRestaurantContexts } from "@/lib/server/restaurants"
+import { reservationFromRow, type ReservationRow } from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import {
+  sendSmsMessage,
+  sendWhatsAppMessage,
+  type TwilioTemplateKey
+} from "@/lib/server/twilio"
+import {
+  isEmailChannel,
+  isSmsChannel,
+  isWhatsAppChannel,
+  supportsReplyAutomation,
+  type AutomationSettings
+} from "@/lib/shared/settings"
+import { sendEmailMessage } from "@/lib/server/email"
+import { buildReminderEmail } from "@/lib/server/emailTemplates"
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { buildResponseLinks } from "@/lib/server/responseLinks"
+import {
+  DEFAULT_GUEST_LANGUAGE,
+  getGuestLocale,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import { renderTemplate } from "@/lib/shared/templates"
+import { startConversation } from "@/lib/server/conversations"
+import {
+  runSmsFallbacks,
+  sendImmediateSmsFallback,
+  usesSmsFallback
+} from "@/lib/server/smsFallback"
+import {
+  formatDateKey,
+  formatTimeKey,
+  getReservationTimestamp
+} from "@/lib/shared/time"
+
+export type AutomationRunSummary = {
+  restaurants: number
+  remindersSent: number
+  noShows: number
+  offersSent: number
+  offersExpired: number
+  unfilled: number
+  smsFallbacks: number
+  errors: string[]
+}
+
+type ReminderMessage = {
+  restaurantId: string
+  reservationId: string
+  phone: string
+  email: string | null
+  language: GuestLanguage
+  restaurantName: string
+  // Response links stop working after this moment (the no-show threshold).
+  respondBy: number
+  text: string
+  templateKey: Extract<TwilioTemplateKey, "reminder_first" | "reminder_final">
+  templateVariables: Record<string, string | number | boolean>
+}
+
+function buildReminderLinks(message: ReminderMessage) {
+  return buildResponseLinks(
+    { kind: "reservation", id: message.reservationId },
+    message.respondBy,
+    message.language
+  )
+}
+
+function buildSmsReminderBody(message: ReminderMessage): string {
+  const copy = GUEST_COPY[message.language]
+  const links = buildReminderLinks(message)
+  return links
+    ? `${message.text} ${copy.smsLinkLabels.yes}: ${links.yes} ${copy.smsLinkLabels.no}: ${links.no}`
+    : `${message.text} ${copy.reservationReplyInstructions}`
+}
+
+// E-mail reminders carry signed links to the reservation itself, so they
+// need no conversation.
+async function sendEmailReminder(message: ReminderMessage): Promise<string[]> {
+  if (!message.email) return ["Geen e-mailadres voor herinnering."]
+
+  const content = buildReminderEmail({
+    language: message.language,
+    restaurantName: message.restaurantName,
+    text: message.text,
+    final: message.templateKey === "reminder_final",
+    links: buildReminderLinks(message)
+  })
+  const result = await sendEmailMessage({
+    to: message.email,
+    ...content,
+    log: { restaurantId: message.restaurantId, reservationId: message.reservationId }
+  })
+  return result.ok ? [] : [`E-mail fout: ${result.error}`]
+}
+
+async function sendReminder(
+  message: ReminderMessage,
+  settings: AutomationSettings
+): Promise<string[]> {
+  const channel = settings.preferredChannel
+  if (isEmailChannel(channel)) return sendEmailReminder(message)
+  const errors: string[] = []
+  const normalizedPhone = normalizePhone(message.phone)
+  if (!normalizedPhone) return ["Ongeldig telefoonnummer voor herinnering."]
+
+  try {
+    await startConversation({
+      restaurantId: message.restaurantId,
+      phone: normalizedPhone,
+      conversationId: message.reservationId,
+      conversationType: "reservation_confirmation"
+    })
+  } catch (error) {
+    // Still send the reminder; the reply just cannot be matched automatically.
+    errors.push(
+      `Gesprek niet opgeslagen: ${error instanceof Error ? error.message : "onbekende fout"}`
+    )
+  }
+
+  if (isWhatsAppChannel(channel)) {
+    const result = await sendWhatsAppMessage({
+      restaurantId: message.restaurantId,
+      to: normalizedPhone,
+      body: `${message.text} ${GUEST_COPY[message.language].reservationReplyInstructions}`,
+      templateKey: message.templateKey,
+      templateVariables: message.templateVariables,
+      language: message.language,
+      log: {
+        restaurantId: message.restaurantId,
+        reservationId: message.reservationId,
+        smsFallback: usesSmsFallback(settings)
+          ? {
+              conversationId: message.reservationId,
+              body: buildSmsReminderBody(message)
+            }
+          : null
+      }
+    })
+    if (!result.ok) {
+      errors.push(...(await sendImmediateSmsFallback(result.logId, `WhatsApp fout: ${result.error}`)))
+    }
+  }
+
+  if (isSmsChannel(channel)) {
+    const result = await sendSmsMessage({
+      restaurantId: message.restaurantId,
+      to: normalizedPhone,
+      body: buildSmsReminderBody(message),
+      log: { restaurantId: message.restaurantId, reservationId: message.reservationId }
+    })
+    if (!result.ok) errors.push(`SMS fout: ${result.error}`)
+  }
+
+  return errors
+}
+
+// Sends due reminders and marks no-shows for every restaurant, then hands the
+// freed tables to the waitlist matching engine. Each reservation row is
+// updated conditionally on its previous status and reminder count, so
+// overlapping runs never send the same reminder twice.
+export async function runReservationAutomation(
+  now = Date.now()
+): Promise<AutomationRunSummary> {
+  const summary: AutomationRunSummary = {
+    restaurants: 0,
+    remindersSent: 0,
+    noShows: 0,
+    offersSent: 0,
+    offersExpired: 0,
+    unfilled: 0,
+    smsFallbacks: 0,
+    errors: []
+  }
+
+  const { data: reservationRows, error: reservationsError } = await supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .eq("status", "booked")
+  if (reservationsError) {
+    throw new Error(reservationsError.message)
+  }
+
+  const rowsByRestaurant = new Map<string, ReservationRow[]>()
+  for (const row of (reservationRows ?? []) as ReservationRow[]) {
+    if (!row.restaurant_id) continue
+    const rows = rowsByRestaurant.get(row.restaurant_id) ?? []
+    rows.push(row)
+    rowsByRestaurant.set(row.restaurant_id, rows)
+  }
+
+  const restaurants = await loadRestaurantContexts([...rowsByRestaurant.keys()])
+
+  for (const [restaurantId, rows] of rowsByRestaurant) {
+    const restaurant = restaurants.get(restaurantId)
+    if (!restaurant) continue
+    summary.restaurants += 1
+    const restaurantName = restaurant.name
+    const { reminderSettings, automationSettings, localeSettings } = restaurant
+
+    for (const row of rows) {
+      const reservation = reservationFromRow(row, localeSettings.timeZone)
+      const reservationTimestamp = getReservationTimestamp(
+        reservation.date,
+        reservation.time,
+        localeSettings.timeZone
+      )
+      if (reservationTimestamp === null) continue
+      const language = reservation.language ?? DEFAULT_GUEST_LANGUAGE
+      const guestLocale = getGuestLocale(language, localeSettings.locale)
+      const reservationDate = formatDateKey(reservation.date, guestLocale)
+      const reservationTime = formatTimeKey(reservation.time, guestLocale)
+
+      const firstReminderAt =
+        reservationTimestamp -
+        reminderSettings.firstReminderMinutesBefore * 60000
+      const finalReminderAt =
+        reservationTimestamp -
+        reminderSettings.finalReminderMinutesBefore * 60000
+      const noShowAt =
+        reservationTimestamp +
+        automationSettings.noShowThresholdMinutes * 60000
+
+      const buildReminderMessage = (
+        templateKey: ReminderMessage["templateKey"]
+      ): ReminderMessage => ({
+        restaurantId,
+        reservationId: reservation.id,
+        phone: reservation.phone,
+        email: reservation.email ?? null,
+        language,
+        restaurantName,
+        respondBy: noShowAt,
+        text: renderTemplate(restaurant.messageTemplates[language][templateKey], {
+          name: reservation.name,
+          restaurant: restaurantName,
+          date: reservationDate,
+          time: reservationTime,
+          partySize: reservation.partySize
+        }),
+        templateKey,
+        templateVariables: {
+          "1": reservation.name,
+          "2": restaurantName,
+          "3": reservationDate,
+          "4": reservationTime
+        }
+      })
+
+      let reminderCount = reservation.reminderCount
+      let lastReminderAt = reservation.lastReminderAt
+      let message: ReminderMessage | null = null
+      // Past the no-show threshold a reminder no longer makes sense.
+      const isNoShow = now >= noShowAt
+
+      if (
+        !isNoShow &&
+        reminderCount < 2 &&
+        now >= finalReminderAt
+      ) {
+        reminderCount = 2
+        lastReminderAt = now
+        message = buildReminderMessage("reminder_final")
+      } else if (
+        !isNoShow &&
+        reminderCount < 1 &&
+        now >= firstReminderAt
+      ) {
+        reminderCount = 1
+        lastReminderAt = now
+        message = buildReminderMessage("reminder_first")
+      }
+
+      if (!message && !isNoShow) continue
+
+      let update = supabaseAdmin
+        .from("reservations")
+        .update({
+          status: isNoShow ? "no_show" : "booked",
+          reminder_count: reminderCount,
+          last_reminder_at: lastReminderAt
+            ? new Date(lastReminderAt).toISOString()
+            : null
+        })
+        .eq("id", row.id)
+        .eq("status", "booked")
+      update =
+        row.reminder_count === null
+          ? update.is("reminder_count", null)
+          : update.eq("reminder_count", row.reminder_count)
+
+      const { data: updatedRows, error: updateError } = await update.select("id")
+      if (updateError) {
+        summary.errors.push(`${reservation.name}: ${updateError.message}`)
+        continue
+      }
+      // Another run already handled this reservation.
+      if (!updatedRows || updatedRows.length === 0) continue
+
+      if (isNoShow) {
+        summary.noShows += 1
+        continue
+      }
+
+      const hasContact = isEmailChannel(automationSettings.preferredChannel)
+        ? Boolean(reservation.email)
+        : Boolean(reservation.phone.trim())
+      if (
+        message &&
+        hasContact &&
+        supportsReplyAutomation(automationSettings.preferredChannel)
+      ) {
+        const errors = await sendReminder(message, automationSettings)
+        summary.errors.push(...errors.map(error => `${reservation.name}: ${error}`))
+        if (errors.length === 0) summary.remindersSent += 1
+      }
+    }
+  }
+
+  const matching = await runWaitlistMatching(now)
+  summary.offersSent = matching.offersSent
+  summary.offersExpired = matching.offersExpired
+  summary.unfilled = matching.unfilled
+  summary.errors.push(...matching.errors)
+
+  const fallbacks = await runSmsFallbacks(now)
+  summary.smsFallbacks = fallbacks.sent
+  summary.errors.push(...fallbacks.errors)
+
+  return summary
+}
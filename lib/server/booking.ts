@@ -0,0 +1,205 @@
+import type { Reservation } from "@/data/reservations"
+import {
+  checkReservationCapacity,
+  isSlotFullError,
+  loadDayBookings,
+  slotFullError,
+  type ReservationCapacityCheck
+} from "@/lib/server/capacity"
+import { sendGuestText } from "@/lib/server/guestCodes"
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { loadRestaurantContext, type RestaurantContext } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type { TwilioSendResult } from "@/lib/server/twilio"
+import type { BookingRequestInput } from "@/lib/server/validation"
+import {
+  BOOKING_DAYS_AHEAD,
+  BOOKING_SLUG_PATTERN,
+  type BookingChannel,
+  type BookingSlot
+} from "@/lib/shared/booking"
+import { resolveGuestLanguage } from "@/lib/shared/languages"
+import { reservationFromRow, reservationToRow, type ReservationRow } from "@/lib/shared/rows"
+import { coversInSlot, listDaySlots } from "@/lib/shared/serviceHours"
+import { getDateKeyInZone, getReservationTimestamp, shiftDateKey } from "@/lib/shared/time"
+
+// Guests book on the public page of a restaurant with a booking_slug and
+// confirm with a code (see guestCodes.ts).
+
+export type BookingRestaurant = RestaurantContext & { ownerUserId: string }
+
+// id is the reservation the confirmed code creates.
+export type BookingRequest = Omit<BookingRequestInput, "channel"> & {
+  id: string
+  restaurantId: string
+}
+
+export type BookingResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; status: number }
+
+export async function loadBookingRestaurant(slug: string): Promise<BookingRestaurant | null> {
+  const { data, error } = await supabaseAdmin
+    .from("restaurants")
+    .select("id,owner_user_id")
+    .eq("booking_slug", slug)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!data?.id) return null
+
+  const context = await loadRestaurantContext(String(data.id))
+  return context ? { ...context, ownerUserId: String(data.owner_user_id) } : null
+}
+
+// The public pages of a restaurant exist once it picked a booking_slug.
+export async function resolvePublicRestaurant(
+  slug: string
+): Promise<BookingResult<{ restaurant: BookingRestaurant }>> {
+  const notFound = { ok: false as const, error: "Deze pagina bestaat niet.", status: 404 }
+  if (!BOOKING_SLUG_PATTERN.test(slug)) return notFound
+  try {
+    const restaurant = await loadBookingRestaurant(slug)
+    return restaurant ? { ok: true, restaurant } : notFound
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Kon restaurant niet laden.",
+      status: 500
+    }
+  }
+}
+
+// Online booking also needs service hours to book in.
+export async function resolveBookingRestaurant(
+  slug: string
+): Promise<BookingResult<{ restaurant: BookingRestaurant }>> {
+  const resolved = await resolvePublicRestaurant(slug)
+  if (resolved.ok && resolved.restaurant.serviceHours.periods.length === 0) {
+    return { ok: false, error: "Online reserveren is niet beschikbaar.", status: 404 }
+  }
+  return resolved
+}
+
+function isBookableDate(restaurant: BookingRestaurant, date: string, now: number): boolean {
+  const today = getDateKeyInZone(now, restaurant.localeSettings.timeZone)
+  return date >= today && date <= shiftDateKey(today, BOOKING_DAYS_AHEAD)
+}
+
+// Slots still ahead on this day with the covers left in each.
+export async function listBookableSlots(
+  restaurant: BookingRestaurant,
+  date: string,
+  now: number
+): Promise<BookingResult<{ slots: BookingSlot[] }>> {
+  const { serviceHours, localeSettings } = restaurant
+  if (!isBookableDate(restaurant, date, now)) return { ok: true, slots: [] }
+
+  const booked = await loadDayBookings(restaurant.id, date)
+  if (!booked.ok) return { ok: false, error: booked.error, status: 500 }
+
+  const slots = listDaySlots(serviceHours, date)
+    .filter(slot => (getReservationTimestamp(date, slot.start, localeSettings.timeZone) ?? 0) > now)
+    .map(slot => ({
+      time: slot.start,
+      period: slot.period.name,
+      free: Math.max(
+        0,
+        slot.period.maxCoversPerSlot - coversInSlot(serviceHours, booked.reservations, date, slot)
+      )
+    }))
+  return { ok: true, slots }
+}
+
+// Everything a request must pass before a code is sent, and again before
+// the reservation is written.
+export async function checkBookingRequest(
+  restaurant: BookingRestaurant,
+  request: Pick<BookingRequest, "date" | "time" | "partySize"> & { id?: string },
+  now: number
+): Promise<ReservationCapacityCheck> {
+  const startsAt = getReservationTimestamp(
+    request.date,
+    request.time,
+    restaurant.localeSettings.timeZone
+  )
+  if (!startsAt || startsAt <= now) {
+    return { ok: false, error: "Dit tijdstip is al voorbij.", status: 400 }
+  }
+  if (!isBookableDate(restaurant, request.date, now)) {
+    return {
+      ok: false,
+      error: `Online reserveren kan tot ${BOOKING_DAYS_AHEAD} dagen vooruit.`,
+      status: 400
+    }
+  }
+  return checkReservationCapacity(restaurant.id, request)
+}
+
+export async function sendBookingCode(params: {
+  restaurant: BookingRestaurant
+  request: BookingRequest
+  channel: BookingChannel
+  code: string
+}): Promise<TwilioSendResult> {
+  const { restaurant, request } = params
+  const language = resolveGuestLanguage(undefined, request.phone)
+  return sendGuestText({
+    restaurantId: restaurant.id,
+    phone: request.phone,
+    channel: params.channel,
+    language,
+    body: GUEST_COPY[language].bookingCode(params.code, restaurant.name)
+  })
+}
+
+// The guest proved the phone number is theirs, so the booking starts out
+// confirmed.
+export async function createOnlineReservation(
+  restaurant: BookingRestaurant,
+  request: BookingRequest
+): Promise<BookingResult<{ reservation: Reservation }>> {
+  const row = {
+    ...reservationToRow(
+      {
+        id: request.id,
+        name: request.name,
+        phone: request.phone,
+        language: resolveGuestLanguage(undefined, request.phone),
+        date: request.date,
+        time: request.time,
+        createdAt: Date.now(),
+        partySize: request.partySize,
+        status: "confirmed",
+        estimatedRevenue: request.partySize * 60,
+        reminderCount: 0,
+        filledFromWaitlist: false,
+        tableIds: [],
+        version: 1
+      },
+      restaurant.ownerUserId
+    ),
+    restaurant_id: restaurant.id
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .insert([row])
+    .select("*")
+    .single()
+  if (error?.code === "23505") {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("reservations")
+      .select("*")
+      .eq("id", request.id)
+      .eq("restaurant_id", restaurant.id)
+      .maybeSingle()
+    if (existingError || !existing) {
+      return { ok: false, error: existingError?.message ?? "Reservatie bestaat al.", status: 409 }
+    }
+    return { ok: true, reservation: reservationFromRow(existing as ReservationRow) }
+  }
+  if (isSlotFullError(error?.message)) return slotFullError(restaurant.id, request)
+  if (error) return { ok: false, error: error.message, status: 500 }
+
+  return { ok: true, reservation: reservationFromRow(data as ReservationRow) }
+}
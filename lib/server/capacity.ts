@@ -0,0 +1,72 @@
+import { loadRestaurantContext } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type { ReservationRow } from "@/lib/shared/rows"
+import { checkServiceCapacity, type BookedReservation } from "@/lib/shared/serviceHours"
+
+export async function loadDayBookings(
+  restaurantId: string,
+  date: string
+): Promise<{ ok: true; reservations: BookedReservation[] } | { ok: false; error: string }> {
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .select("id,reservation_date,time,party_size,status")
+    .eq("restaurant_id", restaurantId)
+    .eq("reservation_date", date)
+  if (error) return { ok: false, error: error.message }
+
+  return {
+    ok: true,
+    reservations: (
+      (data ?? []) as Pick<ReservationRow, "id" | "reservation_date" | "time" | "party_size" | "status">[]
+    ).map(row => ({
+      id: row.id,
+      date: row.reservation_date ?? date,
+      time: row.time,
+      partySize: row.party_size,
+      status: row.status
+    }))
+  }
+}
+
+export type ReservationCapacityCheck =
+  | { ok: true }
+  | { ok: false; error: string; status: number }
+
+// Checks a new or moved reservation against the restaurant's service hours
+// and the covers already booked in its slot. This gives the readable error;
+// the database trigger from "SQL migration voor atomaire capaciteit" counts
+// again under a lock, so two bookings for the last seats cannot both land.
+export async function checkReservationCapacity(
+  restaurantId: string,
+  candidate: { id?: string; date: string; time: string; partySize: number }
+): Promise<ReservationCapacityCheck> {
+  const restaurant = await loadRestaurantContext(restaurantId).catch(() => null)
+  if (!restaurant) {
+    return { ok: false, error: "Kon openingsuren niet laden.", status: 500 }
+  }
+  if (restaurant.serviceHours.periods.length === 0) return { ok: true }
+
+  const booked = await loadDayBookings(restaurantId, candidate.date)
+  if (!booked.ok) return { ok: false, error: booked.error, status: 500 }
+
+  const check = checkServiceCapacity(restaurant.serviceHours, booked.reservations, candidate)
+  return check.ok ? check : { ok: false, error: check.error, status: 400 }
+}
+
+// What the capacity trigger raises when a write would overfill its slot.
+export function isSlotFullError(message: string | undefined): boolean {
+  return message === "slot_full"
+}
+
+// Explains a write the trigger refused, from the bookings that beat it.
+export async function slotFullError(
+  restaurantId: string,
+  candidate?: { id?: string; date: string; time: string; partySize: number }
+): Promise<{ ok: false; error: string; status: number }> {
+  const check = candidate ? await checkReservationCapacity(restaurantId, candidate) : null
+  return {
+    ok: false,
+    error: check && !check.ok ? check.error : "Dit tijdslot is intussen volzet.",
+    status: 409
+  }
+}
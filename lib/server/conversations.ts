@@ -0,0 +1,238 @@
+import { getPhoneLookupKeys, normalizePhone } from "@/lib/phone"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { parseTimestamp } from "@/lib/shared/rows"
+
+export type ConversationType = "reservation_confirmation" | "waitlist_offer"
+
+// One outbound message thread with a guest. A conversation is keyed by
+// restaurant + phone + conversationId, where conversationId is the
+// reservation id for reminders and the waitlist-offer id for offers. Two
+// restaurants, or two reservations, messaging the same guest keep separate
+// state.
+export type ConversationRecord = {
+  restaurantId: string
+  phone: string
+  conversationId: string
+  conversationType: ConversationType
+  confirmed: boolean
+  declined: boolean
+  lastReply: string
+  updatedAt: number
+  offerExpiresAt: number | null
+  closed: boolean
+}
+
+export type ConversationKey = Pick<
+  ConversationRecord,
+  "restaurantId" | "phone" | "conversationId"
+>
+
+export interface ConversationStore {
+  save(record: ConversationRecord): Promise<void>
+  get(key: ConversationKey): Promise<ConversationRecord | null>
+  // Conversations for this number that are still waiting for an answer,
+  // newest first. restaurantId null searches every restaurant, which only
+  // the shared platform sender may do.
+  findOpenByPhone(phone: string, restaurantId: string | null): Promise<ConversationRecord[]>
+}
+
+export function isConversationOpen(record: ConversationRecord): boolean {
+  return !record.closed
+}
+
+type ConversationRow = {
+  restaurant_id: string
+  phone: string
+  phone_keys: string[]
+  conversation_id: string
+  conversation_type: ConversationType
+  confirmed: boolean
+  declined: boolean
+  last_reply: string
+  updated_at: string
+  offer_expires_at: string | null
+  closed: boolean
+}
+
+function conversationFromRow(row: ConversationRow): ConversationRecord {
+  return {
+    restaurantId: row.restaurant_id,
+    phone: row.phone,
+    conversationId: row.conversation_id,
+    conversationType:
+      row.conversation_type === "waitlist_offer" ? "waitlist_offer" : "reservation_confirmation",
+    confirmed: row.confirmed,
+    declined: row.declined,
+    lastReply: row.last_reply,
+    updatedAt: parseTimestamp(row.updated_at) ?? 0,
+    offerExpiresAt: parseTimestamp(row.offer_expires_at) ?? null,
+    closed: row.closed
+  }
+}
+
+function conversationToRow(record: ConversationRecord): ConversationRow {
+  return {
+    restaurant_id: record.restaurantId,
+    phone: normalizePhone(record.phone),
+    phone_keys: getPhoneLookupKeys(record.phone),
+    conversation_id: record.conversationId,
+    conversation_type: record.conversationType,
+    confirmed: record.confirmed,
+    declined: record.declined,
+    last_reply: record.lastReply,
+    updated_at: new Date(record.updatedAt).toISOString(),
+    offer_expires_at: record.offerExpiresAt
+      ? new Date(record.offerExpiresAt).toISOString()
+      : null,
+    closed: record.closed
+  }
+}
+
+export function createSupabaseConversationStore(): ConversationStore {
+  return {
+    async save(record) {
+      const { error } = await supabaseAdmin
+        .from("conversations")
+        .upsert(conversationToRow(record), {
+          onConflict: "restaurant_id,phone,conversation_id"
+        })
+      if (error) throw new Error(error.message)
+    },
+
+    async get(key) {
+      const { data, error } = await supabaseAdmin
+        .from("conversations")
+        .select("*")
+        .eq("restaurant_id", key.restaurantId)
+        .eq("phone", normalizePhone(key.phone))
+        .eq("conversation_id", key.conversationId)
+        .maybeSingle()
+      if (error) throw new Error(error.message)
+      return data ? conversationFromRow(data as ConversationRow) : null
+    },
+
+    async findOpenByPhone(phone, restaurantId) {
+      const keys = getPhoneLookupKeys(phone)
+      if (keys.length === 0) return []
+
+      let query = supabaseAdmin
+        .from("conversations")
+        .select("*")
+        .overlaps("phone_keys", keys)
+        .eq("closed", false)
+      if (restaurantId) query = query.eq("restaurant_id", restaurantId)
+      const { data, error } = await query.order("updated_at", { ascending: false })
+      if (error) throw new Error(error.message)
+      return ((data ?? []) as ConversationRow[]).map(conversationFromRow)
+    }
+  }
+}
+
+// Process-local adapter for local development and tests. State is lost on
+// restart and is not shared between instances.
+export function createMemoryConversationStore(): ConversationStore {
+  const records = new Map<string, ConversationRecord>()
+  const keyOf = (key: ConversationKey) =>
+    `${key.restaurantId}:${normalizePhone(key.phone)}:${key.conversationId}`
+
+  return {
+    async save(record) {
+      records.set(keyOf(record), { ...record, phone: normalizePhone(record.phone) })
+    },
+
+    async get(key) {
+      return records.get(keyOf(key)) ?? null
+    },
+
+    async findOpenByPhone(phone, restaurantId) {
+      const keys = new Set(getPhoneLookupKeys(phone))
+      return [...records.values()]
+        .filter(
+          record =>
+            isConversationOpen(record) &&
+            (!restaurantId || record.restaurantId === restaurantId) &&
+            getPhoneLookupKeys(record.phone).some(key => keys.has(key))
+        )
+        .sort((left, right) => right.updatedAt - left.updatedAt)
+    }
+  }
+}
+
+declare global {
+  var __tablebackConversationStore: ConversationStore | undefined
+}
+
+// CONVERSATION_STORE=memory switches to the in-memory adapter; Supabase is
+// the default.
+export function getConversationStore(): ConversationStore {
+  if (!globalThis.__tablebackConversationStore) {
+    globalThis.__tablebackConversationStore =
+      process.env.CONVERSATION_STORE?.trim() === "memory"
+        ? createMemoryConversationStore()
+        : createSupabaseConversationStore()
+  }
+  return globalThis.__tablebackConversationStore
+}
+
+// Opens (or restarts) the conversation for an outbound message so the next
+// inbound JA/NEE is attributed to it.
+export async function startConversation(params: {
+  restaurantId: string
+  phone: string
+  conversationId: string
+  conversationType: ConversationType
+  offerExpiresAt?: number | null
+}): Promise<void> {
+  await getConversationStore().save({
+    restaurantId: params.restaurantId,
+    phone: params.phone,
+    conversationId: params.conversationId,
+    conversationType: params.conversationType,
+    confirmed: false,
+    declined: false,
+    lastReply: "",
+    updatedAt: Date.now(),
+    offerExpiresAt: params.offerExpiresAt ?? null,
+    closed: false
+  })
+}
+
+// For the manual send routes: only a reservation or offer of this restaurant
+// gets a conversation, with the kind that matches it, so a reply can be
+// routed back. Returns whether one was opened.
+export async function startConversationForTarget(params: {
+  restaurantId: string
+  phone: string
+  conversationType: ConversationType
+  targetId: string | null
+  offerExpiresAt?: number | null
+}): Promise<boolean> {
+  if (!params.targetId) return false
+  const { data, error } = await supabaseAdmin
+    .from(params.conversationType === "waitlist_offer" ? "waitlist_offers" : "reservations")
+    .select("id")
+    .eq("id", params.targetId)
+    .eq("restaurant_id", params.restaurantId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  if (!data) return false
+
+  await startConversation({ ...params, conversationId: params.targetId })
+  return true
+}
+
+// Closes a conversation after an answer, or because the reservation or offer
+// it was about no longer accepts one.
+export async function closeConversation(
+  record: ConversationRecord,
+  reply: { text: string; confirmed: boolean; declined: boolean }
+): Promise<void> {
+  await getConversationStore().save({
+    ...record,
+    confirmed: reply.confirmed,
+    declined: reply.declined,
+    lastReply: reply.text,
+    updatedAt: Date.now(),
+    closed: true
+  })
+}
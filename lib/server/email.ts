@@ -0,0 +1,91 @@
+import nodemailer, { type Transporter } from "nodemailer"
+import { logOutboundMessage, type MessageLogContext } from "@/lib/server/messageLog"
+
+export type EmailSendResult =
+  | { ok: true; messageId: string; logId?: string }
+  | { ok: false; error: string; logId?: string }
+
+declare global {
+  var __tablebackMailTransport: Transporter | undefined
+}
+
+// EMAIL_TRANSPORT=test renders messages to JSON and prints them instead of
+// sending, for local development. Otherwise SMTP_URL, or SMTP_HOST with
+// optional SMTP_PORT/SMTP_USER/SMTP_PASS, configures the SMTP server.
+function getTransport(): Transporter | null {
+  if (globalThis.__tablebackMailTransport) return globalThis.__tablebackMailTransport
+
+  const smtpUrl = process.env.SMTP_URL?.trim()
+  const smtpHost = process.env.SMTP_HOST?.trim()
+  let transport: Transporter
+  if (process.env.EMAIL_TRANSPORT?.trim() === "test") {
+    transport = nodemailer.createTransport({ jsonTransport: true })
+  } else if (smtpUrl) {
+    transport = nodemailer.createTransport(smtpUrl)
+  } else if (smtpHost) {
+    const port = Number(process.env.SMTP_PORT ?? 587)
+    const user = process.env.SMTP_USER?.trim()
+    transport = nodemailer.createTransport({
+      host: smtpHost,
+      port,
+      secure: port === 465,
+      auth: user ? { user, pass: process.env.SMTP_PASS ?? "" } : undefined
+    })
+  } else {
+    return null
+  }
+
+  globalThis.__tablebackMailTransport = transport
+  return transport
+}
+
+export async function sendEmailMessage(params: {
+  to: string
+  subject: string
+  html: string
+  text: string
+  log?: MessageLogContext
+}): Promise<EmailSendResult> {
+  const transport = getTransport()
+  const from = process.env.EMAIL_FROM?.trim()
+  if (!transport || !from) {
+    return {
+      ok: false,
+      error:
+        "E-mail env ontbreekt. Zet EMAIL_FROM en SMTP_URL of SMTP_HOST (of EMAIL_TRANSPORT=test)."
+    }
+  }
+
+  let result: EmailSendResult
+  try {
+    const info = await transport.sendMail({
+      from,
+      to: params.to,
+      subject: params.subject,
+      html: params.html,
+      text: params.text
+    })
+    if (process.env.EMAIL_TRANSPORT?.trim() === "test") {
+      console.info("Test e-mail", info.message?.toString())
+    }
+    result = { ok: true, messageId: info.messageId ?? "" }
+  } catch (error) {
+    result = {
+      ok: false,
+      error: error instanceof Error ? error.message : "E-mail verzending mislukt."
+    }
+  }
+
+  if (params.log) {
+    const logId = await logOutboundMessage({
+      context: params.log,
+      channel: "email",
+      to: params.to,
+      body: params.text,
+      templateKey: null,
+      result: result.ok ? { ok: true, sid: result.messageId } : result
+    })
+    if (logId) return { ...result, logId }
+  }
+  return result
+}
@@ -0,0 +1,110 @@
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { escapeHtml } from "@/lib/server/html"
+import { DEFAULT_GUEST_LANGUAGE, type GuestLanguage } from "@/lib/shared/languages"
+
+export type EmailContent = {
+  subject: string
+  html: string
+  text: string
+}
+
+function renderActionEmail(params: {
+  language: GuestLanguage
+  subject: string
+  restaurantName: string
+  lines: string[]
+  links: { yes: string; no: string } | null
+  yesLabel: string
+  noLabel: string
+}): EmailContent {
+  const paragraphs = params.lines
+    .map(line => `<p style="margin:0 0 12px;line-height:1.5">${escapeHtml(line)}</p>`)
+    .join("")
+  const buttons = params.links
+    ? `<p style="margin:20px 0 0"><a href="${escapeHtml(params.links.yes)}" style="display:inline-block;background:#1f3d2b;color:#fff;text-decoration:none;padding:10px 18px;border-radius:8px;margin-right:8px">${escapeHtml(params.yesLabel)}</a><a href="${escapeHtml(params.links.no)}" style="display:inline-block;background:#fff;color:#1f3d2b;text-decoration:none;padding:9px 17px;border-radius:8px;border:1px solid #1f3d2b">${escapeHtml(params.noLabel)}</a></p>`
+    : ""
+  const html = `<!doctype html><html lang="${params.language}"><head><meta charset="utf-8"/></head><body style="font-family:Arial,Helvetica,sans-serif;background:#f7f7f7;color:#1f3d2b;margin:0;padding:24px"><div style="max-width:520px;margin:0 auto;background:#fff;border:1px solid #e6e6e6;border-radius:12px;padding:24px"><h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(params.restaurantName)}</h1>${paragraphs}${buttons}</div></body></html>`
+
+  const text = [
+    ...params.lines,
+    ...(params.links
+      ? ["", `${params.yesLabel}: ${params.links.yes}`, `${params.noLabel}: ${params.links.no}`]
+      : [])
+  ].join("\n")
+
+  return { subject: params.subject, html, text }
+}
+
+// The texts come from the restaurant's message templates; the e-mail adds
+// the subject, layout and buttons in the guest's language.
+export function buildReminderEmail(params: {
+  language: GuestLanguage
+  restaurantName: string
+  text: string
+  final: boolean
+  links: { yes: string; no: string } | null
+}): EmailContent {
+  const copy = GUEST_COPY[params.language].reminderEmail
+  return renderActionEmail({
+    language: params.language,
+    subject: params.final
+      ? copy.finalSubject(params.restaurantName)
+      : copy.subject(params.restaurantName),
+    restaurantName: params.restaurantName,
+    lines: [params.text, copy.note],
+    links: params.links,
+    yesLabel: copy.yesLabel,
+    noLabel: copy.noLabel
+  })
+}
+
+export function buildOfferEmail(params: {
+  language: GuestLanguage
+  restaurantName: string
+  text: string
+  links: { yes: string; no: string } | null
+}): EmailContent {
+  const copy = GUEST_COPY[params.language].offerEmail
+  return renderActionEmail({
+    language: params.language,
+    subject: copy.subject(params.restaurantName),
+    restaurantName: params.restaurantName,
+    lines: [params.text],
+    links: params.links,
+    yesLabel: copy.yesLabel,
+    noLabel: copy.noLabel
+  })
+}
+
+// Sent to the other guests of a broadcast offer once someone accepted.
+export function buildOfferClosedEmail(params: {
+  language: GuestLanguage
+  restaurantName: string
+}): EmailContent {
+  const copy = GUEST_COPY[params.language]
+  return renderActionEmail({
+    language: params.language,
+    subject: copy.offerEmail.subject(params.restaurantName),
+    restaurantName: params.restaurantName,
+    lines: [copy.replies.offerClosed],
+    links: null,
+    yesLabel: "",
+    noLabel: ""
+  })
+}
+
+export function buildPlainEmail(params: {
+  subject: string
+  restaurantName: string
+  message: string
+}): EmailContent {
+  return renderActionEmail({
+    language: DEFAULT_GUEST_LANGUAGE,
+    subject: params.subject,
+    restaurantName: params.restaurantName,
+    lines: params.message.split(/\n+/).filter(line => line.trim()),
+    links: null,
+    yesLabel: "",
+    noLabel: ""
+  })
+}
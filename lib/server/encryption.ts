@@ -0,0 +1,53 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto"
+
+// Secrets stored in the database (restaurant sender credentials) are
+// encrypted with AES-256-GCM under SECRETS_ENCRYPTION_KEY, 32 bytes in
+// base64. Values look like v1.<iv>.<tag>.<ciphertext>; the version leaves
+// room for a key rotation.
+
+const VERSION = "v1"
+
+function getKey(): Buffer | null {
+  const raw = process.env.SECRETS_ENCRYPTION_KEY?.trim()
+  if (!raw) return null
+  const key = Buffer.from(raw, "base64")
+  return key.length === 32 ? key : null
+}
+
+export function isEncryptionConfigured(): boolean {
+  return getKey() !== null
+}
+
+export function encryptSecret(plaintext: string): string | null {
+  const key = getKey()
+  if (!key) return null
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+  return [
+    VERSION,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url")
+  ].join(".")
+}
+
+// Returns null without a key, for unknown versions and when the value was
+// tampered with or encrypted under another key.
+export function decryptSecret(value: string): string | null {
+  const key = getKey()
+  const [version, iv, tag, ciphertext] = value.split(".")
+  if (!key || version !== VERSION || !iv || !tag || ciphertext === undefined) return null
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"))
+    decipher.setAuthTag(Buffer.from(tag, "base64url"))
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final()
+    ]).toString("utf8")
+  } catch {
+    return null
+  }
+}
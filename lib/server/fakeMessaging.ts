@@ -0,0 +1,159 @@
+import { appendFile } from "node:fs/promises"
+import { randomUUID } from "node:crypto"
+import { normalizePhone } from "@/lib/phone"
+import type { MessagingChannel, MessagingProvider } from "@/lib/server/messaging"
+import { parseTwilioStatus } from "@/lib/server/messageLog"
+import type { TwilioSender } from "@/lib/server/senders"
+import { twimlResponse } from "@/lib/server/twilioProvider"
+
+// Local stand-in for Twilio: nothing leaves the machine. Outbound messages
+// are kept in memory (and appended to MESSAGING_FAKE_FILE as JSON lines when
+// set); /api/dev/messages lists them and plays the guest's side. Webhooks
+// use Twilio's field names, so the real webhook routes accept the same
+// requests unsigned.
+
+export type FakeMessage = {
+  sid: string
+  channel: MessagingChannel
+  // "in" for simulated guest replies, "out" for everything TableBack sent.
+  direction: "in" | "out"
+  from: string | null
+  to: string
+  body: string | null
+  templateSid: string | null
+  variables: Record<string, string | number | boolean> | null
+  createdAt: number
+}
+
+const FAKE_NUMBER = "+32000000000"
+
+const FAKE_SENDER: TwilioSender = {
+  accountSid: "ACfake",
+  authToken: "fake",
+  whatsappFrom: FAKE_NUMBER,
+  smsFrom: FAKE_NUMBER,
+  messagingServiceSid: null,
+  templateSids: {},
+  source: "platform"
+}
+
+declare global {
+  var __tablebackFakeOutbox: FakeMessage[] | undefined
+}
+
+function getOutbox(): FakeMessage[] {
+  globalThis.__tablebackFakeOutbox ??= []
+  return globalThis.__tablebackFakeOutbox
+}
+
+export async function recordFakeMessage(
+  message: Omit<FakeMessage, "sid" | "createdAt"> & { sid?: string }
+): Promise<FakeMessage> {
+  const recorded: FakeMessage = {
+    ...message,
+    sid: message.sid ?? `SMfake${randomUUID().replaceAll("-", "")}`,
+    createdAt: Date.now()
+  }
+  getOutbox().push(recorded)
+
+  const file = process.env.MESSAGING_FAKE_FILE?.trim()
+  if (file) {
+    await appendFile(file, `${JSON.stringify(recorded)}\n`).catch(error => {
+      console.error("Fake message log write failed", error)
+    })
+  }
+  return recorded
+}
+
+// Newest first, optionally only the messages to or from one number.
+export function listFakeMessages(phone?: string): FakeMessage[] {
+  const normalized = phone ? normalizePhone(phone) : null
+  return getOutbox()
+    .filter(message => !normalized || message.to === normalized || message.from === normalized)
+    .slice()
+    .reverse()
+}
+
+export function clearFakeMessages(): void {
+  getOutbox().length = 0
+}
+
+export function createFakeMessagingProvider(): MessagingProvider {
+  return {
+    name: "fake",
+    localSender: FAKE_SENDER,
+
+    async sendText(sender, message) {
+      const recorded = await recordFakeMessage({
+        channel: message.channel,
+        direction: "out",
+        from: message.from ?? message.messagingServiceSid,
+        to: message.to,
+        body: message.body,
+        templateSid: null,
+        variables: null
+      })
+      return { ok: true, sid: recorded.sid }
+    },
+
+    async sendTemplate(sender, message) {
+      const recorded = await recordFakeMessage({
+        channel: message.channel,
+        direction: "out",
+        from: message.from ?? message.messagingServiceSid,
+        to: message.to,
+        body: null,
+        templateSid: message.templateSid,
+        variables: message.variables ?? null
+      })
+      return { ok: true, sid: recorded.sid }
+    },
+
+    async checkAccount() {
+      return { ok: true, friendlyName: "Fake provider", status: "active" }
+    },
+
+    async verifyWebhook() {
+      return { ok: true, restaurantId: null }
+    },
+
+    parseInbound(params) {
+      const rawFrom = params.From ?? ""
+      return {
+        channel: /^whatsapp:/i.test(rawFrom) || params.Channel === "whatsapp" ? "whatsapp" : "sms",
+        from: normalizePhone(rawFrom),
+        body: (params.Body ?? "").trim(),
+        sid: params.MessageSid || null
+      }
+    },
+
+    parseStatus(params) {
+      const sid = params.MessageSid ?? ""
+      const status = parseTwilioStatus(params.MessageStatus ?? "")
+      if (!sid || !status) return null
+      return {
+        sid,
+        status,
+        errorCode: params.ErrorCode || null,
+        errorMessage: params.ErrorMessage || null
+      }
+    },
+
+    // Replies go back in the webhook response with Twilio, so they are
+    // recorded here to show up next to the other outbound messages.
+    async respondToInbound(message, replyText) {
+      if (replyText && message.from) {
+        await recordFakeMessage({
+          channel: message.channel,
+          direction: "out",
+          from: FAKE_NUMBER,
+          to: message.from,
+          body: replyText,
+          templateSid: null,
+          variables: null
+        })
+      }
+      return twimlResponse(replyText)
+    }
+  }
+}
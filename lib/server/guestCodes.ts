@@ -0,0 +1,92 @@
+import { createHmac, randomInt, timingSafeEqual } from "node:crypto"
+import { sendSmsMessage, sendWhatsAppMessage, type TwilioSendResult } from "@/lib/server/twilio"
+import type { BookingChannel } from "@/lib/shared/booking"
+import type { GuestLanguage } from "@/lib/shared/languages"
+
+// Guests on the public pages prove their phone number with a six-digit code
+// sent by WhatsApp or SMS. The code is not stored: the page holds a token
+// with the request, signed together with the code (RESPONSE_LINK_SECRET),
+// and sends it back with the code the guest typed. The id in the request
+// names the row it will create, so confirming twice writes it once.
+
+export type GuestCodeKind = "booking" | "waitlist"
+
+const CODE_TTL_MS = 10 * 60 * 1000
+
+export type GuestCodeCheck<T> =
+  | { ok: true; request: T }
+  | { ok: false; error: string; status: number }
+
+function getSecret(): string | null {
+  return process.env.RESPONSE_LINK_SECRET?.trim() || null
+}
+
+function sign(secret: string, kind: GuestCodeKind, payload: string, code: string): string {
+  return createHmac("sha256", secret).update(`${kind}:${payload}:${code}`).digest("base64url")
+}
+
+function readPayload(token: string): { id?: unknown; expiresAt?: unknown } | null {
+  try {
+    return JSON.parse(Buffer.from(token.split(".")[0] ?? "", "base64url").toString("utf8"))
+  } catch {
+    return null
+  }
+}
+
+export function createGuestCode<T extends { id: string }>(
+  kind: GuestCodeKind,
+  request: T,
+  now: number
+): { token: string; code: string; expiresAt: number } | null {
+  const secret = getSecret()
+  if (!secret) return null
+
+  const expiresAt = now + CODE_TTL_MS
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0")
+  const payload = Buffer.from(JSON.stringify({ ...request, expiresAt })).toString("base64url")
+  return { token: `${payload}.${sign(secret, kind, payload, code)}`, code, expiresAt }
+}
+
+// The id of a token, unchecked, to rate limit guesses per code.
+export function peekGuestCodeId(token: string): string | null {
+  const data = readPayload(token)
+  return typeof data?.id === "string" ? data.id : null
+}
+
+export function verifyGuestCode<T extends { id: string }>(
+  kind: GuestCodeKind,
+  token: string,
+  code: string,
+  now: number
+): GuestCodeCheck<T> {
+  const secret = getSecret()
+  const [payload, signature] = token.split(".")
+  if (!secret || !payload || !signature) {
+    return { ok: false, error: "Vraag eerst een code aan.", status: 400 }
+  }
+
+  const expected = Buffer.from(sign(secret, kind, payload, code))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, error: "De code klopt niet.", status: 400 }
+  }
+
+  const request = readPayload(token) as T & { expiresAt: number }
+  if (request.expiresAt <= now) {
+    return { ok: false, error: "De code is verlopen. Vraag een nieuwe aan.", status: 410 }
+  }
+  return { ok: true, request }
+}
+
+export async function sendGuestText(params: {
+  restaurantId: string
+  phone: string
+  channel: BookingChannel
+  language: GuestLanguage
+  body: string
+}): Promise<TwilioSendResult> {
+  const { restaurantId, phone, body, language } = params
+  return params.channel === "whatsapp"
+    ? sendWhatsAppMessage({ restaurantId, to: phone, body, language })
+    : sendSmsMessage({ restaurantId, to: phone, body })
+}
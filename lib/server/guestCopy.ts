@@ -0,0 +1,290 @@
+import type { GuestLanguage } from "@/lib/shared/languages"
+
+// Fixed guest-facing wording around the editable message templates: reply
+// instructions, link and button labels, automatic replies and the response
+// page. Restaurants cannot edit these, so every language is kept here.
+
+type ConfirmPrompt = { question: string; label: string }
+
+export type GuestCopy = {
+  reservationReplyInstructions: string
+  offerReplyInstructions: string
+  // Labels in front of the confirm/decline links in an SMS.
+  smsLinkLabels: { yes: string; no: string }
+  // Sent to confirm a booking made on the public booking page.
+  bookingCode: (code: string, restaurant: string) => string
+  // Sent to guests joining the waitlist through the QR code.
+  waitlistCode: (code: string, restaurant: string) => string
+  waitlistJoined: (position: number, restaurant: string) => string
+  reminderEmail: {
+    subject: (restaurant: string) => string
+    finalSubject: (restaurant: string) => string
+    note: string
+    yesLabel: string
+    noLabel: string
+  }
+  offerEmail: {
+    subject: (restaurant: string) => string
+    yesLabel: string
+    noLabel: string
+  }
+  describeReservation: (date: string, time: string, restaurant: string | null) => string
+  replies: {
+    offerClosed: string
+    offerAccepted: string
+    offerDeclined: string
+    offerPending: string
+    noReservation: string
+    // answered names the reservation when the guest has several open.
+    reservationConfirmed: (answered: string | null) => string
+    reservationCancelled: (answered: string | null) => string
+    reservationClosed: (answered: string | null) => string
+    reservationPending: string
+    nextOpen: (description: string) => string
+  }
+  page: {
+    invalidLink: string
+    expiredLink: string
+    alreadyAnswered: string
+    tableTaken: string
+    unavailable: string
+    prompts: Record<"reservation" | "offer", Record<"yes" | "no", ConfirmPrompt>>
+  }
+}
+
+export const GUEST_COPY: Record<GuestLanguage, GuestCopy> = {
+  nl: {
+    reservationReplyInstructions: "Antwoord met JA om te bevestigen of NEE om te annuleren.",
+    offerReplyInstructions: "Antwoord met JA om de tafel te nemen of NEE om over te slaan.",
+    smsLinkLabels: { yes: "Bevestig", no: "Weiger" },
+    bookingCode: (code, restaurant) =>
+      `Je code om je reservatie bij ${restaurant} te bevestigen is ${code}. Hij is 10 minuten geldig.`,
+    waitlistCode: (code, restaurant) =>
+      `Je code voor de wachtlijst van ${restaurant} is ${code}. Hij is 10 minuten geldig.`,
+    waitlistJoined: (position, restaurant) =>
+      `Je staat op de wachtlijst van ${restaurant}, op plaats ${position}. We sturen je een bericht zodra er een tafel vrij is.`,
+    reminderEmail: {
+      subject: restaurant => `Bevestig je reservatie bij ${restaurant}`,
+      finalSubject: restaurant => `Laatste herinnering: je reservatie bij ${restaurant}`,
+      note: "Laat ons weten of je komt, zodat we de tafel anders aan iemand anders kunnen geven.",
+      yesLabel: "Ik kom",
+      noLabel: "Annuleren"
+    },
+    offerEmail: {
+      subject: restaurant => `Er is een tafel vrij bij ${restaurant}`,
+      yesLabel: "Tafel nemen",
+      noLabel: "Overslaan"
+    },
+    describeReservation: (date, time, restaurant) =>
+      `${date} om ${time}${restaurant ? ` bij ${restaurant}` : ""}`,
+    replies: {
+      offerClosed: "Sorry, deze tafel is reeds ingevuld.",
+      offerAccepted: "Top, de tafel is voor jou. Tot zo.",
+      offerDeclined: "Geen probleem, we bieden de tafel verder aan. Bedankt voor je reactie.",
+      offerPending: "Dank je. Antwoord met JA om de tafel te nemen of NEE om over te slaan.",
+      noReservation: "Dank je. Er staat momenteel geen reservatie open voor dit nummer.",
+      reservationConfirmed: answered =>
+        `Top, je reservatie${answered ? ` van ${answered}` : ""} is bevestigd. Tot straks.`,
+      reservationCancelled: answered =>
+        `De annulering van je reservatie${answered ? ` van ${answered}` : ""} is ontvangen. Bedankt voor het laten weten.`,
+      reservationClosed: answered =>
+        `Dank je. Je reservatie${answered ? ` van ${answered}` : ""} werd intussen al verwerkt.`,
+      reservationPending: "Dank je. Antwoord met JA om te bevestigen of NEE om te annuleren.",
+      nextOpen: description =>
+        ` Je hebt nog een reservatie open (${description}); antwoord opnieuw met JA of NEE om die te bevestigen of te annuleren.`
+    },
+    page: {
+      invalidLink: "Ongeldige link.",
+      expiredLink: "Deze link is verlopen.",
+      alreadyAnswered: "Je antwoord werd al verwerkt.",
+      tableTaken: "Deze tafel is helaas al ingevuld.",
+      unavailable: "Er ging iets mis. Probeer het later opnieuw.",
+      prompts: {
+        reservation: {
+          yes: { question: "Wil je je reservatie bevestigen?", label: "Ja, ik kom" },
+          no: { question: "Wil je je reservatie annuleren?", label: "Ja, annuleer" }
+        },
+        offer: {
+          yes: { question: "Wil je de vrijgekomen tafel nemen?", label: "Tafel nemen" },
+          no: { question: "Wil je dit aanbod overslaan?", label: "Overslaan" }
+        }
+      }
+    }
+  },
+  fr: {
+    reservationReplyInstructions: "Répondez OUI pour confirmer ou NON pour annuler.",
+    offerReplyInstructions: "Répondez OUI pour prendre la table ou NON pour passer.",
+    smsLinkLabels: { yes: "Confirmer", no: "Refuser" },
+    bookingCode: (code, restaurant) =>
+      `Votre code pour confirmer votre réservation chez ${restaurant} est ${code}. Il est valable 10 minutes.`,
+    waitlistCode: (code, restaurant) =>
+      `Votre code pour la liste d'attente de ${restaurant} est ${code}. Il est valable 10 minutes.`,
+    waitlistJoined: (position, restaurant) =>
+      `Vous êtes sur la liste d'attente de ${restaurant}, en position ${position}. Nous vous écrirons dès qu'une table se libère.`,
+    reminderEmail: {
+      subject: restaurant => `Confirmez votre réservation chez ${restaurant}`,
+      finalSubject: restaurant => `Dernier rappel : votre réservation chez ${restaurant}`,
+      note: "Dites-nous si vous venez, afin que nous puissions sinon proposer la table à quelqu'un d'autre.",
+      yesLabel: "Je viens",
+      noLabel: "Annuler"
+    },
+    offerEmail: {
+      subject: restaurant => `Une table s'est libérée chez ${restaurant}`,
+      yesLabel: "Prendre la table",
+      noLabel: "Passer"
+    },
+    describeReservation: (date, time, restaurant) =>
+      `${date} à ${time}${restaurant ? ` chez ${restaurant}` : ""}`,
+    replies: {
+      offerClosed: "Désolé, cette table a déjà été attribuée.",
+      offerAccepted: "Parfait, la table est à vous. À tout de suite.",
+      offerDeclined:
+        "Pas de problème, nous proposons la table à quelqu'un d'autre. Merci pour votre réponse.",
+      offerPending: "Merci. Répondez OUI pour prendre la table ou NON pour passer.",
+      noReservation: "Merci. Aucune réservation n'est en attente pour ce numéro.",
+      reservationConfirmed: answered =>
+        `Parfait, votre réservation${answered ? ` du ${answered}` : ""} est confirmée. À tout à l'heure.`,
+      reservationCancelled: answered =>
+        `Nous avons bien reçu l'annulation de votre réservation${answered ? ` du ${answered}` : ""}. Merci de nous avoir prévenus.`,
+      reservationClosed: answered =>
+        `Merci. Votre réservation${answered ? ` du ${answered}` : ""} a déjà été traitée.`,
+      reservationPending: "Merci. Répondez OUI pour confirmer ou NON pour annuler.",
+      nextOpen: description =>
+        ` Vous avez encore une réservation en attente (${description}) ; répondez à nouveau OUI ou NON pour la confirmer ou l'annuler.`
+    },
+    page: {
+      invalidLink: "Lien invalide.",
+      expiredLink: "Ce lien a expiré.",
+      alreadyAnswered: "Votre réponse a déjà été traitée.",
+      tableTaken: "Cette table a malheureusement déjà été attribuée.",
+      unavailable: "Une erreur s'est produite. Veuillez réessayer plus tard.",
+      prompts: {
+        reservation: {
+          yes: { question: "Voulez-vous confirmer votre réservation ?", label: "Oui, je viens" },
+          no: { question: "Voulez-vous annuler votre réservation ?", label: "Oui, annuler" }
+        },
+        offer: {
+          yes: { question: "Voulez-vous prendre la table libérée ?", label: "Prendre la table" },
+          no: { question: "Voulez-vous passer cette offre ?", label: "Passer" }
+        }
+      }
+    }
+  },
+  en: {
+    reservationReplyInstructions: "Reply YES to confirm or NO to cancel.",
+    offerReplyInstructions: "Reply YES to take the table or NO to skip.",
+    smsLinkLabels: { yes: "Confirm", no: "Decline" },
+    bookingCode: (code, restaurant) =>
+      `Your code to confirm your booking at ${restaurant} is ${code}. It is valid for 10 minutes.`,
+    waitlistCode: (code, restaurant) =>
+      `Your code for the waitlist at ${restaurant} is ${code}. It is valid for 10 minutes.`,
+    waitlistJoined: (position, restaurant) =>
+      `You are on the waitlist at ${restaurant}, in position ${position}. We will message you as soon as a table is free.`,
+    reminderEmail: {
+      subject: restaurant => `Please confirm your reservation at ${restaurant}`,
+      finalSubject: restaurant => `Final reminder: your reservation at ${restaurant}`,
+      note: "Let us know whether you are coming, so we can otherwise give the table to someone else.",
+      yesLabel: "I'm coming",
+      noLabel: "Cancel"
+    },
+    offerEmail: {
+      subject: restaurant => `A table has become available at ${restaurant}`,
+      yesLabel: "Take the table",
+      noLabel: "Skip"
+    },
+    describeReservation: (date, time, restaurant) =>
+      `${date} at ${time}${restaurant ? ` (${restaurant})` : ""}`,
+    replies: {
+      offerClosed: "Sorry, this table has already been taken.",
+      offerAccepted: "Great, the table is yours. See you shortly.",
+      offerDeclined:
+        "No problem, we will offer the table to someone else. Thanks for letting us know.",
+      offerPending: "Thanks. Reply YES to take the table or NO to skip.",
+      noReservation: "Thanks. There is no open reservation for this number.",
+      reservationConfirmed: answered =>
+        `Great, your reservation${answered ? ` on ${answered}` : ""} is confirmed. See you soon.`,
+      reservationCancelled: answered =>
+        `We have received the cancellation of your reservation${answered ? ` on ${answered}` : ""}. Thanks for letting us know.`,
+      reservationClosed: answered =>
+        `Thanks. Your reservation${answered ? ` on ${answered}` : ""} has already been handled.`,
+      reservationPending: "Thanks. Reply YES to confirm or NO to cancel.",
+      nextOpen: description =>
+        ` You have another reservation waiting (${description}); reply YES or NO again to confirm or cancel it.`
+    },
+    page: {
+      invalidLink: "Invalid link.",
+      expiredLink: "This link has expired.",
+      alreadyAnswered: "Your answer has already been processed.",
+      tableTaken: "Sorry, this table has already been taken.",
+      unavailable: "Something went wrong. Please try again later.",
+      prompts: {
+        reservation: {
+          yes: { question: "Do you want to confirm your reservation?", label: "Yes, I'm coming" },
+          no: { question: "Do you want to cancel your reservation?", label: "Yes, cancel" }
+        },
+        offer: {
+          yes: { question: "Do you want to take the available table?", label: "Take the table" },
+          no: { question: "Do you want to skip this offer?", label: "Skip" }
+        }
+      }
+    }
+  },
+  pt: {
+    reservationReplyInstructions: "Responda SIM para confirmar ou NÃO para cancelar.",
+    offerReplyInstructions: "Responda SIM para ficar com a mesa ou NÃO para recusar.",
+    smsLinkLabels: { yes: "Confirmar", no: "Recusar" },
+    bookingCode: (code, restaurant) =>
+      `O seu código para confirmar a sua reserva no ${restaurant} é ${code}. É válido durante 10 minutos.`,
+    waitlistCode: (code, restaurant) =>
+      `O seu código para a lista de espera do ${restaurant} é ${code}. É válido durante 10 minutos.`,
+    waitlistJoined: (position, restaurant) =>
+      `Está na lista de espera do ${restaurant}, na posição ${position}. Enviamos-lhe uma mensagem assim que houver uma mesa livre.`,
+    reminderEmail: {
+      subject: restaurant => `Confirme a sua reserva (${restaurant})`,
+      finalSubject: restaurant => `Último lembrete: a sua reserva (${restaurant})`,
+      note: "Diga-nos se vem, para que possamos, caso contrário, dar a mesa a outra pessoa.",
+      yesLabel: "Eu vou",
+      noLabel: "Cancelar"
+    },
+    offerEmail: {
+      subject: restaurant => `Ficou livre uma mesa (${restaurant})`,
+      yesLabel: "Ficar com a mesa",
+      noLabel: "Recusar"
+    },
+    describeReservation: (date, time, restaurant) =>
+      `${date} às ${time}${restaurant ? ` (${restaurant})` : ""}`,
+    replies: {
+      offerClosed: "Lamentamos, esta mesa já foi ocupada.",
+      offerAccepted: "Ótimo, a mesa é sua. Até já.",
+      offerDeclined: "Sem problema, vamos oferecer a mesa a outra pessoa. Obrigado pela resposta.",
+      offerPending: "Obrigado. Responda SIM para ficar com a mesa ou NÃO para recusar.",
+      noReservation: "Obrigado. Não há nenhuma reserva em aberto para este número.",
+      reservationConfirmed: answered =>
+        `Ótimo, a sua reserva${answered ? ` de ${answered}` : ""} está confirmada. Até já.`,
+      reservationCancelled: answered =>
+        `Recebemos o cancelamento da sua reserva${answered ? ` de ${answered}` : ""}. Obrigado por nos avisar.`,
+      reservationClosed: answered =>
+        `Obrigado. A sua reserva${answered ? ` de ${answered}` : ""} já foi tratada.`,
+      reservationPending: "Obrigado. Responda SIM para confirmar ou NÃO para cancelar.",
+      nextOpen: description =>
+        ` Tem ainda outra reserva em aberto (${description}); responda novamente SIM ou NÃO para a confirmar ou cancelar.`
+    },
+    page: {
+      invalidLink: "Link inválido.",
+      expiredLink: "Este link expirou.",
+      alreadyAnswered: "A sua resposta já foi processada.",
+      tableTaken: "Lamentamos, esta mesa já foi ocupada.",
+      unavailable: "Ocorreu um erro. Tente novamente mais tarde.",
+      prompts: {
+        reservation: {
+          yes: { question: "Quer confirmar a sua reserva?", label: "Sim, eu vou" },
+          no: { question: "Quer cancelar a sua reserva?", label: "Sim, cancelar" }
+        },
+        offer: {
+          yes: { question: "Quer ficar com a mesa que ficou livre?", label: "Ficar com a mesa" },
+          no: { question: "Quer recusar esta oferta?", label: "Recusar" }
+        }
+      }
+    }
+  }
+}
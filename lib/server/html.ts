@@ -0,0 +1,31 @@
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+}
+
+// The small page guests see after tapping a confirm/decline link. With a
+// confirm form the answer is only applied when the guest presses the
+// button, so link previewers that fetch the URL cannot trigger it.
+export function renderResponsePage(
+  message: string,
+  options: {
+    status?: number
+    language?: string
+    confirm?: { token: string; label: string }
+  } = {}
+): Response {
+  const form = options.confirm
+    ? `<form method="post" action="/api/respond"><input type="hidden" name="token" value="${escapeHtml(options.confirm.token)}"/><button type="submit">${escapeHtml(options.confirm.label)}</button></form>`
+    : ""
+  const body = `<!doctype html><html lang="${escapeHtml(options.language ?? "nl")}"><head><meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/><meta name="robots" content="noindex"/><title>TableBack</title><style>body{font-family:Arial,Helvetica,sans-serif;background:#f7f7f7;color:#1f3d2b;margin:0;padding:24px}.card{max-width:520px;margin:40px auto;background:#fff;border:1px solid #e6e6e6;border-radius:12px;padding:20px}h1{margin:0 0 10px;font-size:22px}p{margin:0;line-height:1.45}form{margin-top:16px}button{background:#1f3d2b;color:#fff;border:0;border-radius:8px;padding:10px 18px;font-size:15px;cursor:pointer}</style></head><body><div class="card"><h1>TableBack</h1><p>${escapeHtml(message)}</p>${form}</div></body></html>`
+  return new Response(body, {
+    status: options.status ?? 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store"
+    }
+  })
+}
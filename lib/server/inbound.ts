@@ -0,0 +1,84 @@
+import { languageFromPhone } from "@/lib/phone"
+import type { InboundMessage, StatusUpdate } from "@/lib/server/messaging"
+import { applyMessageStatus, isFailedStatus } from "@/lib/server/messageLog"
+import {
+  renderReplyText,
+  routeInboundReply,
+  type InboundReplyResult
+} from "@/lib/server/replies"
+import { parseReplyKeyword } from "@/lib/server/replyKeywords"
+import { getTemplateSid, resolveTwilioSender } from "@/lib/server/senders"
+import { sendSmsFallback } from "@/lib/server/smsFallback"
+import { sendWhatsAppMessage } from "@/lib/server/twilio"
+import { DEFAULT_GUEST_LANGUAGE } from "@/lib/shared/languages"
+
+// What the webhooks do once the provider has checked and parsed a request.
+// Shared with /api/dev/messages, which feeds the same functions with
+// simulated guest replies and delivery reports.
+
+// Returns the text to answer in the same thread, or null when a WhatsApp
+// template already answered the guest. restaurantId comes from the verified
+// webhook (see WebhookCheck); null for the shared platform sender.
+export async function handleInboundMessage(
+  message: InboundMessage,
+  restaurantId: string | null
+): Promise<string | null> {
+  const keyword = parseReplyKeyword(message.body)
+  // Only used when nothing is open for this number.
+  const language = keyword.language ?? languageFromPhone(message.from) ?? DEFAULT_GUEST_LANGUAGE
+  const result: InboundReplyResult = message.from
+    ? await routeInboundReply({
+        phone: message.from,
+        restaurantId,
+        text: message.body,
+        reply: keyword.reply,
+        language
+      })
+    : { kind: "none", language }
+  console.log("Inbound message", {
+    channel: message.channel,
+    from: message.from || null,
+    body: message.body,
+    routedTo: result.kind,
+    outcome: result.kind === "none" ? null : result.outcome,
+    reply: keyword.reply,
+    language: result.language
+  })
+
+  // Outside the 24-hour window only an approved template reaches a
+  // WhatsApp guest, so a configured one replaces the free-text answer.
+  if (
+    message.channel === "whatsapp" &&
+    message.from &&
+    result.kind === "reservation" &&
+    !result.nextOpen &&
+    (result.outcome === "confirmed" || result.outcome === "cancelled")
+  ) {
+    const templateKey = result.outcome === "confirmed" ? "confirmation" : "cancellation"
+    const resolved = await resolveTwilioSender(result.restaurantId)
+    if (resolved.ok && getTemplateSid(resolved.sender, templateKey, result.language)) {
+      const templateSend = await sendWhatsAppMessage({
+        restaurantId: result.restaurantId,
+        to: message.from,
+        templateKey,
+        language: result.language,
+        log: { restaurantId: result.restaurantId, reservationId: result.reservationId }
+      })
+      if (templateSend.ok) return null
+    }
+  }
+
+  return renderReplyText(result)
+}
+
+export async function handleStatusUpdate(update: StatusUpdate): Promise<void> {
+  const updated = await applyMessageStatus(update)
+  // Only WhatsApp rows with a fallback body qualify; sendSmsFallback checks
+  // that itself.
+  if (updated && isFailedStatus(updated.status)) {
+    const fallback = await sendSmsFallback(updated.id)
+    if (fallback && !fallback.ok) {
+      console.error("SMS fallback failed", { messageSid: update.sid, error: fallback.error })
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { MessageChannel, MessageStatus } from "@/data/messages"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type { MessageLogRow } from "@/lib/shared/rows"
+
+// Every outbound Twilio message is logged with its SID so the status
+// callback can report whether it actually reached the guest.
+
+export type MessageLogContext = {
+  restaurantId: string
+  reservationId?: string | null
+  // WhatsApp only: the SMS to send when this message does not arrive, and
+  // the conversation it belongs to, so no SMS goes out after an answer.
+  smsFallback?: { conversationId: string; body: string } | null
+  // SMS only: the WhatsApp message this one replaces.
+  fallbackOf?: string | null
+}
+
+const STATUS_RANK: Record<MessageStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+  undelivered: 4
+}
+
+// Twilio reports more states than hosts care about; fold them into ours.
+export function parseTwilioStatus(value: string): MessageStatus | null {
+  switch (value.trim().toLowerCase()) {
+    case "accepted":
+    case "scheduled":
+    case "queued":
+      return "queued"
+    case "sending":
+    case "sent":
+      return "sent"
+    case "delivered":
+      return "delivered"
+    case "read":
+      return "read"
+    case "failed":
+    case "canceled":
+      return "failed"
+    case "undelivered":
+      return "undelivered"
+    default:
+      return null
+  }
+}
+
+export async function logOutboundMessage(params: {
+  context: MessageLogContext
+  channel: MessageChannel
+  to: string
+  body: string | null
+  templateKey: string | null
+  result: { ok: true; sid: string } | { ok: false; error: string }
+}): Promise<string | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabaseAdmin.from("message_log").insert([
+    {
+      restaurant_id: params.context.restaurantId,
+      reservation_id: params.context.reservationId ?? null,
+      channel: params.channel,
+      // The e-mail address for the email channel.
+      to_phone: params.to,
+      body: params.body,
+      template_key: params.templateKey,
+      sid: params.result.ok ? params.result.sid || null : null,
+      // SMTP has no delivery callbacks; an accepted e-mail counts as sent.
+      status: params.result.ok ? (params.channel === "email" ? "sent" : "queued") : "failed",
+      error_message: params.result.ok ? null : params.result.error,
+      conversation_id: params.context.smsFallback?.conversationId ?? null,
+      fallback_body: params.context.smsFallback?.body ?? null,
+      fallback_of: params.context.fallbackOf ?? null,
+      created_at: now,
+      updated_at: now
+    }
+  ]).select("id").single()
+  // Logging must never block sending; the message already went out.
+  if (error) {
+    console.error("Message log insert failed", error.message)
+    return null
+  }
+  return (data as Pick<MessageLogRow, "id">).id
+}
+
+// Callbacks can arrive out of order, so a status only moves forward
+// (queued → sent → delivered → read). Failures are final. Returns the
+// updated row, or null when the status was stale or unknown.
+export async function applyMessageStatus(params: {
+  sid: string
+  status: MessageStatus
+  errorCode?: string | null
+  errorMessage?: string | null
+}): Promise<MessageLogRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("message_log")
+    .select("status")
+    .eq("sid", params.sid)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  const current = data as Pick<MessageLogRow, "status"> | null
+  if (!current || STATUS_RANK[params.status] <= STATUS_RANK[current.status]) {
+    return null
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("message_log")
+    .update({
+      status: params.status,
+      error_code: params.errorCode || null,
+      error_message: params.errorMessage || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq("sid", params.sid)
+    .eq("status", current.status)
+    .select("*")
+    .maybeSingle()
+  if (updateError) throw new Error(updateError.message)
+  return (updated as MessageLogRow | null) ?? null
+}
+
+export function isFailedStatus(status: MessageStatus): boolean {
+  return status === "failed" || status === "undelivered"
+}
@@ -0,0 +1,112 @@
+import type { MessageStatus } from "@/data/messages"
+import { createFakeMessagingProvider } from "@/lib/server/fakeMessaging"
+import type { TwilioSender } from "@/lib/server/senders"
+import { createTwilioProvider } from "@/lib/server/twilioProvider"
+
+// The boundary between TableBack and whoever carries WhatsApp and SMS.
+// Everything above it (sender resolution, message log, conversations, reply
+// routing) is the same for every provider.
+
+export type MessagingChannel = "whatsapp" | "sms"
+
+// to and from are E.164 numbers; the provider adds its own channel prefix.
+export type OutboundAddress = {
+  channel: MessagingChannel
+  to: string
+  from: string | null
+  messagingServiceSid: string | null
+}
+
+export type ProviderSendResult = { ok: true; sid: string } | { ok: false; error: string }
+
+// from is empty when the provider sent no usable number.
+export type InboundMessage = {
+  channel: MessagingChannel
+  from: string
+  body: string
+  sid: string | null
+}
+
+export type StatusUpdate = {
+  sid: string
+  status: MessageStatus
+  errorCode: string | null
+  errorMessage: string | null
+}
+
+// restaurantId is the restaurant whose own Twilio account signed the
+// webhook, or null for the shared platform sender.
+export type WebhookCheck =
+  | { ok: true; restaurantId: string | null }
+  | { ok: false; status: number; error: string }
+
+// Which configured URL a webhook may have been signed for, besides the URL
+// the request arrived on.
+export type WebhookKind = "whatsapp" | "sms" | "status"
+
+export interface MessagingProvider {
+  name: "twilio" | "fake"
+  // Used when neither the restaurant nor the platform has a sender, so the
+  // fake provider runs without any Twilio env vars.
+  localSender: TwilioSender | null
+  sendText(
+    sender: TwilioSender,
+    message: OutboundAddress & { body: string }
+  ): Promise<ProviderSendResult>
+  sendTemplate(
+    sender: TwilioSender,
+    message: OutboundAddress & {
+      templateSid: string
+      variables?: Record<string, string | number | boolean>
+    }
+  ): Promise<ProviderSendResult>
+  checkAccount(
+    sender: TwilioSender
+  ): Promise<{ ok: true; friendlyName: string; status: string } | { ok: false; error: string }>
+  verifyWebhook(
+    request: Request,
+    params: Record<string, string>,
+    kind: WebhookKind
+  ): Promise<WebhookCheck>
+  parseInbound(params: Record<string, string>): InboundMessage
+  parseStatus(params: Record<string, string>): StatusUpdate | null
+  // The webhook response answering an inbound message, with the reply text
+  // or empty when the guest was already answered another way.
+  respondToInbound(message: InboundMessage, replyText: string | null): Promise<Response>
+}
+
+declare global {
+  var __tablebackMessagingProvider: MessagingProvider | undefined
+}
+
+// MESSAGING_PROVIDER=fake records messages instead of sending them. It
+// accepts unsigned webhooks, so it is refused in production builds.
+export function getMessagingProvider(): MessagingProvider {
+  if (!globalThis.__tablebackMessagingProvider) {
+    const wantsFake = process.env.MESSAGING_PROVIDER?.trim() === "fake"
+    if (wantsFake && process.env.NODE_ENV === "production") {
+      console.error("MESSAGING_PROVIDER=fake wordt genegeerd in productie; Twilio wordt gebruikt.")
+    }
+    globalThis.__tablebackMessagingProvider =
+      wantsFake && process.env.NODE_ENV !== "production"
+        ? createFakeMessagingProvider()
+        : createTwilioProvider()
+  }
+  return globalThis.__tablebackMessagingProvider
+}
+
+// Webhooks post form data; only string fields matter. null when the body
+// is not form data.
+export async function readWebhookParams(
+  request: Request
+): Promise<Record<string, string> | null> {
+  const formData = await request.formData().catch(() => null)
+  if (!formData) return null
+  const params: Record<string, string> = {}
+  for (const [key, value] of formData.entries()) {
+    if (typeof value === "string") {
+      params[key] = value
+    }
+  }
+  return params
+}
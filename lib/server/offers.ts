@@ -0,0 +1,804 @@
+import type { RestaurantTable } from "@/data/tables"
+import { getPhoneLookupKeys, normalizePhone } from "@/lib/phone"
+import { startConversation } from "@/lib/server/conversations"
+import {
+  loadRestaurantContext,
+  loadRestaurantContexts,
+  type RestaurantContext
+} from "@/lib/server/restaurants"
+import {
+  parseTimestamp,
+  reservationFromRow,
+  type ReservationRow,
+  type WaitlistOfferRow,
+  type WaitlistRow
+} from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { loadRestaurantTables } from "@/lib/server/tables"
+import {
+  sendSmsMessage,
+  sendWhatsAppMessage
+} from "@/lib/server/twilio"
+import { sendImmediateSmsFallback, usesSmsFallback } from "@/lib/server/smsFallback"
+import { sendEmailMessage } from "@/lib/server/email"
+import { buildOfferClosedEmail, buildOfferEmail } from "@/lib/server/emailTemplates"
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { buildResponseLinks } from "@/lib/server/responseLinks"
+import {
+  isEmailChannel,
+  isSmsChannel,
+  isWhatsAppChannel,
+  supportsReplyAutomation
+} from "@/lib/shared/settings"
+import { getGuestLocale, resolveGuestLanguage } from "@/lib/shared/languages"
+import { rankWaitlistCandidates } from "@/lib/shared/matching"
+import { FREED_RESERVATION_STATUSES } from "@/lib/shared/reservationStatus"
+import { seatsForReservation } from "@/lib/shared/tables"
+import { renderTemplate } from "@/lib/shared/templates"
+import { formatDateKey, formatTimeKey, getDateKeyInZone, shiftDateKey } from "@/lib/shared/time"
+
+// Offers are the single source of truth for "this freed table was offered to
+// this waitlist guest". Every transition is a compare-and-set: an offer round
+// first claims the reservation (status "offered"), and an accepted offer
+// only fills it while it is still offered. A broadcast round puts several
+// pending offers on one reservation; the first guest to accept fills it and
+// the others are cancelled, so concurrent cron runs, webhooks and hosts
+// cannot double-offer or double-resolve a table.
+
+export type OfferResult =
+  | { ok: true; offerId: string }
+  | { ok: false; error: string; status: number }
+
+// errors lists the guests who could not be reached while others were.
+export type OfferRoundResult =
+  | { ok: true; offerIds: string[]; errors: string[] }
+  | { ok: false; error: string; status: number }
+
+export type OfferReplyOutcome = "pending" | "accepted" | "declined" | "closed"
+
+export type WaitlistMatchingSummary = {
+  offersSent: number
+  offersExpired: number
+  unfilled: number
+  errors: string[]
+}
+
+function isUniqueViolation(error: { code?: string } | null): boolean {
+  return error?.code === "23505"
+}
+
+async function releaseOffer(
+  offer: WaitlistOfferRow,
+  status: "declined" | "expired" | "cancelled",
+  waitlistStatus: "declined" | "waiting",
+  now: number
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .update({ status, resolved_at: new Date(now).toISOString() })
+    .eq("id", offer.id)
+    .eq("status", "pending")
+    .select("id")
+  if (error) throw new Error(error.message)
+  if (!data || data.length === 0) return false
+
+  // Offers of one round share created_at. The table is only free again once
+  // none of them is still open or being accepted.
+  const { count, error: roundError } = await supabaseAdmin
+    .from("waitlist_offers")
+    .select("id", { count: "exact", head: true })
+    .eq("reservation_id", offer.reservation_id)
+    .eq("created_at", offer.created_at)
+    .in("status", ["pending", "accepted"])
+  if (roundError) throw new Error(roundError.message)
+
+  if (!count) {
+    const { error: reservationError } = await supabaseAdmin
+      .from("reservations")
+      .update({ status: offer.fallback_status })
+      .eq("id", offer.reservation_id)
+      .eq("status", "offered")
+    if (reservationError) throw new Error(reservationError.message)
+  }
+
+  if (offer.waitlist_id) {
+    const { error: waitlistError } = await supabaseAdmin
+      .from("waitlist")
+      .update({ status: waitlistStatus })
+      .eq("id", offer.waitlist_id)
+    if (waitlistError) throw new Error(waitlistError.message)
+  }
+
+  return true
+}
+
+async function acceptOffer(offer: WaitlistOfferRow, now: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .update({ status: "accepted", resolved_at: new Date(now).toISOString() })
+    .eq("id", offer.id)
+    .eq("status", "pending")
+    .gt("expires_at", new Date(now).toISOString())
+    .select("id")
+  if (error) throw new Error(error.message)
+  if (!data || data.length === 0) return false
+
+  const { data: reservation, error: reservationLookupError } = await supabaseAdmin
+    .from("reservations")
+    .select("name,original_guest_name")
+    .eq("id", offer.reservation_id)
+    .maybeSingle()
+  if (reservationLookupError) throw new Error(reservationLookupError.message)
+
+  const { data: filled, error: reservationError } = await supabaseAdmin
+    .from("reservations")
+    .update({
+      status: "refilled",
+      original_guest_name:
+        reservation?.original_guest_name ?? reservation?.name ?? null,
+      name: offer.guest_name,
+      phone: offer.guest_phone,
+      language: resolveGuestLanguage(offer.guest_language, offer.guest_phone),
+      // The waiting party may be smaller or larger than the guests who left.
+      party_size: offer.guest_party_size ?? undefined,
+      filled_from_waitlist: true
+    })
+    .eq("id", offer.reservation_id)
+    .eq("status", "offered")
+    .select("id")
+  if (reservationError) throw new Error(reservationError.message)
+
+  // Another guest of the same round was faster: this guest goes back on the
+  // waitlist and hears that the table is taken.
+  if (!filled || filled.length === 0) {
+    const { error: undoError } = await supabaseAdmin
+      .from("waitlist_offers")
+      .update({ status: "cancelled" })
+      .eq("id", offer.id)
+      .eq("status", "accepted")
+    if (undoError) throw new Error(undoError.message)
+    if (offer.waitlist_id) {
+      const { error: waitlistError } = await supabaseAdmin
+        .from("waitlist")
+        .update({ status: "waiting" })
+        .eq("id", offer.waitlist_id)
+      if (waitlistError) throw new Error(waitlistError.message)
+    }
+    return false
+  }
+
+  if (offer.waitlist_id) {
+    const { error: waitlistError } = await supabaseAdmin
+      .from("waitlist")
+      .delete()
+      .eq("id", offer.waitlist_id)
+    if (waitlistError) throw new Error(waitlistError.message)
+  }
+
+  await closeCompetingOffers(offer, now)
+  return true
+}
+
+// Cancels the other pending offers for the accepted table and tells those
+// guests it is taken. Their conversations stay open, so a late JA still gets
+// the same answer from the webhook.
+async function closeCompetingOffers(accepted: WaitlistOfferRow, now: number): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .select("*")
+    .eq("reservation_id", accepted.reservation_id)
+    .eq("status", "pending")
+  if (error) throw new Error(error.message)
+
+  const closed: WaitlistOfferRow[] = []
+  for (const offer of (data ?? []) as WaitlistOfferRow[]) {
+    if (await releaseOffer(offer, "cancelled", "waiting", now)) closed.push(offer)
+  }
+  if (closed.length === 0) return
+
+  const restaurant = await loadRestaurantContext(accepted.restaurant_id)
+  if (!restaurant) return
+  const channel = restaurant.automationSettings.preferredChannel
+
+  const emails = new Map<string, string>()
+  const waitlistIds = closed.flatMap(offer => (offer.waitlist_id ? [offer.waitlist_id] : []))
+  if (isEmailChannel(channel) && waitlistIds.length > 0) {
+    const { data: entries, error: entriesError } = await supabaseAdmin
+      .from("waitlist")
+      .select("id,email")
+      .in("id", waitlistIds)
+    if (entriesError) throw new Error(entriesError.message)
+    for (const entry of (entries ?? []) as Pick<WaitlistRow, "id" | "email">[]) {
+      if (entry.email) emails.set(entry.id, entry.email)
+    }
+  }
+
+  for (const offer of closed) {
+    const language = resolveGuestLanguage(offer.guest_language, offer.guest_phone)
+    const text = GUEST_COPY[language].replies.offerClosed
+    const log = { restaurantId: restaurant.id, reservationId: offer.reservation_id }
+    const errors: string[] = []
+    if (isWhatsAppChannel(channel)) {
+      const result = await sendWhatsAppMessage({
+        restaurantId: restaurant.id,
+        to: offer.guest_phone,
+        body: text,
+        language,
+        log
+      })
+      if (!result.ok) errors.push(`WhatsApp fout: ${result.error}`)
+    }
+    if (isSmsChannel(channel)) {
+      const result = await sendSmsMessage({
+        restaurantId: restaurant.id,
+        to: offer.guest_phone,
+        body: text,
+        log
+      })
+      if (!result.ok) errors.push(`SMS fout: ${result.error}`)
+    }
+    const email = offer.waitlist_id ? emails.get(offer.waitlist_id) : undefined
+    if (isEmailChannel(channel) && email) {
+      const result = await sendEmailMessage({
+        to: email,
+        ...buildOfferClosedEmail({ language, restaurantName: restaurant.name }),
+        log
+      })
+      if (!result.ok) errors.push(`E-mail fout: ${result.error}`)
+    }
+    if (errors.length > 0) {
+      console.error("Offer closed notice failed", { offerId: offer.id, errors })
+    }
+  }
+}
+
+// Sends one offer on the restaurant's channel. Returns the errors of the
+// channels that failed, and whether any of them reached the guest.
+async function sendOfferMessages(params: {
+  restaurant: RestaurantContext
+  reservation: ReservationRow
+  entry: WaitlistRow
+  offer: WaitlistOfferRow
+  expiresAt: number
+}): Promise<{ delivered: boolean; errors: string[] }> {
+  const { restaurant, reservation, entry, offer, expiresAt } = params
+  const channel = restaurant.automationSettings.preferredChannel
+  const language = resolveGuestLanguage(offer.guest_language, offer.guest_phone)
+  const guestLocale = getGuestLocale(language, restaurant.localeSettings.locale)
+  const reservationDate = formatDateKey(
+    reservationFromRow(reservation, restaurant.localeSettings.timeZone).date,
+    guestLocale
+  )
+  const reservationTime = formatTimeKey(reservation.time, guestLocale)
+  const text = renderTemplate(restaurant.messageTemplates[language].waitlist_offer, {
+    name: entry.name,
+    restaurant: restaurant.name,
+    date: reservationDate,
+    time: reservationTime,
+    partySize: entry.party_size,
+    minutes: restaurant.automationSettings.waitlistResponseMinutes
+  })
+  const copy = GUEST_COPY[language]
+  const links = buildResponseLinks({ kind: "offer", id: offer.id }, expiresAt, language)
+  const smsBody = links
+    ? `${text} ${copy.smsLinkLabels.yes}: ${links.yes} ${copy.smsLinkLabels.no}: ${links.no}`
+    : `${text} ${copy.offerReplyInstructions}`
+  const errors: string[] = []
+  let delivered = false
+  if (isWhatsAppChannel(channel)) {
+    const result = await sendWhatsAppMessage({
+      restaurantId: restaurant.id,
+      to: offer.guest_phone,
+      body: `${text} ${copy.offerReplyInstructions}`,
+      templateKey: "waitlist_offer",
+      templateVariables: {
+        "1": entry.name,
+        "2": restaurant.name,
+        "3": reservationDate,
+        "4": reservationTime
+      },
+      language,
+      log: {
+        restaurantId: restaurant.id,
+        reservationId: reservation.id,
+        smsFallback: usesSmsFallback(restaurant.automationSettings)
+          ? { conversationId: offer.id, body: smsBody }
+          : null
+      }
+    })
+    if (result.ok) {
+      delivered = true
+    } else {
+      const fallbackErrors = await sendImmediateSmsFallback(
+        result.logId,
+        `WhatsApp fout: ${result.error}`
+      )
+      if (fallbackErrors.length === 0) delivered = true
+      errors.push(...fallbackErrors)
+    }
+  }
+  if (isSmsChannel(channel)) {
+    const result = await sendSmsMessage({
+      restaurantId: restaurant.id,
+      to: offer.guest_phone,
+      body: smsBody,
+      log: { restaurantId: restaurant.id, reservationId: reservation.id }
+    })
+    if (result.ok) delivered = true
+    else errors.push(`SMS fout: ${result.error}`)
+  }
+  if (isEmailChannel(channel) && entry.email) {
+    const content = buildOfferEmail({
+      language,
+      restaurantName: restaurant.name,
+      text,
+      links
+    })
+    const result = await sendEmailMessage({
+      to: entry.email,
+      ...content,
+      log: { restaurantId: restaurant.id, reservationId: reservation.id }
+    })
+    if (result.ok) delivered = true
+    else errors.push(`E-mail fout: ${result.error}`)
+  }
+  return { delivered, errors }
+}
+
+// Offers one freed table to one or more waitlist guests at once. Guests
+// that cannot be reached are skipped; the round fails only when nobody got
+// the offer, and the table is then released again.
+export async function createWaitlistOffers(params: {
+  restaurant: RestaurantContext
+  reservation: ReservationRow
+  entries: WaitlistRow[]
+  // The cascade's remaining queue, stored with the claim. Manual offers
+  // leave it untouched.
+  queue?: string[]
+  now?: number
+}): Promise<OfferRoundResult> {
+  const { restaurant, reservation } = params
+  const now = params.now ?? Date.now()
+  const channel = restaurant.automationSettings.preferredChannel
+  const errors: string[] = []
+  const entries: { entry: WaitlistRow; guestPhone: string }[] = []
+  for (const entry of params.entries) {
+    const guestPhone = normalizePhone(entry.phone)
+    if (!guestPhone) errors.push(`Ongeldig telefoonnummer voor ${entry.name}.`)
+    else if (isEmailChannel(channel) && !entry.email) {
+      errors.push(`Geen e-mailadres voor ${entry.name}.`)
+    } else entries.push({ entry, guestPhone })
+  }
+  if (entries.length === 0) {
+    return { ok: false, error: errors.join(" ") || "Geen gasten om aan te bieden.", status: 400 }
+  }
+
+  const attempts = reservation.offer_attempts ?? 0
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("reservations")
+    .update({
+      status: "offered",
+      offer_attempts: attempts + 1,
+      ...(params.queue ? { waitlist_queue: params.queue } : {})
+    })
+    .eq("id", reservation.id)
+    .eq("status", reservation.status)
+    .eq("offer_attempts", attempts)
+    .select("id")
+  if (claimError || !claimed || claimed.length === 0) {
+    return {
+      ok: false,
+      error: claimError?.message ?? "Deze tafel is niet meer beschikbaar.",
+      status: claimError ? 500 : 409
+    }
+  }
+
+  const responseTimeoutMs =
+    Math.max(restaurant.automationSettings.waitlistResponseMinutes, 1) * 60000
+  const expiresAt = now + responseTimeoutMs
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from("waitlist_offers")
+    .insert(
+      entries.map(({ entry, guestPhone }) => ({
+        restaurant_id: restaurant.id,
+        reservation_id: reservation.id,
+        waitlist_id: entry.id,
+        guest_name: entry.name,
+        guest_phone: guestPhone,
+        guest_language: resolveGuestLanguage(entry.language, entry.phone),
+        guest_party_size: entry.party_size,
+        phone_keys: getPhoneLookupKeys(guestPhone),
+        status: "pending",
+        fallback_status: reservation.status,
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(expiresAt).toISOString()
+      }))
+    )
+    .select("*")
+  const offers = (inserted ?? []) as WaitlistOfferRow[]
+  if (insertError || offers.length !== entries.length) {
+    await supabaseAdmin
+      .from("reservations")
+      .update({
+        status: reservation.status,
+        offer_attempts: attempts,
+        ...(params.queue ? { waitlist_queue: reservation.waitlist_queue ?? null } : {})
+      })
+      .eq("id", reservation.id)
+      .eq("status", "offered")
+    if (isUniqueViolation(insertError)) {
+      return { ok: false, error: "Er loopt al een aanbod voor deze tafel.", status: 409 }
+    }
+    return {
+      ok: false,
+      error: insertError?.message ?? "Kon aanbod niet aanmaken.",
+      status: 500
+    }
+  }
+
+  const { error: waitlistError } = await supabaseAdmin
+    .from("waitlist")
+    .update({ status: "contacted", last_contacted_at: new Date(now).toISOString() })
+    .in("id", entries.map(({ entry }) => entry.id))
+  if (waitlistError) {
+    for (const offer of offers) {
+      await releaseOffer(offer, "cancelled", "waiting", now)
+    }
+    return { ok: false, error: waitlistError.message, status: 500 }
+  }
+
+  const offerIds: string[] = []
+  for (const offer of offers) {
+    const entry = entries.find(({ entry }) => entry.id === offer.waitlist_id)?.entry
+    if (!entry) continue
+    try {
+      await startConversation({
+        restaurantId: restaurant.id,
+        phone: offer.guest_phone,
+        conversationId: offer.id,
+        conversationType: "waitlist_offer",
+        offerExpiresAt: expiresAt
+      })
+    } catch (error) {
+      await releaseOffer(offer, "cancelled", "waiting", now)
+      errors.push(
+        `${entry.name}: ${error instanceof Error ? error.message : "Kon gesprek niet starten."}`
+      )
+      continue
+    }
+
+    const delivery = await sendOfferMessages({ restaurant, reservation, entry, offer, expiresAt })
+    if (delivery.delivered) {
+      offerIds.push(offer.id)
+    } else {
+      await releaseOffer(offer, "cancelled", "waiting", now)
+      errors.push(
+        entries.length > 1 && delivery.errors.length > 0
+          ? `${entry.name}: ${delivery.errors.join(" ")}`
+          : delivery.errors.join(" ")
+      )
+    }
+  }
+
+  if (offerIds.length === 0) {
+    return {
+      ok: false,
+      error: errors.filter(Boolean).join(" ") || "Geen kanaal beschikbaar voor dit aanbod.",
+      status: 502
+    }
+  }
+
+  return { ok: true, offerIds, errors: errors.filter(Boolean) }
+}
+
+export async function createWaitlistOffer(params: {
+  restaurant: RestaurantContext
+  reservation: ReservationRow
+  entry: WaitlistRow
+  now?: number
+}): Promise<OfferResult> {
+  const result = await createWaitlistOffers({
+    restaurant: params.restaurant,
+    reservation: params.reservation,
+    entries: [params.entry],
+    now: params.now
+  })
+  if (!result.ok) return result
+  return { ok: true, offerId: result.offerIds[0] }
+}
+
+export async function expireWaitlistOffers(now = Date.now()): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .select("*")
+    .eq("status", "pending")
+    .lte("expires_at", new Date(now).toISOString())
+  if (error) throw new Error(error.message)
+
+  let expired = 0
+  for (const offer of (data ?? []) as WaitlistOfferRow[]) {
+    if (await releaseOffer(offer, "expired", "declined", now)) expired += 1
+  }
+  return expired
+}
+
+// Applies an inbound JA/NEE to one offer. A null reply (anything else the
+// guest wrote) leaves a pending offer open.
+export async function resolveWaitlistOfferReply(params: {
+  offerId: string
+  reply: "yes" | "no" | null
+  now?: number
+}): Promise<OfferReplyOutcome> {
+  const now = params.now ?? Date.now()
+  const { data, error } = await supabaseAdmin
+    .from("waitlist_offers")
+    .select("*")
+    .eq("id", params.offerId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  const offer = data as WaitlistOfferRow | null
+  if (!offer) return "closed"
+  if (offer.status !== "pending") return "closed"
+
+  if ((parseTimestamp(offer.expires_at) ?? 0) <= now) {
+    await releaseOffer(offer, "expired", "declined", now)
+    return "closed"
+  }
+
+  if (params.reply === "yes") {
+    return (await acceptOffer(offer, now)) ? "accepted" : "closed"
+  }
+  if (params.reply === "no") {
+    if (!(await releaseOffer(offer, "declined", "declined", now))) return "closed"
+    // The guest already declined; a failing next round is for the cron run
+    // to retry, not for this reply.
+    try {
+      await continueOfferCascade(offer.reservation_id, now)
+    } catch (error) {
+      console.error("Offer cascade failed", {
+        reservationId: offer.reservation_id,
+        error: error instanceof Error ? error.message : error
+      })
+    }
+    return "declined"
+  }
+  return "pending"
+}
+
+type WaitingCandidate = {
+  row: WaitlistRow
+  partySize: number
+  waitingSince: number
+}
+
+// Waiting guests the restaurant's channel can reach, oldest first.
+async function loadWaitingCandidates(
+  restaurant: RestaurantContext,
+  now: number
+): Promise<WaitingCandidate[]> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist")
+    .select("*")
+    .eq("restaurant_id", restaurant.id)
+    .eq("status", "waiting")
+    .order("created_at", { ascending: true })
+  if (error) throw new Error(error.message)
+
+  const needsEmail = isEmailChannel(restaurant.automationSettings.preferredChannel)
+  return ((data ?? []) as WaitlistRow[])
+    .filter(
+      candidate =>
+        Boolean(normalizePhone(candidate.phone)) && (!needsEmail || Boolean(candidate.email))
+    )
+    .map(row => ({
+      row,
+      partySize: row.party_size,
+      waitingSince: parseTimestamp(row.created_at) ?? now
+    }))
+}
+
+type CascadeStep =
+  | { kind: "offered"; offerIds: string[]; errors: string[]; entries: WaitlistRow[] }
+  | { kind: "unfilled" }
+  | { kind: "skipped" }
+  | { kind: "failed"; error: string; entries: WaitlistRow[] }
+
+// Sends the next round for one freed table. The queue is ranked once when
+// the table frees up and stored on the reservation; each round takes the
+// next guests who are still waiting, and guests who joined since line up
+// behind it. A guest is offered a table at most once. Once the queue is
+// empty or waitlistMaxAttempts rounds went out, the table is unfilled.
+// Guests are matched to the seats of the reservation's tables.
+async function advanceOfferCascade(params: {
+  restaurant: RestaurantContext
+  reservation: ReservationRow
+  tables: RestaurantTable[]
+  candidates: WaitingCandidate[]
+  // Guests already offered another table in the same run.
+  exclude: Set<string>
+  now: number
+}): Promise<CascadeStep> {
+  const { restaurant, reservation, tables, candidates, exclude, now } = params
+  const settings = restaurant.automationSettings
+  const { timeZone } = restaurant.localeSettings
+  // Only today's tables are offered; a cancellation for another day keeps
+  // its status until that day comes.
+  if (reservationFromRow(reservation, timeZone).date !== getDateKeyInZone(now, timeZone)) {
+    return { kind: "skipped" }
+  }
+
+  let entries: WaitlistRow[] = []
+  let queue: string[] = []
+  if ((reservation.offer_attempts ?? 0) < settings.waitlistMaxAttempts) {
+    const { data: history, error: historyError } = await supabaseAdmin
+      .from("waitlist_offers")
+      .select("waitlist_id")
+      .eq("reservation_id", reservation.id)
+    if (historyError) throw new Error(historyError.message)
+    const alreadyOffered = new Set(
+      ((history ?? []) as Pick<WaitlistOfferRow, "waitlist_id">[]).map(row => row.waitlist_id)
+    )
+
+    const ranked = rankWaitlistCandidates(
+      seatsForReservation(
+        { partySize: reservation.party_size, tableIds: reservation.table_ids ?? [] },
+        tables
+      ),
+      candidates.filter(
+        candidate => !exclude.has(candidate.row.id) && !alreadyOffered.has(candidate.row.id)
+      ),
+      settings
+    ).map(match => match.candidate.row)
+    const rankedById = new Map(ranked.map(row => [row.id, row]))
+    const stored = reservation.waitlist_queue ?? []
+    queue = [
+      ...stored.filter(id => rankedById.has(id)),
+      ...ranked.map(row => row.id).filter(id => !stored.includes(id))
+    ]
+
+    const roundSize = settings.waitlistOfferMode === "broadcast" ? settings.waitlistBroadcastSize : 1
+    entries = queue.slice(0, roundSize).flatMap(id => {
+      const row = rankedById.get(id)
+      return row ? [row] : []
+    })
+    queue = queue.slice(roundSize)
+  }
+
+  if (entries.length === 0) {
+    const { data: updated, error } = await supabaseAdmin
+      .from("reservations")
+      .update({ status: "unfilled", waitlist_queue: [] })
+      .eq("id", reservation.id)
+      .in("status", FREED_RESERVATION_STATUSES)
+      .select("id")
+    if (error) return { kind: "failed", error: error.message, entries }
+    return updated && updated.length > 0 ? { kind: "unfilled" } : { kind: "skipped" }
+  }
+
+  const result = await createWaitlistOffers({ restaurant, reservation, entries, queue, now })
+  if (result.ok) return { kind: "offered", ...result, entries }
+  if (result.status === 409) return { kind: "skipped" }
+  return { kind: "failed", error: result.error, entries }
+}
+
+// A declined table goes to the next guest in its queue right away instead
+// of waiting for the next cron run.
+async function continueOfferCascade(reservationId: string, now: number): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .eq("id", reservationId)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  // Still offered while other guests of a broadcast round can answer.
+  const reservation = data as ReservationRow | null
+  if (!reservation?.restaurant_id || !FREED_RESERVATION_STATUSES.includes(reservation.status)) return
+
+  const restaurant = await loadRestaurantContext(reservation.restaurant_id)
+  if (!restaurant) return
+  if (!supportsReplyAutomation(restaurant.automationSettings.preferredChannel)) return
+
+  const step = await advanceOfferCascade({
+    restaurant,
+    reservation,
+    tables: await loadRestaurantTables(restaurant.id),
+    candidates: await loadWaitingCandidates(restaurant, now),
+    exclude: new Set(),
+    now
+  })
+  if (step.kind === "failed") throw new Error(step.error)
+}
+
+// Moves the cascade of every cancelled or no-show table of today, in the
+// restaurant's time zone, one round forward: to the next guests in its
+// queue, or "unfilled" once none are left.
+export async function runWaitlistMatching(
+  now = Date.now()
+): Promise<WaitlistMatchingSummary> {
+  const summary: WaitlistMatchingSummary = {
+    offersSent: 0,
+    offersExpired: await expireWaitlistOffers(now),
+    unfilled: 0,
+    errors: []
+  }
+
+  // Today somewhere lies within a day of today in UTC; each restaurant's own
+  // today is picked out below. Rows without reservation_date are legacy.
+  const utcToday = getDateKeyInZone(now, "UTC")
+  const { data: expiredRows, error: expiredError } = await supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .in("status", FREED_RESERVATION_STATUSES)
+    .or(
+      `reservation_date.is.null,and(reservation_date.gte.${shiftDateKey(utcToday, -1)},reservation_date.lte.${shiftDateKey(utcToday, 1)})`
+    )
+    .order("created_at", { ascending: true })
+  if (expiredError) throw new Error(expiredError.message)
+
+  const rowsByRestaurant = new Map<string, ReservationRow[]>()
+  for (const row of (expiredRows ?? []) as ReservationRow[]) {
+    if (!row.restaurant_id) continue
+    const rows = rowsByRestaurant.get(row.restaurant_id) ?? []
+    rows.push(row)
+    rowsByRestaurant.set(row.restaurant_id, rows)
+  }
+
+  const restaurants = await loadRestaurantContexts([...rowsByRestaurant.keys()])
+  for (const [restaurantId, rows] of rowsByRestaurant) {
+    const restaurant = restaurants.get(restaurantId)
+    if (!restaurant) continue
+    if (!supportsReplyAutomation(restaurant.automationSettings.preferredChannel)) continue
+    const { timeZone } = restaurant.localeSettings
+    const today = getDateKeyInZone(now, timeZone)
+    const todaysRows = rows.filter(row => reservationFromRow(row, timeZone).date === today)
+    if (todaysRows.length === 0) continue
+
+    let candidates: WaitingCandidate[]
+    let tables: RestaurantTable[]
+    try {
+      candidates = await loadWaitingCandidates(restaurant, now)
+      tables = await loadRestaurantTables(restaurant.id)
+    } catch (error) {
+      summary.errors.push(
+        `${restaurant.name}: ${error instanceof Error ? error.message : "Kon wachtlijst niet laden."}`
+      )
+      continue
+    }
+    const offeredWaitlistIds = new Set<string>()
+
+    for (const reservation of todaysRows) {
+      let step: CascadeStep
+      try {
+        step = await advanceOfferCascade({
+          restaurant,
+          reservation,
+          tables,
+          candidates,
+          exclude: offeredWaitlistIds,
+          now
+        })
+      } catch (error) {
+        summary.errors.push(
+          `${reservation.name}: ${error instanceof Error ? error.message : "Onbekende fout."}`
+        )
+        continue
+      }
+
+      if (step.kind === "unfilled") {
+        summary.unfilled += 1
+      } else if (step.kind === "offered") {
+        for (const entry of step.entries) offeredWaitlistIds.add(entry.id)
+        summary.offersSent += step.offerIds.length
+        summary.errors.push(...step.errors.map(error => `${reservation.name}: ${error}`))
+      } else if (step.kind === "failed") {
+        for (const entry of step.entries) offeredWaitlistIds.add(entry.id)
+        const label = step.entries.length === 1 ? step.entries[0].name : reservation.name
+        summary.errors.push(`${label}: ${step.error}`)
+      }
+    }
+  }
+
+  return summary
+}
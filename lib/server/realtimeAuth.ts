@@ -0,0 +1,41 @@
+import { createHmac } from "node:crypto"
+
+// Realtime knows nothing of our cookie sessions, and the anon key may not
+// read guest data. The dashboard gets a short-lived Supabase JWT, signed
+// with the project's SUPABASE_JWT_SECRET, that names its restaurant; the
+// realtime.messages policy only lets it join that restaurant's private
+// channel, where database triggers broadcast the row changes. Its role is
+// tableback_realtime, not authenticated: that role is granted nothing but
+// realtime.messages, so PostgREST gives the same token no table access.
+
+const REALTIME_ROLE = "tableback_realtime"
+
+const REALTIME_TOKEN_TTL_MS = 60 * 60 * 1000
+
+function getSecret(): string | null {
+  return process.env.SUPABASE_JWT_SECRET?.trim() || null
+}
+
+function encodePart(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url")
+}
+
+export function createRealtimeToken(
+  params: { userId: string; restaurantId: string },
+  now: number
+): { token: string; expiresAt: number } | null {
+  const secret = getSecret()
+  if (!secret) return null
+
+  const expiresAt = now + REALTIME_TOKEN_TTL_MS
+  const unsigned = `${encodePart({ alg: "HS256", typ: "JWT" })}.${encodePart({
+    sub: params.userId,
+    role: REALTIME_ROLE,
+    aud: "authenticated",
+    restaurant_id: params.restaurantId,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(expiresAt / 1000)
+  })}`
+  const signature = createHmac("sha256", secret).update(unsigned).digest("base64url")
+  return { token: `${unsigned}.${signature}`, expiresAt }
+}
@@ -0,0 +1,347 @@
+import {
+  closeConversation,
+  getConversationStore,
+  type ConversationRecord
+} from "@/lib/server/conversations"
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { resolveWaitlistOfferReply, type OfferReplyOutcome } from "@/lib/server/offers"
+import { loadRestaurantContext, loadRestaurantContexts } from "@/lib/server/restaurants"
+import type { ResponseLinkTarget } from "@/lib/server/responseLinks"
+import { findRestaurantsWithOwnSender } from "@/lib/server/senders"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { isUuid } from "@/lib/server/validation"
+import {
+  reservationFromRow,
+  type ReservationRow,
+  type WaitlistOfferRow
+} from "@/lib/shared/rows"
+import {
+  getGuestLocale,
+  resolveGuestLanguage,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import { renderTemplate } from "@/lib/shared/templates"
+import { formatDateKey, formatTimeKey } from "@/lib/shared/time"
+
+export type ReservationReplyOutcome = "confirmed" | "cancelled" | "pending" | "closed"
+
+// language is the guest's, so the automatic reply can be written in it.
+export type InboundReplyResult =
+  | { kind: "none"; language: GuestLanguage }
+  | { kind: "offer"; outcome: OfferReplyOutcome; language: GuestLanguage }
+  | {
+      kind: "reservation"
+      language: GuestLanguage
+      outcome: ReservationReplyOutcome
+      restaurantId: string
+      reservationId: string
+      // Set when the guest has more than one reservation waiting for an
+      // answer, so the reply can say which one was handled and which is next.
+      answered: string | null
+      nextOpen: string | null
+    }
+
+type Candidate =
+  | { record: ConversationRecord; offer: WaitlistOfferRow }
+  | { record: ConversationRecord; reservation: ReservationRow }
+
+async function loadCandidates(
+  open: ConversationRecord[]
+): Promise<{ candidates: Candidate[]; hadClosedOffer: boolean }> {
+  // Older manual sends opened conversations with ids like "direct"; they
+  // match nothing below and get closed.
+  const offerIds = open
+    .filter(record => record.conversationType === "waitlist_offer")
+    .map(record => record.conversationId)
+    .filter(isUuid)
+  const reservationIds = open
+    .filter(record => record.conversationType === "reservation_confirmation")
+    .map(record => record.conversationId)
+    .filter(isUuid)
+
+  const [offersResult, reservationsResult] = await Promise.all([
+    offerIds.length > 0
+      ? supabaseAdmin.from("waitlist_offers").select("*").in("id", offerIds)
+      : Promise.resolve({ data: [], error: null }),
+    reservationIds.length > 0
+      ? supabaseAdmin.from("reservations").select("*").in("id", reservationIds)
+      : Promise.resolve({ data: [], error: null })
+  ])
+  if (offersResult.error) throw new Error(offersResult.error.message)
+  if (reservationsResult.error) throw new Error(reservationsResult.error.message)
+
+  const offers = new Map(
+    ((offersResult.data ?? []) as WaitlistOfferRow[]).map(offer => [offer.id, offer])
+  )
+  const reservations = new Map(
+    ((reservationsResult.data ?? []) as ReservationRow[]).map(row => [row.id, row])
+  )
+
+  const candidates: Candidate[] = []
+  let hadClosedOffer = false
+  for (const record of open) {
+    if (record.conversationType === "waitlist_offer") {
+      const offer = offers.get(record.conversationId)
+      if (offer?.status === "pending" && offer.restaurant_id === record.restaurantId) {
+        candidates.push({ record, offer })
+        continue
+      }
+      hadClosedOffer = true
+    } else {
+      const reservation = reservations.get(record.conversationId)
+      if (
+        reservation?.status === "booked" &&
+        reservation.restaurant_id === record.restaurantId
+      ) {
+        candidates.push({ record, reservation })
+        continue
+      }
+    }
+    // The host, the cron job or an earlier reply already settled it.
+    await closeConversation(record, { text: "", confirmed: false, declined: false })
+  }
+
+  return { candidates, hadClosedOffer }
+}
+
+function reservationLanguage(row: ReservationRow): GuestLanguage {
+  return resolveGuestLanguage(row.language, row.phone ?? "")
+}
+
+async function describeReservations(
+  rows: ReservationRow[],
+  language: GuestLanguage
+): Promise<Map<string, string>> {
+  const restaurants = await loadRestaurantContexts([
+    ...new Set(rows.flatMap(row => (row.restaurant_id ? [row.restaurant_id] : [])))
+  ])
+  const descriptions = new Map<string, string>()
+  for (const row of rows) {
+    const restaurant = row.restaurant_id ? restaurants.get(row.restaurant_id) : undefined
+    const locale = getGuestLocale(language, restaurant?.localeSettings.locale ?? "nl-BE")
+    descriptions.set(
+      row.id,
+      GUEST_COPY[language].describeReservation(
+        row.reservation_date ? formatDateKey(row.reservation_date, locale) : "",
+        formatTimeKey(row.time, locale),
+        restaurant?.name ?? null
+      )
+    )
+  }
+  return descriptions
+}
+
+async function resolveReservationReply(
+  record: ConversationRecord,
+  reply: "yes" | "no" | null,
+  text: string
+): Promise<ReservationReplyOutcome> {
+  if (!reply) {
+    await getConversationStore().save({ ...record, lastReply: text })
+    return "pending"
+  }
+
+  const applied = await settleReservation(record.restaurantId, record.conversationId, reply)
+  await closeConversation(record, {
+    text,
+    confirmed: reply === "yes",
+    declined: reply === "no"
+  })
+  if (!applied) return "closed"
+  return reply === "yes" ? "confirmed" : "cancelled"
+}
+
+// A cancelled table is freed just like a no-show, so the waitlist engine
+// picks it up on its next run. Returns false when the reservation was no
+// longer waiting for an answer.
+async function settleReservation(
+  restaurantId: string,
+  reservationId: string,
+  reply: "yes" | "no"
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .update({ status: reply === "yes" ? "confirmed" : "cancelled" })
+    .eq("id", reservationId)
+    .eq("restaurant_id", restaurantId)
+    .eq("status", "booked")
+    .select("id")
+  if (error) throw new Error(error.message)
+  return Boolean(data && data.length > 0)
+}
+
+// Routes an inbound JA/NEE to one open conversation for this phone number
+// at the restaurant whose sender received it (for the shared platform
+// sender, restaurantId null, any restaurant without a sender of its own):
+// 1. Conversations whose reservation or offer is already settled are closed
+//    and skipped.
+// 2. A pending waitlist offer wins over reservation reminders: it expires
+//    within minutes and is what the guest most likely just received.
+// 3. Otherwise the most recently started reservation conversation wins. The
+//    others stay open, and the reply tells the guest which one is next.
+// language is used when nothing is open for the number and the guest's own
+// language is therefore unknown.
+export async function routeInboundReply(params: {
+  phone: string
+  restaurantId: string | null
+  text: string
+  reply: "yes" | "no" | null
+  language: GuestLanguage
+  now?: number
+}): Promise<InboundReplyResult> {
+  let open = await getConversationStore().findOpenByPhone(params.phone, params.restaurantId)
+  if (!params.restaurantId) {
+    const ownSenders = await findRestaurantsWithOwnSender([
+      ...new Set(open.map(record => record.restaurantId))
+    ])
+    open = open.filter(record => !ownSenders.has(record.restaurantId))
+  }
+  const { candidates, hadClosedOffer } = await loadCandidates(open)
+
+  const offer = candidates.find(candidate => "offer" in candidate)
+  if (offer) {
+    const outcome = await resolveWaitlistOfferReply({
+      offerId: offer.record.conversationId,
+      reply: params.reply,
+      now: params.now
+    })
+    if (outcome !== "pending") {
+      await closeConversation(offer.record, {
+        text: params.text,
+        confirmed: outcome === "accepted",
+        declined: outcome === "declined"
+      })
+    }
+    return {
+      kind: "offer",
+      outcome,
+      language: resolveGuestLanguage(offer.offer.guest_language, offer.offer.guest_phone)
+    }
+  }
+
+  const reservations = candidates.flatMap(candidate =>
+    "reservation" in candidate ? [candidate] : []
+  )
+  const target = reservations[0]
+  if (!target) {
+    return hadClosedOffer
+      ? { kind: "offer", outcome: "closed", language: params.language }
+      : { kind: "none", language: params.language }
+  }
+
+  const outcome = await resolveReservationReply(target.record, params.reply, params.text)
+  const language = reservationLanguage(target.reservation)
+  let answered: string | null = null
+  let nextOpen: string | null = null
+  if (reservations.length > 1) {
+    const descriptions = await describeReservations(
+      reservations.map(candidate => candidate.reservation),
+      language
+    )
+    answered = descriptions.get(target.reservation.id) ?? null
+    nextOpen = descriptions.get(reservations[1].reservation.id) ?? null
+  }
+
+  return {
+    kind: "reservation",
+    language,
+    outcome,
+    restaurantId: target.record.restaurantId,
+    reservationId: target.reservation.id,
+    answered,
+    nextOpen
+  }
+}
+
+// Applies a signed SMS or e-mail response link. The link names its reservation or offer, so
+// no phone lookup is needed; the conversation, if any, is closed the next
+// time the guest's number is routed. language comes from the link.
+export async function routeLinkReply(params: {
+  target: ResponseLinkTarget
+  reply: "yes" | "no"
+  language: GuestLanguage
+  now?: number
+}): Promise<InboundReplyResult> {
+  if (params.target.kind === "offer") {
+    const outcome = await resolveWaitlistOfferReply({
+      offerId: params.target.id,
+      reply: params.reply,
+      now: params.now
+    })
+    return { kind: "offer", outcome, language: params.language }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reservations")
+    .select("*")
+    .eq("id", params.target.id)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  const reservation = data as ReservationRow | null
+  if (!reservation?.restaurant_id) return { kind: "none", language: params.language }
+
+  const applied = await settleReservation(
+    reservation.restaurant_id,
+    reservation.id,
+    params.reply
+  )
+  return {
+    kind: "reservation",
+    language: reservationLanguage(reservation),
+    outcome: !applied ? "closed" : params.reply === "yes" ? "confirmed" : "cancelled",
+    restaurantId: reservation.restaurant_id,
+    reservationId: reservation.id,
+    answered: null,
+    nextOpen: null
+  }
+}
+
+export function buildReplyText(result: InboundReplyResult): string {
+  const copy = GUEST_COPY[result.language].replies
+  if (result.kind === "offer") {
+    if (result.outcome === "closed") return copy.offerClosed
+    if (result.outcome === "accepted") return copy.offerAccepted
+    if (result.outcome === "declined") return copy.offerDeclined
+    return copy.offerPending
+  }
+
+  if (result.kind === "none") return copy.noReservation
+
+  const next = result.nextOpen ? copy.nextOpen(result.nextOpen) : ""
+  if (result.outcome === "confirmed") return `${copy.reservationConfirmed(result.answered)}${next}`
+  if (result.outcome === "cancelled") return `${copy.reservationCancelled(result.answered)}${next}`
+  if (result.outcome === "closed") return `${copy.reservationClosed(result.answered)}${next}`
+  return copy.reservationPending
+}
+
+// A confirmation or cancellation of the guest's only open reservation uses
+// the restaurant's own text; other replies use the built-in wording, which
+// also names the reservations involved.
+export async function renderReplyText(result: InboundReplyResult): Promise<string> {
+  if (
+    result.kind !== "reservation" ||
+    result.answered ||
+    result.nextOpen ||
+    (result.outcome !== "confirmed" && result.outcome !== "cancelled")
+  ) {
+    return buildReplyText(result)
+  }
+
+  const [restaurant, reservationResult] = await Promise.all([
+    loadRestaurantContext(result.restaurantId),
+    supabaseAdmin.from("reservations").select("*").eq("id", result.reservationId).maybeSingle()
+  ])
+  const row = reservationResult.data as ReservationRow | null
+  if (!restaurant || reservationResult.error || !row) return buildReplyText(result)
+
+  const { timeZone } = restaurant.localeSettings
+  const locale = getGuestLocale(result.language, restaurant.localeSettings.locale)
+  const templateKey = result.outcome === "confirmed" ? "confirmation" : "cancellation"
+  return renderTemplate(restaurant.messageTemplates[result.language][templateKey], {
+    name: row.name,
+    restaurant: restaurant.name,
+    date: formatDateKey(reservationFromRow(row, timeZone).date, locale),
+    time: formatTimeKey(row.time, locale),
+    partySize: row.party_size
+  })
+}
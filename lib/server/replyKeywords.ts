@@ -0,0 +1,68 @@
+import type { GuestLanguage } from "@/lib/shared/languages"
+
+export type ReplyKeyword = {
+  reply: "yes" | "no" | null
+  // The language the keyword belongs to, when it is specific to one.
+  language: GuestLanguage | null
+}
+
+// Replies are compared after upper-casing and stripping accents, so "Não"
+// matches NAO. Every language is accepted from every guest; a Dutch guest
+// answering OUI still confirms.
+const REPLY_KEYWORDS: Record<GuestLanguage, { yes: string[]; no: string[] }> = {
+  nl: {
+    yes: ["JA", "BEVESTIG", "BEVESTIGEN", "OKE"],
+    no: ["NEE", "NEEN", "ANNULEER", "ANNULEREN"]
+  },
+  fr: {
+    yes: ["OUI", "CONFIRME", "CONFIRMER", "DACCORD"],
+    no: ["NON", "ANNULE", "ANNULER"]
+  },
+  en: {
+    yes: ["YES", "Y", "CONFIRM", "SURE"],
+    no: ["NO", "N", "CANCEL"]
+  },
+  pt: {
+    yes: ["SIM", "CONFIRMO", "CONFIRMAR"],
+    no: ["NAO", "CANCELAR", "CANCELO"]
+  }
+}
+
+// Shared by every language, so they say nothing about the guest's language.
+const NEUTRAL_YES = ["OK"]
+
+function normalizeReply(input: string): string {
+  return input
+    .trim()
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['\u2019]/g, "")
+    .replace(/[^A-Z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function matchKeyword(word: string): ReplyKeyword | null {
+  if (NEUTRAL_YES.includes(word)) return { reply: "yes", language: null }
+  for (const [language, keywords] of Object.entries(REPLY_KEYWORDS)) {
+    if (keywords.yes.includes(word)) {
+      return { reply: "yes", language: language as GuestLanguage }
+    }
+    if (keywords.no.includes(word)) {
+      return { reply: "no", language: language as GuestLanguage }
+    }
+  }
+  return null
+}
+
+// Looks at the whole reply first and then at its first word, so "ja graag"
+// and "non merci" are understood too.
+export function parseReplyKeyword(input: string): ReplyKeyword {
+  const cleaned = normalizeReply(input)
+  if (!cleaned) return { reply: null, language: null }
+  return (
+    matchKeyword(cleaned.replace(/\s/g, "")) ??
+    matchKeyword(cleaned.split(" ")[0]) ?? { reply: null, language: null }
+  )
+}
@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { getBaseUrl } from "@/lib/server/billing"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import {
+  DEFAULT_GUEST_LANGUAGE,
+  isGuestLanguage,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+
+// Confirm/decline links in SMS and e-mail carry a token that names the
+// reservation or offer, the action and an expiry, signed with
+// RESPONSE_LINK_SECRET. The yes and no link of one message share a nonce,
+// and a nonce can be used once: answering one link voids the other. The
+// guest's language travels along so the landing page can speak it.
+
+export type ResponseLinkTarget = {
+  kind: "reservation" | "offer"
+  id: string
+}
+
+export type ResponseAction = "yes" | "no"
+
+export type ResponseToken = ResponseLinkTarget & {
+  action: ResponseAction
+  expiresAt: number
+  nonce: string
+  language: GuestLanguage
+}
+
+function getSecret(): string | null {
+  return process.env.RESPONSE_LINK_SECRET?.trim() || null
+}
+
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+function encodeToken(secret: string, token: ResponseToken): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      k: token.kind,
+      i: token.id,
+      a: token.action,
+      e: token.expiresAt,
+      n: token.nonce,
+      l: token.language
+    })
+  ).toString("base64url")
+  return `${payload}.${sign(secret, payload)}`
+}
+
+export function buildResponseLinks(
+  target: ResponseLinkTarget,
+  expiresAt: number,
+  language: GuestLanguage
+): { yes: string; no: string } | null {
+  const secret = getSecret()
+  if (!secret) return null
+
+  const nonce = randomBytes(12).toString("base64url")
+  const link = (action: ResponseAction) =>
+    `${getBaseUrl()}/api/respond?token=${encodeToken(secret, { ...target, action, expiresAt, nonce, language })}`
+  return { yes: link("yes"), no: link("no") }
+}
+
+// Returns null for tokens that are malformed or not signed by us. Expiry and
+// use are checked separately so the landing page can say which it was.
+export function parseResponseToken(value: string): ResponseToken | null {
+  const secret = getSecret()
+  const [payload, signature] = value.split(".")
+  if (!secret || !payload || !signature) return null
+
+  const expected = Buffer.from(sign(secret, payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as {
+      k?: unknown
+      i?: unknown
+      a?: unknown
+      e?: unknown
+      n?: unknown
+      l?: unknown
+    }
+    if (
+      (data.k !== "reservation" && data.k !== "offer") ||
+      typeof data.i !== "string" ||
+      (data.a !== "yes" && data.a !== "no") ||
+      typeof data.e !== "number" ||
+      typeof data.n !== "string"
+    ) {
+      return null
+    }
+    return {
+      kind: data.k,
+      id: data.i,
+      action: data.a,
+      expiresAt: data.e,
+      nonce: data.n,
+      language: isGuestLanguage(data.l) ? data.l : DEFAULT_GUEST_LANGUAGE
+    }
+  } catch {
+    return null
+  }
+}
+
+export async function isResponseTokenUsed(token: ResponseToken): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("response_token_uses")
+    .select("nonce")
+    .eq("nonce", token.nonce)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+  return Boolean(data)
+}
+
+// Marks the token's nonce as used. Returns false when it already was, so two
+// clicks racing each other apply at most one answer.
+export async function consumeResponseToken(token: ResponseToken): Promise<boolean> {
+  const { error } = await supabaseAdmin.from("response_token_uses").insert([
+    {
+      nonce: token.nonce,
+      kind: token.kind,
+      target_id: token.id,
+      action: token.action,
+      used_at: new Date().toISOString()
+    }
+  ])
+  if (error?.code === "23505") return false
+  if (error) throw new Error(error.message)
+  return true
+}
@@ -0,0 +1,98 @@
+import { getSessionUserFromCookieHeader, type AuthUser } from "@/lib/server/auth"
+import { settingsFromRow, type SettingsRow } from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type {
+  AutomationSettings,
+  LocaleSettings,
+  ReminderSettings
+} from "@/lib/shared/settings"
+import type { ServiceHours } from "@/lib/shared/serviceHours"
+import type { MessageTemplates } from "@/lib/shared/templates"
+
+export type RestaurantContext = {
+  id: string
+  name: string
+  reminderSettings: ReminderSettings
+  automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
+}
+
+export async function getRestaurantIdForUser(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("restaurants")
+    .select("id")
+    .eq("owner_user_id", userId)
+    .maybeSingle()
+  if (error || !data?.id) return null
+  return data.id as string
+}
+
+export async function loadRestaurantContexts(
+  restaurantIds: string[]
+): Promise<Map<string, RestaurantContext>> {
+  const contexts = new Map<string, RestaurantContext>()
+  if (restaurantIds.length === 0) return contexts
+
+  const [restaurantsResult, settingsResult] = await Promise.all([
+    supabaseAdmin.from("restaurants").select("id,name").in("id", restaurantIds),
+    supabaseAdmin
+      .from("settings")
+      .select("*")
+      .in("restaurant_id", restaurantIds)
+      .order("id", { ascending: true })
+  ])
+  if (restaurantsResult.error || settingsResult.error) {
+    throw new Error(
+      restaurantsResult.error?.message ??
+        settingsResult.error?.message ??
+        "Kon restaurants niet laden."
+    )
+  }
+
+  const settingsByRestaurant = new Map<string, SettingsRow>()
+  for (const row of (settingsResult.data ?? []) as SettingsRow[]) {
+    if (row.restaurant_id) settingsByRestaurant.set(row.restaurant_id, row)
+  }
+
+  for (const restaurant of restaurantsResult.data ?? []) {
+    const id = String(restaurant.id)
+    contexts.set(id, {
+      id,
+      name: String(restaurant.name ?? "").trim() || "Restaurant",
+      ...settingsFromRow(settingsByRestaurant.get(id) ?? null)
+    })
+  }
+
+  return contexts
+}
+
+export async function loadRestaurantContext(
+  restaurantId: string
+): Promise<RestaurantContext | null> {
+  const contexts = await loadRestaurantContexts([restaurantId])
+  return contexts.get(restaurantId) ?? null
+}
+
+export type RestaurantAccess =
+  | { ok: true; user: AuthUser; restaurantId: string }
+  | { ok: false; error: string; status: number }
+
+export async function getRestaurantAccess(request: Request): Promise<RestaurantAccess> {
+  const user = getSessionUserFromCookieHeader(request.headers.get("cookie") ?? "")
+  if (!user) {
+    return { ok: false, error: "Niet ingelogd.", status: 401 }
+  }
+
+  const restaurantId = await getRestaurantIdForUser(user.id)
+  if (!restaurantId) {
+    return {
+      ok: false,
+      error: "Geen restaurant gekoppeld aan deze gebruiker.",
+      status: 400
+    }
+  }
+
+  return { ok: true, user, restaurantId }
+}
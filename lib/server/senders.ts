@@ -0,0 +1,242 @@
+import { decryptSecret, encryptSecret } from "@/lib/server/encryption"
+import { getMessagingProvider } from "@/lib/server/messaging"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { GUEST_LANGUAGES, type GuestLanguage } from "@/lib/shared/languages"
+import { MESSAGE_TEMPLATE_KEYS, type MessageTemplateKey } from "@/lib/shared/templates"
+
+// Which Twilio account and numbers a restaurant sends from. A restaurant can
+// store its own sender (typically a subaccount) in restaurant_senders; the
+// whole config is encrypted, only account_sid is kept readable (and unique)
+// so inbound webhooks can find the auth token that signed them. Restaurants without
+// one send from the platform sender in the TWILIO_* env vars.
+
+export type TemplateSids = Partial<
+  Record<MessageTemplateKey, Partial<Record<GuestLanguage, string>>>
+>
+
+export type TwilioSenderConfig = {
+  accountSid: string
+  authToken: string
+  whatsappFrom: string | null
+  smsFrom: string | null
+  messagingServiceSid: string | null
+  templateSids: TemplateSids
+}
+
+export type TwilioSender = TwilioSenderConfig & { source: "restaurant" | "platform" }
+
+export type SenderResult = { ok: true; sender: TwilioSender } | { ok: false; error: string }
+
+type SenderRow = {
+  restaurant_id: string
+  account_sid: string
+  config_encrypted: string
+  updated_at: string
+}
+
+const TEMPLATE_SID_ENV: Record<MessageTemplateKey, string> = {
+  reminder_first: "TWILIO_TEMPLATE_REMINDER_FIRST_SID",
+  reminder_final: "TWILIO_TEMPLATE_REMINDER_FINAL_SID",
+  confirmation: "TWILIO_TEMPLATE_CONFIRMATION_SID",
+  cancellation: "TWILIO_TEMPLATE_CANCELLATION_SID",
+  waitlist_offer: "TWILIO_TEMPLATE_WAITLIST_OFFER_SID"
+}
+
+function readEnv(name: string): string | null {
+  return process.env[name]?.trim() || null
+}
+
+// The plain TWILIO_TEMPLATE_*_SID templates are Dutch. Other languages use
+// the same name with a suffix (TWILIO_TEMPLATE_CONFIRMATION_SID_FR).
+function getPlatformTemplateSids(): TemplateSids {
+  const templateSids: TemplateSids = {}
+  for (const key of MESSAGE_TEMPLATE_KEYS) {
+    const byLanguage: Partial<Record<GuestLanguage, string>> = {}
+    for (const language of GUEST_LANGUAGES) {
+      const sid = readEnv(
+        language === "nl" ? TEMPLATE_SID_ENV[key] : `${TEMPLATE_SID_ENV[key]}_${language.toUpperCase()}`
+      )
+      if (sid) byLanguage[language] = sid
+    }
+    templateSids[key] = byLanguage
+  }
+  return templateSids
+}
+
+function getPlatformSender(): TwilioSender | null {
+  const accountSid = readEnv("TWILIO_ACCOUNT_SID")
+  const authToken = readEnv("TWILIO_AUTH_TOKEN")
+  if (!accountSid || !authToken) return null
+  return {
+    accountSid,
+    authToken,
+    whatsappFrom: readEnv("TWILIO_WHATSAPP_FROM"),
+    smsFrom: readEnv("TWILIO_SMS_FROM"),
+    messagingServiceSid: readEnv("TWILIO_MESSAGING_SERVICE_SID"),
+    templateSids: getPlatformTemplateSids(),
+    source: "platform"
+  }
+}
+
+function decryptConfig(row: SenderRow): TwilioSenderConfig | null {
+  const plaintext = decryptSecret(row.config_encrypted)
+  if (!plaintext) return null
+  try {
+    return JSON.parse(plaintext) as TwilioSenderConfig
+  } catch {
+    return null
+  }
+}
+
+export async function loadRestaurantSender(
+  restaurantId: string
+): Promise<{ ok: true; config: TwilioSenderConfig | null } | { ok: false; error: string }> {
+  const { data, error } = await supabaseAdmin
+    .from("restaurant_senders")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .maybeSingle()
+  if (error) return { ok: false, error: error.message }
+  if (!data) return { ok: true, config: null }
+
+  const config = decryptConfig(data as SenderRow)
+  if (!config) {
+    return {
+      ok: false,
+      error: "Twilio-afzender van dit restaurant kon niet ontsleuteld worden. Controleer SECRETS_ENCRYPTION_KEY."
+    }
+  }
+  return { ok: true, config }
+}
+
+// A stored sender that cannot be read is an error rather than a reason to
+// fall back: the restaurant would otherwise silently send from our number.
+export async function resolveTwilioSender(restaurantId: string): Promise<SenderResult> {
+  const stored = await loadRestaurantSender(restaurantId)
+  if (!stored.ok) return stored
+  if (stored.config) return { ok: true, sender: { ...stored.config, source: "restaurant" } }
+
+  const platform = getPlatformSender() ?? getMessagingProvider().localSender
+  if (!platform) {
+    return {
+      ok: false,
+      error:
+        "Geen Twilio-afzender ingesteld. Vul die in bij Instellingen of zet TWILIO_ACCOUNT_SID en TWILIO_AUTH_TOKEN."
+    }
+  }
+  return { ok: true, sender: platform }
+}
+
+export function isPlatformSenderAvailable(): boolean {
+  return (getPlatformSender() ?? getMessagingProvider().localSender) !== null
+}
+
+// Which of these restaurants send from their own Twilio account. Replies to
+// the platform number never belong to them.
+export async function findRestaurantsWithOwnSender(restaurantIds: string[]): Promise<Set<string>> {
+  if (restaurantIds.length === 0) return new Set()
+  const { data, error } = await supabaseAdmin
+    .from("restaurant_senders")
+    .select("restaurant_id")
+    .in("restaurant_id", restaurantIds)
+  if (error) throw new Error(error.message)
+  return new Set((data ?? []).map(row => row.restaurant_id as string))
+}
+
+// One restaurant per Twilio account: the account_sid of a webhook decides
+// which restaurant it belongs to.
+export async function saveRestaurantSender(
+  restaurantId: string,
+  config: TwilioSenderConfig
+): Promise<{ ok: true } | { ok: false; error: string; status: number }> {
+  const encrypted = encryptSecret(JSON.stringify(config))
+  if (!encrypted) {
+    return {
+      ok: false,
+      error: "SECRETS_ENCRYPTION_KEY ontbreekt of is geen sleutel van 32 bytes.",
+      status: 500
+    }
+  }
+
+  const { error } = await supabaseAdmin.from("restaurant_senders").upsert(
+    [
+      {
+        restaurant_id: restaurantId,
+        account_sid: config.accountSid,
+        config_encrypted: encrypted,
+        updated_at: new Date().toISOString()
+      }
+    ],
+    { onConflict: "restaurant_id" }
+  )
+  if (error?.code === "23505") {
+    return {
+      ok: false,
+      error: "Dit Twilio-account is al gekoppeld aan een ander restaurant.",
+      status: 409
+    }
+  }
+  if (error) return { ok: false, error: error.message, status: 500 }
+  return { ok: true }
+}
+
+export async function deleteRestaurantSender(restaurantId: string): Promise<string | null> {
+  const { error } = await supabaseAdmin
+    .from("restaurant_senders")
+    .delete()
+    .eq("restaurant_id", restaurantId)
+  return error?.message ?? null
+}
+
+export function isPlatformAccountSid(accountSid: string): boolean {
+  const platformSid = readEnv("TWILIO_ACCOUNT_SID")
+  return Boolean(platformSid) && accountSid === platformSid
+}
+
+export type WebhookSigner =
+  | { ok: true; authToken: string; restaurantId: string | null }
+  | { ok: false; status: number; error: string }
+
+// Twilio signs webhooks with the auth token of the account that owns the
+// number. A restaurant's own account is found through its unique,
+// verified account_sid and names the restaurant the webhook belongs to;
+// the platform account never resolves to a restaurant row.
+export async function getWebhookSigner(accountSid: string): Promise<WebhookSigner> {
+  const platformToken = readEnv("TWILIO_AUTH_TOKEN")
+  if (accountSid && !isPlatformAccountSid(accountSid)) {
+    const { data, error } = await supabaseAdmin
+      .from("restaurant_senders")
+      .select("*")
+      .eq("account_sid", accountSid)
+      .maybeSingle()
+    if (error) throw new Error(error.message)
+    if (data) {
+      const row = data as SenderRow
+      const config = decryptConfig(row)
+      if (!config || config.accountSid !== accountSid) {
+        return {
+          ok: false,
+          status: 500,
+          error: "Twilio-afzender voor deze webhook kon niet gelezen worden."
+        }
+      }
+      return { ok: true, authToken: config.authToken, restaurantId: row.restaurant_id }
+    }
+  }
+  if (!platformToken) {
+    return {
+      ok: false,
+      status: 500,
+      error: "Geen Twilio auth token gevonden voor webhook-validatie."
+    }
+  }
+  return { ok: true, authToken: platformToken, restaurantId: null }
+}
+
+export function getTemplateSid(
+  sender: TwilioSender,
+  templateKey: MessageTemplateKey,
+  language: GuestLanguage
+): string | undefined {
+  return sender.templateSids[templateKey]?.[language]?.trim() || undefined
+}
@@ -0,0 +1,92 @@
+import type { SettingsRow } from "@/lib/shared/rows"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type { SettingsInput } from "@/lib/server/validation"
+
+export type SaveSettingsResult =
+  | { ok: true; warning?: string }
+  | { ok: false; error: string }
+
+const PREFERRED_CHANNEL_COMPAT_WARNING =
+  "preferred_channel kon niet worden opgeslagen in de database (enum-compatibiliteit). Kanaalkeuze blijft lokaal bewaard."
+
+function isPreferredChannelCompatError(errorMessage: string): boolean {
+  const lower = errorMessage.toLowerCase()
+  return (
+    lower.includes("preferred_channel") &&
+    (
+      lower.includes("enum") ||
+      lower.includes("invalid input value") ||
+      lower.includes("check constraint")
+    )
+  )
+}
+
+export async function saveRestaurantSettings(params: {
+  userId: string
+  restaurantId: string
+  settings: SettingsInput
+}): Promise<SaveSettingsResult> {
+  const {
+    reminderSettings,
+    automationSettings,
+    localeSettings,
+    messageTemplates,
+    serviceHours
+  } = params.settings
+  const settingsPayload: SettingsRow = {
+    user_id: params.userId,
+    restaurant_id: params.restaurantId,
+    first_reminder_minutes_before: reminderSettings.firstReminderMinutesBefore,
+    final_reminder_minutes_before: reminderSettings.finalReminderMinutesBefore,
+    no_show_threshold_minutes: automationSettings.noShowThresholdMinutes,
+    waitlist_response_minutes: automationSettings.waitlistResponseMinutes,
+    preferred_channel: automationSettings.preferredChannel,
+    sms_fallback_enabled: automationSettings.smsFallbackEnabled,
+    sms_fallback_minutes: automationSettings.smsFallbackMinutes,
+    waitlist_max_empty_seats: automationSettings.waitlistMaxEmptySeats,
+    waitlist_max_extra_guests: automationSettings.waitlistMaxExtraGuests,
+    waitlist_match_priority: automationSettings.waitlistMatchPriority,
+    waitlist_offer_mode: automationSettings.waitlistOfferMode,
+    waitlist_broadcast_size: automationSettings.waitlistBroadcastSize,
+    waitlist_max_attempts: automationSettings.waitlistMaxAttempts,
+    timezone: localeSettings.timeZone,
+    date_locale: localeSettings.locale,
+    message_templates: messageTemplates,
+    service_hours: serviceHours
+  }
+  const compatPayload: Partial<SettingsRow> = { ...settingsPayload }
+  delete compatPayload.preferred_channel
+
+  const { data: existingSettings, error: settingsSelectError } = await supabaseAdmin
+    .from("settings")
+    .select("id")
+    .eq("restaurant_id", params.restaurantId)
+    .order("id", { ascending: false })
+    .limit(1)
+  if (settingsSelectError) {
+    return { ok: false, error: settingsSelectError.message }
+  }
+
+  const existingId =
+    existingSettings && existingSettings.length > 0
+      ? (existingSettings[0].id as number)
+      : null
+
+  const { error } =
+    existingId !== null
+      ? await supabaseAdmin.from("settings").update(settingsPayload).eq("id", existingId)
+      : await supabaseAdmin.from("settings").insert([settingsPayload])
+  if (!error) return { ok: true }
+
+  if (isPreferredChannelCompatError(error.message)) {
+    const { error: fallbackError } =
+      existingId !== null
+        ? await supabaseAdmin.from("settings").update(compatPayload).eq("id", existingId)
+        : await supabaseAdmin.from("settings").insert([compatPayload])
+    if (!fallbackError) {
+      return { ok: true, warning: PREFERRED_CHANNEL_COMPAT_WARNING }
+    }
+  }
+
+  return { ok: false, error: error.message }
+}
@@ -0,0 +1,140 @@
+import { getConversationStore, isConversationOpen } from "@/lib/server/conversations"
+import { isFailedStatus } from "@/lib/server/messageLog"
+import { loadRestaurantContexts } from "@/lib/server/restaurants"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { sendSmsMessage, type TwilioSendResult } from "@/lib/server/twilio"
+import { parseTimestamp, type MessageLogRow } from "@/lib/shared/rows"
+import type { AutomationSettings } from "@/lib/shared/settings"
+
+// WhatsApp messages logged with a fallback body are resent by SMS when they
+// fail, or when they are still not delivered after the restaurant's
+// smsFallbackMinutes. The SMS row points back at the WhatsApp row through
+// fallback_of, so the log shows which channel reached the guest.
+
+const PENDING_STATUSES = ["queued", "sent", "failed", "undelivered"]
+// Older messages are left alone; their reservation or offer is long gone.
+const FALLBACK_WINDOW_MS = 24 * 60 * 60000
+
+// Without status callbacks every WhatsApp message stays "queued" or "sent"
+// in the log, so each one would go out again by SMS.
+export function usesSmsFallback(settings: AutomationSettings): boolean {
+  return (
+    Boolean(process.env.TWILIO_STATUS_CALLBACK_URL?.trim()) &&
+    settings.preferredChannel === "whatsapp" &&
+    settings.smsFallbackEnabled
+  )
+}
+
+export type SmsFallbackSummary = {
+  sent: number
+  errors: string[]
+}
+
+// Sends the SMS for one WhatsApp message. The row is claimed first, so a
+// status callback and the cron job never both send it. Returns null when
+// there is nothing (left) to send.
+export async function sendSmsFallback(
+  messageId: string,
+  now = Date.now()
+): Promise<TwilioSendResult | null> {
+  const { data, error } = await supabaseAdmin
+    .from("message_log")
+    .update({ fallback_started_at: new Date(now).toISOString() })
+    .eq("id", messageId)
+    .eq("channel", "whatsapp")
+    .is("fallback_started_at", null)
+    .not("fallback_body", "is", null)
+    .in("status", PENDING_STATUSES)
+    .select("*")
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  const row = data as MessageLogRow | null
+  if (!row?.fallback_body || !row.conversation_id) return null
+
+  // The guest may have answered, or the offer may have run out, since the
+  // WhatsApp message went out.
+  const conversation = await getConversationStore().get({
+    restaurantId: row.restaurant_id,
+    phone: row.to_phone,
+    conversationId: row.conversation_id
+  })
+  if (
+    !conversation ||
+    !isConversationOpen(conversation) ||
+    (conversation.offerExpiresAt !== null && conversation.offerExpiresAt <= now)
+  ) {
+    return null
+  }
+
+  return sendSmsMessage({
+    restaurantId: row.restaurant_id,
+    to: row.to_phone,
+    body: row.fallback_body,
+    log: {
+      restaurantId: row.restaurant_id,
+      reservationId: row.reservation_id,
+      fallbackOf: row.id
+    }
+  })
+}
+
+// A WhatsApp send that fails right away goes out by SMS immediately instead
+// of waiting for the cron job. Returns no errors when the SMS got through.
+export async function sendImmediateSmsFallback(
+  logId: string | undefined,
+  whatsAppError: string
+): Promise<string[]> {
+  if (!logId) return [whatsAppError]
+  try {
+    const fallback = await sendSmsFallback(logId)
+    if (!fallback) return [whatsAppError]
+    return fallback.ok ? [] : [whatsAppError, `SMS fallback fout: ${fallback.error}`]
+  } catch (error) {
+    return [
+      whatsAppError,
+      `SMS fallback fout: ${error instanceof Error ? error.message : "onbekende fout"}`
+    ]
+  }
+}
+
+export async function runSmsFallbacks(now = Date.now()): Promise<SmsFallbackSummary> {
+  const summary: SmsFallbackSummary = { sent: 0, errors: [] }
+
+  const { data, error } = await supabaseAdmin
+    .from("message_log")
+    .select("*")
+    .eq("channel", "whatsapp")
+    .is("fallback_started_at", null)
+    .not("fallback_body", "is", null)
+    .in("status", PENDING_STATUSES)
+    .gte("created_at", new Date(now - FALLBACK_WINDOW_MS).toISOString())
+  if (error) throw new Error(error.message)
+
+  const rows = (data ?? []) as MessageLogRow[]
+  const restaurants = await loadRestaurantContexts([
+    ...new Set(rows.map(row => row.restaurant_id))
+  ])
+
+  for (const row of rows) {
+    const restaurant = restaurants.get(row.restaurant_id)
+    if (!restaurant || !usesSmsFallback(restaurant.automationSettings)) continue
+
+    const createdAt = parseTimestamp(row.created_at) ?? now
+    const dueAt = createdAt + restaurant.automationSettings.smsFallbackMinutes * 60000
+    if (!isFailedStatus(row.status) && now < dueAt) continue
+
+    try {
+      const result = await sendSmsFallback(row.id, now)
+      if (!result) continue
+      if (result.ok) summary.sent += 1
+      else summary.errors.push(`SMS fallback fout: ${result.error}`)
+    } catch (fallbackError) {
+      summary.errors.push(
+        `SMS fallback fout: ${fallbackError instanceof Error ? fallbackError.message : "onbekende fout"}`
+      )
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,50 @@
+import type { RestaurantTable } from "@/data/tables"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import { tableFromRow, type RestaurantTableRow } from "@/lib/shared/rows"
+import { assignedTables, canCombineTables } from "@/lib/shared/tables"
+
+export async function loadRestaurantTables(restaurantId: string): Promise<RestaurantTable[]> {
+  const { data, error } = await supabaseAdmin
+    .from("restaurant_tables")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("name", { ascending: true })
+  if (error) throw new Error(error.message)
+  return ((data ?? []) as RestaurantTableRow[]).map(tableFromRow)
+}
+
+export type TableAssignmentCheck =
+  | { ok: true }
+  | { ok: false; error: string; status: number }
+
+// Several tables on one reservation must be pushable together.
+export async function checkTableAssignment(
+  restaurantId: string,
+  tableIds: string[]
+): Promise<TableAssignmentCheck> {
+  if (tableIds.length === 0) return { ok: true }
+
+  let tables: RestaurantTable[]
+  try {
+    tables = await loadRestaurantTables(restaurantId)
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Kon tafels niet laden.",
+      status: 500
+    }
+  }
+
+  const assigned = assignedTables(tableIds, tables)
+  if (assigned.length !== tableIds.length) {
+    return { ok: false, error: "Tafel niet gevonden.", status: 404 }
+  }
+  if (!canCombineTables(assigned)) {
+    return {
+      ok: false,
+      error: `${assigned.map(table => table.name).join(", ")} kunnen niet samengezet worden.`,
+      status: 400
+    }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,140 @@
+import { normalizePhone } from "@/lib/phone"
+import { logOutboundMessage, type MessageLogContext } from "@/lib/server/messageLog"
+import { getMessagingProvider, type OutboundAddress } from "@/lib/server/messaging"
+import { getTemplateSid, resolveTwilioSender, type TwilioSender } from "@/lib/server/senders"
+import { DEFAULT_GUEST_LANGUAGE, type GuestLanguage } from "@/lib/shared/languages"
+import type { MessageTemplateKey } from "@/lib/shared/templates"
+
+// Content template SIDs use the same keys as the editable message templates.
+export type TwilioTemplateKey = MessageTemplateKey
+
+// logId is the message_log row, when the send was logged.
+export type TwilioSendResult =
+  | { ok: true; sid: string; logId?: string }
+  | { ok: false; error: string; logId?: string }
+
+// Sends from the restaurant's own Twilio sender, or the platform one,
+// through the configured messaging provider.
+export async function sendWhatsAppMessage(params: {
+  restaurantId: string
+  to: string
+  body?: string
+  templateKey?: TwilioTemplateKey
+  templateVariables?: Record<string, string | number | boolean>
+  language?: GuestLanguage
+  log?: MessageLogContext
+}): Promise<TwilioSendResult> {
+  const resolved = await resolveTwilioSender(params.restaurantId)
+  if (!resolved.ok) return resolved
+  const { sender } = resolved
+  const from = sender.whatsappFrom
+  const messagingServiceSid = sender.messagingServiceSid
+
+  if (!from && !messagingServiceSid) {
+    return {
+      ok: false,
+      error: "Geen WhatsApp-afzender ingesteld: vul een WhatsApp-nummer of Messaging Service SID in."
+    }
+  }
+
+  const normalizedTo = normalizePhone(params.to)
+  const normalizedFrom = from ? normalizePhone(from) : ""
+  if (!normalizedTo || (from && !normalizedFrom)) {
+    return { ok: false, error: "Ongeldig telefoonnummer voor WhatsApp." }
+  }
+
+  const address: OutboundAddress = {
+    channel: "whatsapp",
+    to: normalizedTo,
+    from: normalizedFrom || null,
+    messagingServiceSid
+  }
+  const provider = getMessagingProvider()
+
+  // A configured template wins; otherwise fall back to the free-text body.
+  const templateSid = params.templateKey
+    ? getTemplateSid(sender, params.templateKey, params.language ?? DEFAULT_GUEST_LANGUAGE)
+    : undefined
+  let result: TwilioSendResult
+  if (templateSid) {
+    result = await provider.sendTemplate(sender, {
+      ...address,
+      templateSid,
+      variables: params.templateVariables
+    })
+  } else if (params.body) {
+    result = await provider.sendText(sender, { ...address, body: params.body })
+  } else if (params.templateKey) {
+    return {
+      ok: false,
+      error: `Template SID ontbreekt voor ${params.templateKey}. Vul die in bij de Twilio-afzender.`
+    }
+  } else {
+    return { ok: false, error: "message of templateKey is verplicht." }
+  }
+
+  if (params.log) {
+    const logId = await logOutboundMessage({
+      context: params.log,
+      channel: "whatsapp",
+      to: normalizedTo,
+      body: params.body ?? null,
+      templateKey: templateSid ? params.templateKey ?? null : null,
+      result
+    })
+    if (logId) return { ...result, logId }
+  }
+  return result
+}
+
+export async function sendSmsMessage(params: {
+  restaurantId: string
+  to: string
+  body: string
+  log?: MessageLogContext
+}): Promise<TwilioSendResult> {
+  const resolved = await resolveTwilioSender(params.restaurantId)
+  if (!resolved.ok) return resolved
+  const { sender } = resolved
+  const from = sender.smsFrom
+  const messagingServiceSid = sender.messagingServiceSid
+
+  if (!from && !messagingServiceSid) {
+    return {
+      ok: false,
+      error: "Geen SMS-afzender ingesteld: vul een SMS-nummer of Messaging Service SID in."
+    }
+  }
+
+  const normalizedTo = normalizePhone(params.to)
+  const normalizedFrom = from ? normalizePhone(from) : ""
+  if (!normalizedTo || (from && !normalizedFrom)) {
+    return { ok: false, error: "Ongeldig telefoonnummer voor SMS." }
+  }
+
+  const result: TwilioSendResult = await getMessagingProvider().sendText(sender, {
+    channel: "sms",
+    to: normalizedTo,
+    from: normalizedFrom || null,
+    messagingServiceSid,
+    body: params.body
+  })
+  if (params.log) {
+    const logId = await logOutboundMessage({
+      context: params.log,
+      channel: "sms",
+      to: normalizedTo,
+      body: params.body,
+      templateKey: null,
+      result
+    })
+    if (logId) return { ...result, logId }
+  }
+  return result
+}
+
+export async function checkTwilioAccount(
+  sender: TwilioSender
+): Promise<{ ok: true; friendlyName: string; status: string } | { ok: false; error: string }> {
+  return getMessagingProvider().checkAccount(sender)
+}
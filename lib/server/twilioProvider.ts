@@ -0,0 +1,230 @@
+import crypto from "node:crypto"
+import { normalizePhone, toWhatsAppAddress } from "@/lib/phone"
+import type {
+  MessagingProvider,
+  OutboundAddress,
+  ProviderSendResult,
+  WebhookKind
+} from "@/lib/server/messaging"
+import { parseTwilioStatus } from "@/lib/server/messageLog"
+import { getWebhookSigner, type TwilioSender } from "@/lib/server/senders"
+
+function authorizationHeader(sender: TwilioSender): string {
+  return `Basic ${Buffer.from(`${sender.accountSid}:${sender.authToken}`).toString("base64")}`
+}
+
+function addressForm(message: OutboundAddress): URLSearchParams {
+  const form = new URLSearchParams()
+  const toAddress = message.channel === "whatsapp" ? toWhatsAppAddress : (phone: string) => phone
+  if (message.messagingServiceSid) {
+    form.set("MessagingServiceSid", message.messagingServiceSid)
+  } else if (message.from) {
+    form.set("From", toAddress(message.from))
+  }
+  form.set("To", toAddress(message.to))
+
+  const statusCallbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL
+  if (statusCallbackUrl?.trim()) {
+    form.set("StatusCallback", statusCallbackUrl.trim())
+  }
+  return form
+}
+
+async function postMessage(
+  sender: TwilioSender,
+  form: URLSearchParams,
+  fallbackError: string
+): Promise<ProviderSendResult> {
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${sender.accountSid}/Messages.json`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: authorizationHeader(sender),
+        "Content-Type": "application/x-www-form-urlencoded"
+      },
+      body: form.toString()
+    }
+  ).catch(() => null)
+  if (!response) return { ok: false, error: "Twilio is niet bereikbaar." }
+
+  const data = (await response.json().catch(() => ({}))) as {
+    sid?: string
+    message?: string
+  }
+  if (!response.ok) {
+    return { ok: false, error: data.message ?? fallbackError }
+  }
+
+  return { ok: true, sid: data.sid ?? "" }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;")
+}
+
+export function twimlResponse(replyText: string | null): Response {
+  const xml = replyText
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(replyText)}</Message></Response>`
+    : `<?xml version="1.0" encoding="UTF-8"?><Response></Response>`
+  return new Response(xml, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/xml"
+    }
+  })
+}
+
+function createSignature(url: string, params: Record<string, string>, authToken: string): string {
+  const sortedKeys = Object.keys(params).sort()
+  let payload = url
+  for (const key of sortedKeys) {
+    payload += `${key}${params[key]}`
+  }
+
+  return crypto
+    .createHmac("sha1", authToken)
+    .update(payload, "utf8")
+    .digest("base64")
+}
+
+function timingSafeEquals(left: string, right: string): boolean {
+  const leftBytes = Buffer.from(left)
+  const rightBytes = Buffer.from(right)
+  if (leftBytes.length !== rightBytes.length) return false
+  return crypto.timingSafeEqual(leftBytes, rightBytes)
+}
+
+function configuredWebhookUrl(kind: WebhookKind): string | undefined {
+  if (kind === "status") return process.env.TWILIO_STATUS_CALLBACK_URL?.trim()
+  if (kind === "sms") {
+    return process.env.TWILIO_SMS_WEBHOOK_URL?.trim() ?? process.env.TWILIO_WEBHOOK_URL?.trim()
+  }
+  return process.env.TWILIO_WEBHOOK_URL?.trim()
+}
+
+// Behind a proxy the URL Twilio signed can differ from request.url, so the
+// configured URL and the forwarded host are tried as well.
+function buildSignatureUrls(request: Request, kind: WebhookKind): string[] {
+  const urls = new Set<string>()
+  urls.add(request.url)
+
+  const configured = configuredWebhookUrl(kind)
+  if (configured) {
+    urls.add(configured)
+  }
+
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host")
+  const proto = request.headers.get("x-forwarded-proto") ?? "https"
+  if (host) {
+    const current = new URL(request.url)
+    urls.add(`${proto}://${host}${current.pathname}${current.search}`)
+  }
+
+  return [...urls]
+}
+
+export function createTwilioProvider(): MessagingProvider {
+  return {
+    name: "twilio",
+    localSender: null,
+
+    async sendText(sender, message) {
+      const form = addressForm(message)
+      form.set("Body", message.body)
+      return postMessage(
+        sender,
+        form,
+        message.channel === "whatsapp" ? "Twilio verzending mislukt." : "SMS verzending mislukt."
+      )
+    },
+
+    async sendTemplate(sender, message) {
+      const form = addressForm(message)
+      form.set("ContentSid", message.templateSid)
+      if (message.variables && Object.keys(message.variables).length > 0) {
+        form.set("ContentVariables", JSON.stringify(message.variables))
+      }
+      return postMessage(sender, form, "Twilio verzending mislukt.")
+    },
+
+    // Fetching the account itself is allowed for every valid SID/token pair.
+    async checkAccount(sender) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${sender.accountSid}.json`,
+        { headers: { Authorization: authorizationHeader(sender) } }
+      ).catch(() => null)
+      if (!response) return { ok: false, error: "Twilio is niet bereikbaar." }
+
+      const data = (await response.json().catch(() => ({}))) as {
+        friendly_name?: string
+        status?: string
+        message?: string
+      }
+      if (!response.ok) {
+        return { ok: false, error: data.message ?? "Twilio weigerde deze gegevens." }
+      }
+      return { ok: true, friendlyName: data.friendly_name ?? "", status: data.status ?? "" }
+    },
+
+    // Twilio signs with the auth token of the account that owns the number,
+    // which may be a restaurant's own account.
+    async verifyWebhook(request, params, kind) {
+      const signature = request.headers.get("x-twilio-signature")?.trim() ?? ""
+      if (!signature) {
+        return { ok: false, status: 403, error: "Twilio signature ontbreekt." }
+      }
+
+      const signer = await getWebhookSigner(params.AccountSid ?? "")
+      if (!signer.ok) return signer
+      const { authToken } = signer
+
+      const signatureUrls = buildSignatureUrls(request, kind)
+      const isValid = signatureUrls.some(url =>
+        timingSafeEquals(createSignature(url, params, authToken), signature)
+      )
+      if (!isValid) {
+        console.error("Twilio webhook signature mismatch", {
+          kind,
+          requestUrl: request.url,
+          signatureUrls,
+          from: params.From ?? null,
+          messageSid: params.MessageSid ?? null
+        })
+        return { ok: false, status: 403, error: "Ongeldige Twilio signature." }
+      }
+      return { ok: true, restaurantId: signer.restaurantId }
+    },
+
+    parseInbound(params) {
+      const rawFrom = params.From ?? ""
+      return {
+        channel: /^whatsapp:/i.test(rawFrom) ? "whatsapp" : "sms",
+        from: normalizePhone(rawFrom),
+        body: (params.Body ?? "").trim(),
+        sid: params.MessageSid || null
+      }
+    },
+
+    parseStatus(params) {
+      const sid = params.MessageSid ?? ""
+      const status = parseTwilioStatus(params.MessageStatus ?? "")
+      if (!sid || !status) return null
+      return {
+        sid,
+        status,
+        errorCode: params.ErrorCode || null,
+        errorMessage: params.ErrorMessage || null
+      }
+    },
+
+    async respondToInbound(message, replyText) {
+      return twimlResponse(replyText)
+    }
+  }
+}
@@ -0,0 +1,910 @@
+import type { Reservation } from "@/data/reservations"
+import type { RestaurantTable } from "@/data/tables"
+import { normalizePhone } from "@/lib/phone"
+import type { TemplateSids } from "@/lib/server/senders"
+import type { WaitlistEntry } from "@/data/waitlist"
+import type { ReservationRow, RestaurantTableRow, WaitlistRow } from "@/lib/shared/rows"
+import type {
+  AutomationSettings,
+  ContactChannel,
+  LocaleSettings,
+  ReminderSettings,
+  WaitlistMatchPriority,
+  WaitlistOfferMode
+} from "@/lib/shared/settings"
+import {
+  GUEST_LANGUAGES,
+  GUEST_LANGUAGE_LABELS,
+  isGuestLanguage,
+  resolveGuestLanguage,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+import {
+  MAX_TEMPLATE_LENGTH,
+  MESSAGE_TEMPLATE_KEYS,
+  MESSAGE_TEMPLATE_LABELS,
+  findUnknownPlaceholders,
+  type MessageTemplateSet,
+  type MessageTemplates
+} from "@/lib/shared/templates"
+import { isReservationStatus } from "@/lib/shared/reservationStatus"
+import {
+  BOOKING_SLUG_PATTERN,
+  MAX_ONLINE_PARTY_SIZE,
+  isBookingChannel,
+  type BookingChannel
+} from "@/lib/shared/booking"
+import {
+  MAX_COVERS_PER_SLOT,
+  SLOT_MINUTE_OPTIONS,
+  WEEKDAYS,
+  isServiceTime,
+  toMinutes,
+  type ServiceClosure,
+  type ServiceHours,
+  type ServicePeriod
+} from "@/lib/shared/serviceHours"
+import { FLOOR_PLAN_COLUMNS, FLOOR_PLAN_ROWS, MAX_TABLE_COVERS } from "@/lib/shared/tables"
+import { isValidDateKey, isValidLocale, isValidTimeZone } from "@/lib/shared/time"
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+type Payload = Record<string, unknown>
+
+const WAITLIST_STATUSES: NonNullable<WaitlistEntry["status"]>[] = [
+  "waiting",
+  "contacted",
+  "declined"
+]
+
+const CONTACT_CHANNELS: ContactChannel[] = ["whatsapp", "sms", "both", "email"]
+
+const WAITLIST_MATCH_PRIORITIES: WaitlistMatchPriority[] = ["best_fit", "longest_waiting"]
+
+const WAITLIST_OFFER_MODES: WaitlistOfferMode[] = ["single", "broadcast"]
+
+const MAX_SEAT_DIFFERENCE = 10
+
+const MIN_BROADCAST_SIZE = 2
+const MAX_BROADCAST_SIZE = 5
+
+const MAX_OFFER_ATTEMPTS = 10
+
+const MAX_SERVICE_PERIODS = 10
+const MAX_SERVICE_CLOSURES = 100
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+function isPayload(value: unknown): value is Payload {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isTime(value: unknown): value is string {
+  return typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+}
+
+function isSeatCount(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_SEAT_DIFFERENCE
+  )
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0
+}
+
+function isGridIndex(value: unknown, size: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < size
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value)
+}
+
+export function isEmailAddress(value: unknown): value is string {
+  return typeof value === "string" && EMAIL_PATTERN.test(value.trim())
+}
+
+// Email is optional: missing or blank clears it, anything else must look
+// like an address.
+function parseOptionalEmail(value: unknown): ParseResult<string | null> {
+  if (value === undefined || value === null) return { ok: true, value: null }
+  if (typeof value !== "string") return { ok: false, error: "E-mailadres is ongeldig." }
+  if (!value.trim()) return { ok: true, value: null }
+  if (!isEmailAddress(value)) return { ok: false, error: "E-mailadres is ongeldig." }
+  return { ok: true, value: value.trim().toLowerCase() }
+}
+
+function parseOptionalLanguage(value: unknown): ParseResult<GuestLanguage | null> {
+  if (value === undefined || value === null || value === "") return { ok: true, value: null }
+  if (!isGuestLanguage(value)) return { ok: false, error: "Onbekende taal." }
+  return { ok: true, value }
+}
+
+export type NewReservationInput = Pick<
+  Reservation,
+  "name" | "phone" | "email" | "language" | "date" | "time" | "partySize" | "estimatedRevenue"
+> & { id?: string }
+
+export function parseNewReservation(body: unknown): ParseResult<NewReservationInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam is verplicht." }
+  if (!isNonEmptyString(body.phone)) return { ok: false, error: "Telefoon is verplicht." }
+  const email = parseOptionalEmail(body.email)
+  if (!email.ok) return email
+  const language = parseOptionalLanguage(body.language)
+  if (!language.ok) return language
+  if (typeof body.date !== "string" || !isValidDateKey(body.date)) {
+    return { ok: false, error: "Datum moet YYYY-MM-DD zijn." }
+  }
+  if (!isTime(body.time)) return { ok: false, error: "Uur moet HH:MM zijn." }
+  if (!isPositiveInteger(body.partySize)) {
+    return { ok: false, error: "Aantal personen moet groter zijn dan 0." }
+  }
+  if (body.id !== undefined && !isUuid(body.id)) {
+    return { ok: false, error: "id moet een UUID zijn." }
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id,
+      name: body.name.trim(),
+      phone: body.phone.trim(),
+      email: email.value ?? undefined,
+      language: resolveGuestLanguage(language.value, body.phone),
+      date: body.date,
+      time: body.time,
+      partySize: body.partySize,
+      estimatedRevenue:
+        typeof body.estimatedRevenue === "number" && body.estimatedRevenue >= 0
+          ? body.estimatedRevenue
+          : body.partySize * 60
+    }
+  }
+}
+
+export type VersionedPatch<Row> = {
+  version: number
+  changes: Partial<Row>
+}
+
+export function parseVersion(value: unknown): ParseResult<number> {
+  const version = typeof value === "string" ? Number(value) : value
+  if (!isPositiveInteger(version)) {
+    return { ok: false, error: "version is verplicht." }
+  }
+  return { ok: true, value: version }
+}
+
+export function parseReservationPatch(
+  body: unknown
+): ParseResult<VersionedPatch<ReservationRow>> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const version = parseVersion(body.version)
+  if (!version.ok) return version
+  const patch: Partial<ReservationRow> = {}
+
+  if (body.name !== undefined) {
+    if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam is verplicht." }
+    patch.name = body.name.trim()
+  }
+  if (body.phone !== undefined) {
+    if (typeof body.phone !== "string") return { ok: false, error: "Telefoon is ongeldig." }
+    patch.phone = body.phone.trim()
+  }
+  if (body.email !== undefined) {
+    const email = parseOptionalEmail(body.email)
+    if (!email.ok) return email
+    patch.email = email.value
+  }
+  if (body.language !== undefined) {
+    if (!isGuestLanguage(body.language)) return { ok: false, error: "Onbekende taal." }
+    patch.language = body.language
+  }
+  if (body.date !== undefined) {
+    if (typeof body.date !== "string" || !isValidDateKey(body.date)) {
+      return { ok: false, error: "Datum moet YYYY-MM-DD zijn." }
+    }
+    patch.reservation_date = body.date
+  }
+  if (body.time !== undefined) {
+    if (!isTime(body.time)) return { ok: false, error: "Uur moet HH:MM zijn." }
+    patch.time = body.time
+  }
+  if (body.partySize !== undefined) {
+    if (!isPositiveInteger(body.partySize)) {
+      return { ok: false, error: "Aantal personen moet groter zijn dan 0." }
+    }
+    patch.party_size = body.partySize
+  }
+  if (body.estimatedRevenue !== undefined) {
+    if (typeof body.estimatedRevenue !== "number" || body.estimatedRevenue < 0) {
+      return { ok: false, error: "Geschatte omzet is ongeldig." }
+    }
+    patch.estimated_revenue = body.estimatedRevenue
+  }
+  if (body.status !== undefined) {
+    if (!isReservationStatus(body.status)) {
+      return { ok: false, error: "Onbekende status." }
+    }
+    // Whether the current status may change to this one is up to the route,
+    // which knows the current row.
+    patch.status = body.status
+  }
+  if (body.tableIds !== undefined) {
+    const tableIds = parseTableIds(body.tableIds, "tableIds")
+    if (!tableIds.ok) return tableIds
+    // Whether the tables exist and can be combined is up to the route.
+    patch.table_ids = tableIds.value
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { ok: false, error: "Geen velden om bij te werken." }
+  }
+
+  // A moved reservation needs a fresh reminder cycle.
+  if (patch.reservation_date !== undefined || patch.time !== undefined) {
+    patch.reminder_count = 0
+    patch.last_reminder_at = null
+  }
+
+  return { ok: true, value: { version: version.value, changes: patch } }
+}
+
+function parseTableIds(value: unknown, label: string): ParseResult<string[]> {
+  if (!Array.isArray(value) || !value.every(isUuid)) {
+    return { ok: false, error: `${label} moet een lijst van tafel-id's zijn.` }
+  }
+  return { ok: true, value: [...new Set(value)] }
+}
+
+export type NewTableInput = Omit<RestaurantTable, "id" | "version"> & { id?: string }
+
+function isTableCovers(value: unknown): value is number {
+  return isPositiveInteger(value) && value <= MAX_TABLE_COVERS
+}
+
+const TABLE_COVERS_ERROR = `Het aantal plaatsen moet tussen 1 en ${MAX_TABLE_COVERS} liggen.`
+export const TABLE_COVERS_ORDER_ERROR = "Minimum plaatsen mag niet groter zijn dan het maximum."
+
+function parseOptionalArea(value: unknown): ParseResult<string | null> {
+  if (value === undefined || value === null) return { ok: true, value: null }
+  if (typeof value !== "string") return { ok: false, error: "Zone is ongeldig." }
+  return { ok: true, value: value.trim() || null }
+}
+
+function parseFloorPlanPosition(x: unknown, y: unknown): ParseResult<{ x: number; y: number }> {
+  if (!isGridIndex(x, FLOOR_PLAN_COLUMNS) || !isGridIndex(y, FLOOR_PLAN_ROWS)) {
+    return { ok: false, error: "Positie valt buiten het zaalplan." }
+  }
+  return { ok: true, value: { x, y } }
+}
+
+export function parseNewTable(body: unknown): ParseResult<NewTableInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam van de tafel is verplicht." }
+  if (!isTableCovers(body.minCovers) || !isTableCovers(body.maxCovers)) {
+    return { ok: false, error: TABLE_COVERS_ERROR }
+  }
+  if (body.minCovers > body.maxCovers) return { ok: false, error: TABLE_COVERS_ORDER_ERROR }
+  const area = parseOptionalArea(body.area)
+  if (!area.ok) return area
+  const combinableWith = parseTableIds(body.combinableWith ?? [], "combinableWith")
+  if (!combinableWith.ok) return combinableWith
+  const position = parseFloorPlanPosition(body.x, body.y)
+  if (!position.ok) return position
+  if (body.id !== undefined && !isUuid(body.id)) {
+    return { ok: false, error: "id moet een UUID zijn." }
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id,
+      name: body.name.trim(),
+      minCovers: body.minCovers,
+      maxCovers: body.maxCovers,
+      area: area.value ?? undefined,
+      combinableWith: combinableWith.value.filter(id => id !== body.id),
+      ...position.value
+    }
+  }
+}
+
+// When only one of min and max covers changes, the route checks it against
+// the stored other one.
+export function parseTablePatch(
+  body: unknown
+): ParseResult<VersionedPatch<RestaurantTableRow>> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const version = parseVersion(body.version)
+  if (!version.ok) return version
+  const patch: Partial<RestaurantTableRow> = {}
+
+  if (body.name !== undefined) {
+    if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam van de tafel is verplicht." }
+    patch.name = body.name.trim()
+  }
+  if (body.minCovers !== undefined) {
+    if (!isTableCovers(body.minCovers)) return { ok: false, error: TABLE_COVERS_ERROR }
+    patch.min_covers = body.minCovers
+  }
+  if (body.maxCovers !== undefined) {
+    if (!isTableCovers(body.maxCovers)) return { ok: false, error: TABLE_COVERS_ERROR }
+    patch.max_covers = body.maxCovers
+  }
+  if (
+    patch.min_covers !== undefined &&
+    patch.max_covers !== undefined &&
+    patch.min_covers > patch.max_covers
+  ) {
+    return { ok: false, error: TABLE_COVERS_ORDER_ERROR }
+  }
+  if (body.area !== undefined) {
+    const area = parseOptionalArea(body.area)
+    if (!area.ok) return area
+    patch.area = area.value
+  }
+  if (body.combinableWith !== undefined) {
+    const combinableWith = parseTableIds(body.combinableWith, "combinableWith")
+    if (!combinableWith.ok) return combinableWith
+    patch.combinable_with = combinableWith.value
+  }
+  if (body.x !== undefined || body.y !== undefined) {
+    const position = parseFloorPlanPosition(body.x, body.y)
+    if (!position.ok) return position
+    patch.pos_x = position.value.x
+    patch.pos_y = position.value.y
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { ok: false, error: "Geen velden om bij te werken." }
+  }
+
+  return { ok: true, value: { version: version.value, changes: patch } }
+}
+
+export type NewWaitlistInput = Pick<
+  WaitlistEntry,
+  "name" | "phone" | "email" | "language" | "partySize"
+> & {
+  id?: string
+}
+
+export function parseNewWaitlistEntry(body: unknown): ParseResult<NewWaitlistInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam is verplicht." }
+  if (!isNonEmptyString(body.phone)) return { ok: false, error: "Telefoon is verplicht." }
+  const email = parseOptionalEmail(body.email)
+  if (!email.ok) return email
+  const language = parseOptionalLanguage(body.language)
+  if (!language.ok) return language
+  if (!isPositiveInteger(body.partySize)) {
+    return { ok: false, error: "Aantal personen moet groter zijn dan 0." }
+  }
+  if (body.id !== undefined && !isUuid(body.id)) {
+    return { ok: false, error: "id moet een UUID zijn." }
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: body.id,
+      name: body.name.trim(),
+      phone: body.phone.trim(),
+      email: email.value ?? undefined,
+      language: resolveGuestLanguage(language.value, body.phone),
+      partySize: body.partySize
+    }
+  }
+}
+
+export function parseWaitlistPatch(
+  body: unknown
+): ParseResult<VersionedPatch<WaitlistRow>> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const version = parseVersion(body.version)
+  if (!version.ok) return version
+  const patch: Partial<WaitlistRow> = {}
+
+  if (body.name !== undefined) {
+    if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam is verplicht." }
+    patch.name = body.name.trim()
+  }
+  if (body.phone !== undefined) {
+    if (!isNonEmptyString(body.phone)) return { ok: false, error: "Telefoon is verplicht." }
+    patch.phone = body.phone.trim()
+  }
+  if (body.email !== undefined) {
+    const email = parseOptionalEmail(body.email)
+    if (!email.ok) return email
+    patch.email = email.value
+  }
+  if (body.language !== undefined) {
+    if (!isGuestLanguage(body.language)) return { ok: false, error: "Onbekende taal." }
+    patch.language = body.language
+  }
+  if (body.partySize !== undefined) {
+    if (!isPositiveInteger(body.partySize)) {
+      return { ok: false, error: "Aantal personen moet groter zijn dan 0." }
+    }
+    patch.party_size = body.partySize
+  }
+  if (body.status !== undefined) {
+    const status = body.status as NonNullable<WaitlistEntry["status"]>
+    if (!WAITLIST_STATUSES.includes(status)) {
+      return { ok: false, error: "Onbekende status." }
+    }
+    patch.status = status
+    if (status === "contacted") {
+      patch.last_contacted_at = new Date().toISOString()
+    }
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { ok: false, error: "Geen velden om bij te werken." }
+  }
+
+  return { ok: true, value: { version: version.value, changes: patch } }
+}
+
+export type SettingsInput = {
+  reminderSettings: ReminderSettings
+  automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
+}
+
+function parseTemplateSet(
+  value: unknown,
+  language: GuestLanguage
+): ParseResult<MessageTemplateSet> {
+  const languageLabel = GUEST_LANGUAGE_LABELS[language]
+  if (!isPayload(value)) {
+    return { ok: false, error: `Berichtteksten voor ${languageLabel} ontbreken.` }
+  }
+  const templates = {} as MessageTemplateSet
+  for (const key of MESSAGE_TEMPLATE_KEYS) {
+    const label = `${MESSAGE_TEMPLATE_LABELS[key]} (${languageLabel})`
+    const template = value[key]
+    if (!isNonEmptyString(template)) {
+      return { ok: false, error: `Tekst voor "${label}" is verplicht.` }
+    }
+    if (template.length > MAX_TEMPLATE_LENGTH) {
+      return {
+        ok: false,
+        error: `Tekst voor "${label}" mag maximaal ${MAX_TEMPLATE_LENGTH} tekens zijn.`
+      }
+    }
+    const unknown = findUnknownPlaceholders(key, template)
+    if (unknown.length > 0) {
+      return {
+        ok: false,
+        error: `Onbekende variabele {${unknown[0]}} in "${label}".`
+      }
+    }
+    templates[key] = template.trim()
+  }
+  return { ok: true, value: templates }
+}
+
+function parseMessageTemplates(value: unknown): ParseResult<MessageTemplates> {
+  if (!isPayload(value)) return { ok: false, error: "messageTemplates is verplicht." }
+  const templates = {} as MessageTemplates
+  for (const language of GUEST_LANGUAGES) {
+    const set = parseTemplateSet(value[language], language)
+    if (!set.ok) return set
+    templates[language] = set.value
+  }
+  return { ok: true, value: templates }
+}
+
+function parseServicePeriod(value: unknown, index: number): ParseResult<ServicePeriod> {
+  if (!isPayload(value)) return { ok: false, error: "Service is ongeldig." }
+  const label = isNonEmptyString(value.name) ? value.name.trim() : `Service ${index + 1}`
+  if (!isNonEmptyString(value.name)) {
+    return { ok: false, error: `Naam van ${label} is verplicht.` }
+  }
+  const weekdays = Array.isArray(value.weekdays)
+    ? WEEKDAYS.filter(weekday => (value.weekdays as unknown[]).includes(weekday))
+    : []
+  if (weekdays.length === 0) {
+    return { ok: false, error: `Kies minstens één dag voor ${label}.` }
+  }
+  if (!isServiceTime(value.start) || !isServiceTime(value.end)) {
+    return { ok: false, error: `Uren van ${label} moeten HH:MM zijn.` }
+  }
+  if (toMinutes(value.start) > toMinutes(value.end)) {
+    return { ok: false, error: `${label} moet eindigen na het begin.` }
+  }
+  if (!SLOT_MINUTE_OPTIONS.includes(value.slotMinutes as number)) {
+    return {
+      ok: false,
+      error: `Tijdsloten van ${label} duren ${SLOT_MINUTE_OPTIONS.join(", ")} minuten.`
+    }
+  }
+  if (!isPositiveInteger(value.maxCoversPerSlot) || value.maxCoversPerSlot > MAX_COVERS_PER_SLOT) {
+    return {
+      ok: false,
+      error: `Plaatsen per tijdslot van ${label} moeten tussen 1 en ${MAX_COVERS_PER_SLOT} liggen.`
+    }
+  }
+  return {
+    ok: true,
+    value: {
+      name: value.name.trim(),
+      weekdays,
+      start: value.start,
+      end: value.end,
+      slotMinutes: value.slotMinutes as number,
+      maxCoversPerSlot: value.maxCoversPerSlot
+    }
+  }
+}
+
+function parseServiceClosure(value: unknown): ParseResult<ServiceClosure> {
+  if (!isPayload(value) || typeof value.date !== "string" || !isValidDateKey(value.date)) {
+    return { ok: false, error: "Sluitingsdag moet YYYY-MM-DD zijn." }
+  }
+  if (value.label !== undefined && typeof value.label !== "string") {
+    return { ok: false, error: "Omschrijving van de sluitingsdag is ongeldig." }
+  }
+  return { ok: true, value: { date: value.date, label: value.label?.trim() ?? "" } }
+}
+
+// A time can only belong to one service, so periods on the same day may not
+// overlap.
+function parseServiceHours(value: unknown): ParseResult<ServiceHours> {
+  if (!isPayload(value) || !Array.isArray(value.periods) || !Array.isArray(value.closures)) {
+    return { ok: false, error: "serviceHours is verplicht." }
+  }
+  if (value.periods.length > MAX_SERVICE_PERIODS) {
+    return { ok: false, error: `Maximaal ${MAX_SERVICE_PERIODS} services.` }
+  }
+  if (value.closures.length > MAX_SERVICE_CLOSURES) {
+    return { ok: false, error: `Maximaal ${MAX_SERVICE_CLOSURES} sluitingsdagen.` }
+  }
+
+  const periods: ServicePeriod[] = []
+  for (const [index, entry] of value.periods.entries()) {
+    const period = parseServicePeriod(entry, index)
+    if (!period.ok) return period
+    const overlapping = periods.find(
+      other =>
+        other.weekdays.some(weekday => period.value.weekdays.includes(weekday)) &&
+        toMinutes(other.start) <= toMinutes(period.value.end) &&
+        toMinutes(period.value.start) <= toMinutes(other.end)
+    )
+    if (overlapping) {
+      return {
+        ok: false,
+        error: `${period.value.name} overlapt met ${overlapping.name}.`
+      }
+    }
+    periods.push(period.value)
+  }
+
+  const closures: ServiceClosure[] = []
+  for (const entry of value.closures) {
+    const closure = parseServiceClosure(entry)
+    if (!closure.ok) return closure
+    if (closures.some(other => other.date === closure.value.date)) continue
+    closures.push(closure.value)
+  }
+  closures.sort((left, right) => left.date.localeCompare(right.date))
+
+  return { ok: true, value: { periods, closures } }
+}
+
+export function parseSettings(body: unknown): ParseResult<SettingsInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const reminder = isPayload(body.reminderSettings) ? body.reminderSettings : null
+  const automation = isPayload(body.automationSettings) ? body.automationSettings : null
+  const locale = isPayload(body.localeSettings) ? body.localeSettings : null
+  if (!reminder || !automation || !locale) {
+    return {
+      ok: false,
+      error: "reminderSettings, automationSettings en localeSettings zijn verplicht."
+    }
+  }
+
+  const {
+    firstReminderMinutesBefore,
+    finalReminderMinutesBefore
+  } = reminder
+  const {
+    noShowThresholdMinutes,
+    waitlistResponseMinutes,
+    preferredChannel,
+    smsFallbackEnabled,
+    smsFallbackMinutes,
+    waitlistMaxEmptySeats,
+    waitlistMaxExtraGuests,
+    waitlistMatchPriority,
+    waitlistOfferMode,
+    waitlistBroadcastSize,
+    waitlistMaxAttempts
+  } = automation
+  if (
+    !isPositiveInteger(firstReminderMinutesBefore) ||
+    !isPositiveInteger(finalReminderMinutesBefore) ||
+    !isPositiveInteger(noShowThresholdMinutes) ||
+    !isPositiveInteger(waitlistResponseMinutes) ||
+    !isPositiveInteger(smsFallbackMinutes)
+  ) {
+    return { ok: false, error: "Alle waarden moeten groter zijn dan 0 minuten." }
+  }
+  if (finalReminderMinutesBefore >= firstReminderMinutesBefore) {
+    return {
+      ok: false,
+      error:
+        "De laatste herinnering moet dichter bij het reservatiemoment liggen dan de eerste."
+    }
+  }
+  if (!CONTACT_CHANNELS.includes(preferredChannel as ContactChannel)) {
+    return { ok: false, error: "Onbekend voorkeurskanaal." }
+  }
+  if (typeof smsFallbackEnabled !== "boolean") {
+    return { ok: false, error: "smsFallbackEnabled moet true of false zijn." }
+  }
+  if (
+    !isSeatCount(waitlistMaxEmptySeats) ||
+    !isSeatCount(waitlistMaxExtraGuests)
+  ) {
+    return {
+      ok: false,
+      error: `Lege stoelen en extra gasten moeten tussen 0 en ${MAX_SEAT_DIFFERENCE} liggen.`
+    }
+  }
+  if (!WAITLIST_MATCH_PRIORITIES.includes(waitlistMatchPriority as WaitlistMatchPriority)) {
+    return { ok: false, error: "Onbekende voorrangsregel voor de wachtlijst." }
+  }
+  if (!WAITLIST_OFFER_MODES.includes(waitlistOfferMode as WaitlistOfferMode)) {
+    return { ok: false, error: "Onbekende manier van aanbieden voor de wachtlijst." }
+  }
+  if (
+    !isPositiveInteger(waitlistBroadcastSize) ||
+    waitlistBroadcastSize < MIN_BROADCAST_SIZE ||
+    waitlistBroadcastSize > MAX_BROADCAST_SIZE
+  ) {
+    return {
+      ok: false,
+      error: `Een aanbod gaat naar ${MIN_BROADCAST_SIZE} tot ${MAX_BROADCAST_SIZE} gasten tegelijk.`
+    }
+  }
+  if (!isPositiveInteger(waitlistMaxAttempts) || waitlistMaxAttempts > MAX_OFFER_ATTEMPTS) {
+    return {
+      ok: false,
+      error: `Het aantal pogingen per tafel moet tussen 1 en ${MAX_OFFER_ATTEMPTS} liggen.`
+    }
+  }
+  if (typeof locale.timeZone !== "string" || !isValidTimeZone(locale.timeZone)) {
+    return { ok: false, error: `Onbekende tijdzone: ${String(locale.timeZone)}` }
+  }
+  if (typeof locale.locale !== "string" || !isValidLocale(locale.locale)) {
+    return { ok: false, error: `Onbekende datumnotatie: ${String(locale.locale)}` }
+  }
+  const messageTemplates = parseMessageTemplates(body.messageTemplates)
+  if (!messageTemplates.ok) return messageTemplates
+  const serviceHours = parseServiceHours(body.serviceHours)
+  if (!serviceHours.ok) return serviceHours
+
+  return {
+    ok: true,
+    value: {
+      reminderSettings: { firstReminderMinutesBefore, finalReminderMinutesBefore },
+      automationSettings: {
+        noShowThresholdMinutes,
+        waitlistResponseMinutes,
+        preferredChannel: preferredChannel as ContactChannel,
+        smsFallbackEnabled,
+        smsFallbackMinutes,
+        waitlistMaxEmptySeats,
+        waitlistMaxExtraGuests,
+        waitlistMatchPriority: waitlistMatchPriority as WaitlistMatchPriority,
+        waitlistOfferMode: waitlistOfferMode as WaitlistOfferMode,
+        waitlistBroadcastSize,
+        waitlistMaxAttempts
+      },
+      localeSettings: { timeZone: locale.timeZone, locale: locale.locale },
+      messageTemplates: messageTemplates.value,
+      serviceHours: serviceHours.value
+    }
+  }
+}
+
+// authToken is null when the form left it blank, which keeps the stored one.
+export type SenderInput = {
+  accountSid: string
+  authToken: string | null
+  whatsappFrom: string | null
+  smsFrom: string | null
+  messagingServiceSid: string | null
+  templateSids: TemplateSids
+}
+
+const ACCOUNT_SID_PATTERN = /^AC[0-9a-f]{32}$/i
+const MESSAGING_SERVICE_SID_PATTERN = /^MG[0-9a-f]{32}$/i
+const CONTENT_SID_PATTERN = /^HX[0-9a-f]{32}$/i
+
+function parseOptionalSenderPhone(value: unknown, label: string): ParseResult<string | null> {
+  if (value === undefined || value === null || value === "") return { ok: true, value: null }
+  if (typeof value !== "string") return { ok: false, error: `${label} is ongeldig.` }
+  if (!value.trim()) return { ok: true, value: null }
+  const phone = normalizePhone(value)
+  if (!phone.startsWith("+") || phone.length < 8) {
+    return { ok: false, error: `${label} moet in internationaal formaat staan, bv. +32470123456.` }
+  }
+  return { ok: true, value: phone }
+}
+
+function parseTemplateSids(value: unknown): ParseResult<TemplateSids> {
+  if (value === undefined || value === null) return { ok: true, value: {} }
+  if (!isPayload(value)) return { ok: false, error: "templateSids is ongeldig." }
+  const templateSids: TemplateSids = {}
+  for (const key of MESSAGE_TEMPLATE_KEYS) {
+    const byLanguage = value[key]
+    if (byLanguage === undefined || byLanguage === null) continue
+    if (!isPayload(byLanguage)) return { ok: false, error: "templateSids is ongeldig." }
+    const sids: Partial<Record<GuestLanguage, string>> = {}
+    for (const language of GUEST_LANGUAGES) {
+      const sid = byLanguage[language]
+      if (sid === undefined || sid === null || sid === "") continue
+      if (typeof sid !== "string" || !CONTENT_SID_PATTERN.test(sid.trim())) {
+        return {
+          ok: false,
+          error: `Template SID voor "${MESSAGE_TEMPLATE_LABELS[key]} (${GUEST_LANGUAGE_LABELS[language]})" moet met HX beginnen.`
+        }
+      }
+      sids[language] = sid.trim()
+    }
+    templateSids[key] = sids
+  }
+  return { ok: true, value: templateSids }
+}
+
+export function parseSenderConfig(body: unknown): ParseResult<SenderInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const { accountSid, authToken, messagingServiceSid } = body
+  if (typeof accountSid !== "string" || !ACCOUNT_SID_PATTERN.test(accountSid.trim())) {
+    return { ok: false, error: "Account SID moet met AC beginnen, gevolgd door 32 tekens." }
+  }
+  if (authToken !== undefined && authToken !== null && typeof authToken !== "string") {
+    return { ok: false, error: "Auth token is ongeldig." }
+  }
+  const whatsappFrom = parseOptionalSenderPhone(body.whatsappFrom, "WhatsApp-nummer")
+  if (!whatsappFrom.ok) return whatsappFrom
+  const smsFrom = parseOptionalSenderPhone(body.smsFrom, "SMS-nummer")
+  if (!smsFrom.ok) return smsFrom
+
+  let serviceSid: string | null = null
+  if (typeof messagingServiceSid === "string" && messagingServiceSid.trim()) {
+    if (!MESSAGING_SERVICE_SID_PATTERN.test(messagingServiceSid.trim())) {
+      return { ok: false, error: "Messaging Service SID moet met MG beginnen." }
+    }
+    serviceSid = messagingServiceSid.trim()
+  } else if (messagingServiceSid !== undefined && messagingServiceSid !== null && messagingServiceSid !== "") {
+    return { ok: false, error: "Messaging Service SID is ongeldig." }
+  }
+  if (!whatsappFrom.value && !smsFrom.value && !serviceSid) {
+    return {
+      ok: false,
+      error: "Vul minstens een WhatsApp-nummer, SMS-nummer of Messaging Service SID in."
+    }
+  }
+
+  const templateSids = parseTemplateSids(body.templateSids)
+  if (!templateSids.ok) return templateSids
+
+  return {
+    ok: true,
+    value: {
+      accountSid: accountSid.trim(),
+      authToken: authToken?.trim() || null,
+      whatsappFrom: whatsappFrom.value,
+      smsFrom: smsFrom.value,
+      messagingServiceSid: serviceSid,
+      templateSids: templateSids.value
+    }
+  }
+}
+
+// null turns the public booking page off.
+export function parseBookingSlug(body: unknown): ParseResult<string | null> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  if (body.slug === null || body.slug === "") return { ok: true, value: null }
+  if (typeof body.slug !== "string") return { ok: false, error: "Link is ongeldig." }
+  const slug = body.slug.trim().toLowerCase()
+  if (!BOOKING_SLUG_PATTERN.test(slug)) {
+    return {
+      ok: false,
+      error: "De link bestaat uit 3 tot 40 kleine letters, cijfers of koppeltekens."
+    }
+  }
+  return { ok: true, value: slug }
+}
+
+// Name, phone and code channel of a guest on a public page.
+function parseGuestContact(
+  body: Payload
+): ParseResult<{ name: string; phone: string; channel: BookingChannel }> {
+  if (!isNonEmptyString(body.name)) return { ok: false, error: "Naam is verplicht." }
+  if (body.name.trim().length > 80) return { ok: false, error: "Naam is te lang." }
+  const phone = typeof body.phone === "string" ? normalizePhone(body.phone) : ""
+  if (!phone.startsWith("+") || phone.length < 8) {
+    return {
+      ok: false,
+      error: "Telefoon moet in internationaal formaat staan, bv. +32470123456."
+    }
+  }
+  if (!isBookingChannel(body.channel)) {
+    return { ok: false, error: "Kies WhatsApp of SMS voor je code." }
+  }
+  return { ok: true, value: { name: body.name.trim(), phone, channel: body.channel } }
+}
+
+export type BookingRequestInput = Pick<
+  NewReservationInput,
+  "name" | "phone" | "date" | "time" | "partySize"
+> & { channel: BookingChannel }
+
+export function parseBookingRequest(body: unknown): ParseResult<BookingRequestInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const guest = parseGuestContact(body)
+  if (!guest.ok) return guest
+  if (typeof body.date !== "string" || !isValidDateKey(body.date)) {
+    return { ok: false, error: "Datum moet YYYY-MM-DD zijn." }
+  }
+  if (!isTime(body.time)) return { ok: false, error: "Uur moet HH:MM zijn." }
+  if (!isPositiveInteger(body.partySize) || body.partySize > MAX_ONLINE_PARTY_SIZE) {
+    return {
+      ok: false,
+      error: `Online reserveren kan voor 1 tot ${MAX_ONLINE_PARTY_SIZE} personen.`
+    }
+  }
+  return {
+    ok: true,
+    value: { ...guest.value, date: body.date, time: body.time, partySize: body.partySize }
+  }
+}
+
+export type WaitlistJoinInput = Pick<NewWaitlistInput, "name" | "phone" | "partySize"> & {
+  channel: BookingChannel
+}
+
+export function parseWaitlistJoinRequest(body: unknown): ParseResult<WaitlistJoinInput> {
+  if (!isPayload(body)) return { ok: false, error: "JSON body is ongeldig." }
+  const guest = parseGuestContact(body)
+  if (!guest.ok) return guest
+  if (!isPositiveInteger(body.partySize) || body.partySize > MAX_ONLINE_PARTY_SIZE) {
+    return {
+      ok: false,
+      error: `De wachtlijst is voor groepen van 1 tot ${MAX_ONLINE_PARTY_SIZE} personen.`
+    }
+  }
+  return { ok: true, value: { ...guest.value, partySize: body.partySize } }
+}
+
+export function parseGuestCode(
+  body: unknown
+): ParseResult<{ token: string; code: string }> {
+  if (!isPayload(body) || !isNonEmptyString(body.token)) {
+    return { ok: false, error: "Vraag eerst een code aan." }
+  }
+  if (typeof body.code !== "string" || !/^\d{6}$/.test(body.code.trim())) {
+    return { ok: false, error: "De code bestaat uit 6 cijfers." }
+  }
+  return { ok: true, value: { token: body.token, code: body.code.trim() } }
+}
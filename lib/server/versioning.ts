@@ -0,0 +1,90 @@
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+
+// Reservations, waitlist and table rows carry a `version` that a database trigger
+// bumps on every update. Writes from the dashboard name the version they were
+// based on; if anyone (another host, the cron job, a webhook) changed the row
+// in between, nothing is written and the caller gets the current row back.
+
+export type VersionedTable = "reservations" | "waitlist" | "restaurant_tables"
+
+export type VersionedWriteResult<Row> =
+  | { ok: true; row: Row | null }
+  | { ok: false; status: 404 | 409 | 500; error: string; current?: Row }
+
+// The answer to a failed versioned write. A conflict sends the current row
+// along, mapped with fromRow, so the dashboard can show what changed.
+export function versionedErrorResponse<Row, Item>(
+  result: { status: number; error: string; current?: Row },
+  notFoundMessage: string,
+  fromRow: (row: Row) => Item
+): Response {
+  if (result.status === 404) {
+    return Response.json({ ok: false, error: notFoundMessage }, { status: 404 })
+  }
+  return Response.json(
+    {
+      ok: false,
+      error: result.error,
+      current: result.current ? fromRow(result.current) : undefined
+    },
+    { status: result.status }
+  )
+}
+
+async function loadConflict<Row>(
+  table: VersionedTable,
+  id: string,
+  restaurantId: string
+): Promise<VersionedWriteResult<Row>> {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select("*")
+    .eq("id", id)
+    .eq("restaurant_id", restaurantId)
+    .maybeSingle()
+  if (error) return { ok: false, status: 500, error: error.message }
+  if (!data) return { ok: false, status: 404, error: "Niet gevonden." }
+  return {
+    ok: false,
+    status: 409,
+    error: "Deze rij werd intussen door iemand anders gewijzigd.",
+    current: data as Row
+  }
+}
+
+export async function updateVersionedRow<Row>(params: {
+  table: VersionedTable
+  id: string
+  restaurantId: string
+  version: number
+  changes: Record<string, unknown>
+}): Promise<VersionedWriteResult<Row>> {
+  const { data, error } = await supabaseAdmin
+    .from(params.table)
+    .update(params.changes)
+    .eq("id", params.id)
+    .eq("restaurant_id", params.restaurantId)
+    .eq("version", params.version)
+    .select("*")
+  if (error) return { ok: false, status: 500, error: error.message }
+  if (data && data.length > 0) return { ok: true, row: data[0] as Row }
+  return loadConflict<Row>(params.table, params.id, params.restaurantId)
+}
+
+export async function deleteVersionedRow<Row>(params: {
+  table: VersionedTable
+  id: string
+  restaurantId: string
+  version: number
+}): Promise<VersionedWriteResult<Row>> {
+  const { data, error } = await supabaseAdmin
+    .from(params.table)
+    .delete()
+    .eq("id", params.id)
+    .eq("restaurant_id", params.restaurantId)
+    .eq("version", params.version)
+    .select("id")
+  if (error) return { ok: false, status: 500, error: error.message }
+  if (data && data.length > 0) return { ok: true, row: null }
+  return loadConflict<Row>(params.table, params.id, params.restaurantId)
+}
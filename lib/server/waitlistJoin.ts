@@ -0,0 +1,113 @@
+import type { WaitlistEntry } from "@/data/waitlist"
+import { getPhoneLookupKeys } from "@/lib/phone"
+import type { BookingRestaurant, BookingResult } from "@/lib/server/booking"
+import { sendGuestText } from "@/lib/server/guestCodes"
+import { GUEST_COPY } from "@/lib/server/guestCopy"
+import { supabaseAdmin } from "@/lib/server/supabaseAdmin"
+import type { TwilioSendResult } from "@/lib/server/twilio"
+import type { WaitlistJoinInput } from "@/lib/server/validation"
+import { resolveGuestLanguage } from "@/lib/shared/languages"
+import { waitlistFromRow, waitlistToRow, type WaitlistRow } from "@/lib/shared/rows"
+
+// Walk-in guests scan the QR code at the door and put themselves on the
+// waitlist, confirming their number with a code (see guestCodes.ts).
+
+// id is the waitlist entry the confirmed code creates.
+export type WaitlistJoinRequest = WaitlistJoinInput & {
+  id: string
+  restaurantId: string
+}
+
+// Entries still in line, oldest first. Contacted guests have an offer out
+// and keep their place until they answer.
+async function loadQueue(restaurantId: string): Promise<BookingResult<{ queue: WaitlistEntry[] }>> {
+  const { data, error } = await supabaseAdmin
+    .from("waitlist")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .in("status", ["waiting", "contacted"])
+    .order("created_at", { ascending: true })
+  if (error) return { ok: false, error: error.message, status: 500 }
+  return { ok: true, queue: ((data ?? []) as WaitlistRow[]).map(waitlistFromRow) }
+}
+
+// The place of the guest with this phone number, written in any format.
+export async function findQueuedGuest(
+  restaurantId: string,
+  phone: string
+): Promise<BookingResult<{ entry: WaitlistEntry; position: number } | { entry: null }>> {
+  const loaded = await loadQueue(restaurantId)
+  if (!loaded.ok) return loaded
+
+  const keys = new Set(getPhoneLookupKeys(phone))
+  const index = loaded.queue.findIndex(entry =>
+    getPhoneLookupKeys(entry.phone).some(key => keys.has(key))
+  )
+  return index === -1
+    ? { ok: true, entry: null }
+    : { ok: true, entry: loaded.queue[index], position: index + 1 }
+}
+
+export async function sendWaitlistCode(params: {
+  restaurant: BookingRestaurant
+  request: WaitlistJoinRequest
+  code: string
+}): Promise<TwilioSendResult> {
+  const { restaurant, request } = params
+  const language = resolveGuestLanguage(undefined, request.phone)
+  return sendGuestText({
+    restaurantId: restaurant.id,
+    phone: request.phone,
+    channel: request.channel,
+    language,
+    body: GUEST_COPY[language].waitlistCode(params.code, restaurant.name)
+  })
+}
+
+// Writes the entry once; a second confirmation of the same code finds it
+// back. Returns the place in line and whether this call added the guest.
+export async function joinWaitlist(
+  restaurant: BookingRestaurant,
+  request: WaitlistJoinRequest
+): Promise<BookingResult<{ entry: WaitlistEntry; position: number; created: boolean }>> {
+  const row = {
+    ...waitlistToRow(
+      {
+        id: request.id,
+        name: request.name,
+        phone: request.phone,
+        partySize: request.partySize,
+        status: "waiting",
+        createdAt: Date.now()
+      },
+      restaurant.ownerUserId
+    ),
+    restaurant_id: restaurant.id
+  }
+
+  const { error } = await supabaseAdmin.from("waitlist").insert([row])
+  if (error && error.code !== "23505") return { ok: false, error: error.message, status: 500 }
+
+  const queued = await findQueuedGuest(restaurant.id, request.phone)
+  if (!queued.ok) return queued
+  if (!queued.entry) {
+    return { ok: false, error: "Je staat niet meer op de wachtlijst.", status: 409 }
+  }
+  return { ok: true, entry: queued.entry, position: queued.position, created: !error }
+}
+
+export async function sendWaitlistAcknowledgement(params: {
+  restaurant: BookingRestaurant
+  request: WaitlistJoinRequest
+  position: number
+}): Promise<TwilioSendResult> {
+  const { restaurant, request } = params
+  const language = resolveGuestLanguage(undefined, request.phone)
+  return sendGuestText({
+    restaurantId: restaurant.id,
+    phone: request.phone,
+    channel: request.channel,
+    language,
+    body: GUEST_COPY[language].waitlistJoined(params.position, restaurant.name)
+  })
+}
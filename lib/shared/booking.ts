@@ -0,0 +1,37 @@
+// Guests book themselves on /r/[slug], or in the same page framed on the
+// restaurant's own site. Only slots of a configured service are offered.
+// Walk-ins join the waitlist on /r/[slug]/waitlist, reached by a QR code.
+
+export const BOOKING_SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/
+
+export const MAX_ONLINE_PARTY_SIZE = 12
+
+// How far ahead guests can book, in days.
+export const BOOKING_DAYS_AHEAD = 60
+
+export type BookingChannel = "whatsapp" | "sms"
+
+// SMS first: a WhatsApp code is free text, which only arrives when the guest
+// messaged the restaurant in the last 24 hours.
+export const BOOKING_CHANNEL_LABELS: Record<BookingChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp"
+}
+
+export type BookingSlot = {
+  time: string
+  period: string
+  free: number
+}
+
+export function isBookingChannel(value: unknown): value is BookingChannel {
+  return value === "whatsapp" || value === "sms"
+}
+
+export function bookingPath(slug: string): string {
+  return `/r/${slug}`
+}
+
+export function waitlistJoinPath(slug: string): string {
+  return `/r/${slug}/waitlist`
+}
@@ -0,0 +1,41 @@
+import { languageFromPhone } from "@/lib/phone"
+
+// Languages guests are messaged in. Each reservation and waitlist entry has
+// one; when the host does not pick it, it follows the phone's country code.
+
+export type GuestLanguage = "nl" | "fr" | "en" | "pt"
+
+export const GUEST_LANGUAGES: GuestLanguage[] = ["nl", "fr", "en", "pt"]
+
+export const DEFAULT_GUEST_LANGUAGE: GuestLanguage = "nl"
+
+export const GUEST_LANGUAGE_LABELS: Record<GuestLanguage, string> = {
+  nl: "Nederlands",
+  fr: "Frans",
+  en: "Engels",
+  pt: "Portugees"
+}
+
+const GUEST_DATE_LOCALES: Record<GuestLanguage, string> = {
+  nl: "nl-BE",
+  fr: "fr-BE",
+  en: "en-GB",
+  pt: "pt-PT"
+}
+
+export function isGuestLanguage(value: unknown): value is GuestLanguage {
+  return typeof value === "string" && GUEST_LANGUAGES.includes(value as GuestLanguage)
+}
+
+export function resolveGuestLanguage(value: unknown, phone: string): GuestLanguage {
+  if (isGuestLanguage(value)) return value
+  return languageFromPhone(phone) ?? DEFAULT_GUEST_LANGUAGE
+}
+
+// Dates in a guest message follow the guest's language. The restaurant's
+// own locale is kept when it is already in that language (nl-NL vs nl-BE).
+export function getGuestLocale(language: GuestLanguage, restaurantLocale: string): string {
+  return restaurantLocale.toLowerCase().split("-")[0] === language
+    ? restaurantLocale
+    : GUEST_DATE_LOCALES[language]
+}
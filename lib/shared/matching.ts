@@ -0,0 +1,90 @@
+import type { AutomationSettings } from "@/lib/shared/settings"
+import type { SeatRange } from "@/lib/shared/tables"
+
+// Which waiting parties may take a freed table, and in what order. The
+// table's seats come from the tables assigned to the reservation that freed
+// it (see seatsForReservation). A party below the table's minCovers never
+// gets it. Fit, ranking and the label count from maxCovers: a smaller party
+// leaves seats empty (up to waitlistMaxEmptySeats), a larger one needs extra
+// chairs (up to waitlistMaxExtraGuests).
+
+export type MatchRules = Pick<
+  AutomationSettings,
+  "waitlistMaxEmptySeats" | "waitlistMaxExtraGuests" | "waitlistMatchPriority"
+>
+
+export type MatchCandidate = {
+  partySize: number
+  waitingSince: number
+}
+
+export type RankedMatch<T> = {
+  candidate: T
+  // Positive for empty seats, negative for extra guests, 0 for a full table.
+  seatDifference: number
+}
+
+// Empty seats left at maxCovers; negative for guests beyond it.
+export function seatDifference(seats: SeatRange, partySize: number): number {
+  return seats.maxCovers - partySize
+}
+
+export function fitsTable(seats: SeatRange, partySize: number, rules: MatchRules): boolean {
+  if (partySize < seats.minCovers) return false
+  const difference = seatDifference(seats, partySize)
+  return difference >= 0
+    ? difference <= rules.waitlistMaxEmptySeats
+    : -difference <= rules.waitlistMaxExtraGuests
+}
+
+// Lower is better: every empty seat counts once, and any party needing extra
+// chairs ranks after every party that leaves seats empty.
+function fitCost(seatDifference: number, rules: MatchRules): number {
+  return seatDifference >= 0
+    ? seatDifference
+    : rules.waitlistMaxEmptySeats + 1 - seatDifference
+}
+
+// best_fit: parties that fill the table first, then the fewest empty seats,
+// then parties that need extra chairs; longest waiting breaks ties.
+// longest_waiting ignores the fit once a party is within the allowed range.
+export function rankWaitlistCandidates<T extends MatchCandidate>(
+  seats: SeatRange,
+  candidates: T[],
+  rules: MatchRules
+): RankedMatch<T>[] {
+  return candidates
+    .filter(candidate => fitsTable(seats, candidate.partySize, rules))
+    .map(candidate => ({ candidate, seatDifference: seatDifference(seats, candidate.partySize) }))
+    .sort((left, right) => {
+      if (rules.waitlistMatchPriority === "best_fit") {
+        const byFit = fitCost(left.seatDifference, rules) - fitCost(right.seatDifference, rules)
+        if (byFit !== 0) return byFit
+      }
+      return left.candidate.waitingSince - right.candidate.waitingSince
+    })
+}
+
+// The open table a chosen party fits best, for a host who picks the guest
+// rather than the table. Tables are ordered oldest first by the caller.
+export function pickTableForParty<T extends { seats: SeatRange }>(
+  partySize: number,
+  tables: T[],
+  rules: MatchRules
+): T | undefined {
+  let best: { table: T; cost: number } | undefined
+  for (const table of tables) {
+    if (!fitsTable(table.seats, partySize, rules)) continue
+    const cost = fitCost(seatDifference(table.seats, partySize), rules)
+    if (!best || cost < best.cost) best = { table, cost }
+  }
+  return best?.table
+}
+
+export function describeSeatDifference(seatDifference: number): string {
+  if (seatDifference === 0) return "Exacte match"
+  if (seatDifference > 0) {
+    return seatDifference === 1 ? "1 stoel leeg" : `${seatDifference} stoelen leeg`
+  }
+  return -seatDifference === 1 ? "1 stoel bij" : `${-seatDifference} stoelen bij`
+}
@@ -0,0 +1,88 @@
+// Lifecycle of a reservation. The first six states belong to the booked
+// guests; offered, refilled and unfilled describe what happens to a table
+// they gave up: an offer round to the waitlist runs, a waiting guest took
+// it, or nobody did.
+export type ReservationStatus =
+  | "booked"
+  | "confirmed"
+  | "cancelled"
+  | "seated"
+  | "completed"
+  | "no_show"
+  | "offered"
+  | "refilled"
+  | "unfilled"
+
+export const RESERVATION_STATUSES: ReservationStatus[] = [
+  "booked",
+  "confirmed",
+  "cancelled",
+  "seated",
+  "completed",
+  "no_show",
+  "offered",
+  "refilled",
+  "unfilled"
+]
+
+// Every change of status, by a host, a guest's reply, the cron job or an
+// offer, must be listed here. An offer round that ends without a taker
+// returns the table to the status it came from.
+const TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  booked: ["confirmed", "cancelled", "seated", "no_show"],
+  confirmed: ["cancelled", "seated", "no_show"],
+  seated: ["completed"],
+  completed: [],
+  cancelled: ["offered", "unfilled"],
+  // A late party can still be seated as long as the table was not offered.
+  no_show: ["seated", "offered", "unfilled"],
+  offered: ["refilled", "cancelled", "no_show", "unfilled"],
+  refilled: ["seated", "cancelled", "no_show"],
+  unfilled: ["offered"]
+}
+
+// What a host may set by hand; the waitlist states only follow from offers.
+export const MANUAL_RESERVATION_STATUSES: ReservationStatus[] = [
+  "confirmed",
+  "cancelled",
+  "seated",
+  "completed",
+  "no_show"
+]
+
+// Tables the waitlist engine offers to waiting guests.
+export const FREED_RESERVATION_STATUSES: ReservationStatus[] = ["cancelled", "no_show"]
+
+// Tables a host can still hand to a waiting guest by hand.
+export const OPEN_TABLE_STATUSES: ReservationStatus[] = [
+  ...FREED_RESERVATION_STATUSES,
+  "unfilled"
+]
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  booked: "wachten op bevestiging",
+  confirmed: "bevestigd",
+  cancelled: "geannuleerd",
+  seated: "aan tafel",
+  completed: "afgerond",
+  no_show: "no-show",
+  offered: "aangeboden aan wachtlijst",
+  refilled: "opgevuld",
+  unfilled: "niet opgevuld"
+}
+
+export function isReservationStatus(value: unknown): value is ReservationStatus {
+  return RESERVATION_STATUSES.includes(value as ReservationStatus)
+}
+
+export function canTransition(from: ReservationStatus, to: ReservationStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+export function canSetManually(from: ReservationStatus, to: ReservationStatus): boolean {
+  return MANUAL_RESERVATION_STATUSES.includes(to) && canTransition(from, to)
+}
+
+export function isOpenTable(status: ReservationStatus): boolean {
+  return OPEN_TABLE_STATUSES.includes(status)
+}
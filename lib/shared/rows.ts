@@ -0,0 +1,339 @@
+import type { MessageChannel, MessageDelivery, MessageStatus } from "@/data/messages"
+import type { OfferAttempt, OfferAttemptStatus } from "@/data/offers"
+import type { Reservation } from "@/data/reservations"
+import type { RestaurantTable } from "@/data/tables"
+import type { WaitlistEntry } from "@/data/waitlist"
+import {
+  DEFAULT_AUTOMATION_SETTINGS,
+  DEFAULT_LOCALE_SETTINGS,
+  DEFAULT_REMINDER_SETTINGS,
+  type AutomationSettings,
+  type LocaleSettings,
+  type ReminderSettings
+} from "@/lib/shared/settings"
+import { resolveGuestLanguage, type GuestLanguage } from "@/lib/shared/languages"
+import { mergeServiceHours, type ServiceHours } from "@/lib/shared/serviceHours"
+import {
+  mergeMessageTemplates,
+  type MessageTemplateSet,
+  type MessageTemplates
+} from "@/lib/shared/templates"
+import { getDateKeyInZone, isValidLocale, isValidTimeZone } from "@/lib/shared/time"
+
+export type ReservationRow = {
+  id: string
+  user_id: string
+  restaurant_id?: string | null
+  name: string
+  phone: string | null
+  email?: string | null
+  language?: string | null
+  reservation_date: string | null
+  time: string
+  created_at: string | null
+  party_size: number
+  status: Reservation["status"]
+  filled_from_waitlist: boolean | null
+  original_guest_name: string | null
+  estimated_revenue: number
+  reminder_count: number | null
+  last_reminder_at: string | null
+  // Waitlist ids still to be offered this freed table, best match first.
+  waitlist_queue?: string[] | null
+  offer_attempts?: number | null
+  table_ids?: string[] | null
+  version?: number
+}
+
+export type WaitlistRow = {
+  id: string
+  user_id: string
+  restaurant_id?: string | null
+  name: string
+  phone: string
+  email?: string | null
+  language?: string | null
+  party_size: number
+  status: "waiting" | "contacted" | "declined" | null
+  created_at: string | null
+  last_contacted_at: string | null
+  version?: number
+}
+
+export type RestaurantTableRow = {
+  id: string
+  restaurant_id: string
+  name: string
+  min_covers: number
+  max_covers: number
+  area: string | null
+  combinable_with: string[] | null
+  pos_x: number
+  pos_y: number
+  created_at: string | null
+  version?: number
+}
+
+export type WaitlistOfferStatus = OfferAttemptStatus
+
+export type WaitlistOfferRow = {
+  id: string
+  restaurant_id: string
+  reservation_id: string
+  waitlist_id: string | null
+  guest_name: string
+  guest_phone: string
+  guest_language?: string | null
+  guest_party_size?: number | null
+  phone_keys: string[]
+  status: WaitlistOfferStatus
+  fallback_status: Reservation["status"]
+  created_at: string
+  expires_at: string
+  resolved_at: string | null
+}
+
+export type MessageLogRow = {
+  id: string
+  restaurant_id: string
+  reservation_id: string | null
+  channel: MessageChannel
+  to_phone: string
+  body: string | null
+  template_key: string | null
+  sid: string | null
+  status: MessageStatus
+  error_code: string | null
+  error_message: string | null
+  conversation_id: string | null
+  fallback_body: string | null
+  fallback_of: string | null
+  fallback_started_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type SettingsRow = {
+  id?: number
+  user_id: string
+  restaurant_id?: string | null
+  first_reminder_minutes_before: number | null
+  final_reminder_minutes_before: number | null
+  no_show_threshold_minutes: number | null
+  waitlist_response_minutes: number | null
+  preferred_channel: "whatsapp" | "sms" | "both" | "email" | null
+  timezone?: string | null
+  date_locale?: string | null
+  sms_fallback_enabled?: boolean | null
+  sms_fallback_minutes?: number | null
+  waitlist_max_empty_seats?: number | null
+  waitlist_max_extra_guests?: number | null
+  waitlist_match_priority?: "best_fit" | "longest_waiting" | null
+  waitlist_offer_mode?: "single" | "broadcast" | null
+  waitlist_broadcast_size?: number | null
+  waitlist_max_attempts?: number | null
+  message_templates?: Partial<Record<GuestLanguage, Partial<MessageTemplateSet>>> | null
+  service_hours?: ServiceHours | null
+}
+
+export function parseTimestamp(value: string | null): number | undefined {
+  if (!value) return undefined
+  const parsed = Date.parse(value.includes(" ") ? value.replace(" ", "T") : value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export function reservationFromRow(
+  row: ReservationRow,
+  timeZone = DEFAULT_LOCALE_SETTINGS.timeZone
+): Reservation {
+  const createdAt = parseTimestamp(row.created_at) ?? Date.now()
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone ?? "",
+    email: row.email ?? undefined,
+    language: resolveGuestLanguage(row.language, row.phone ?? ""),
+    // Rows from before reservation_date existed were always for the day they were created.
+    date: row.reservation_date ?? getDateKeyInZone(createdAt, timeZone),
+    time: row.time,
+    createdAt,
+    partySize: row.party_size,
+    status: row.status,
+    filledFromWaitlist: Boolean(row.filled_from_waitlist),
+    originalGuestName: row.original_guest_name ?? undefined,
+    estimatedRevenue: row.estimated_revenue,
+    reminderCount: row.reminder_count ?? 0,
+    lastReminderAt: parseTimestamp(row.last_reminder_at),
+    offerAttempts: row.offer_attempts ?? 0,
+    tableIds: row.table_ids ?? [],
+    version: row.version ?? 1
+  }
+}
+
+export function reservationToRow(entry: Reservation, userId: string): ReservationRow {
+  return {
+    id: entry.id,
+    user_id: userId,
+    name: entry.name,
+    phone: entry.phone,
+    email: entry.email ?? null,
+    language: resolveGuestLanguage(entry.language, entry.phone),
+    reservation_date: entry.date,
+    time: entry.time,
+    created_at: new Date(entry.createdAt ?? Date.now()).toISOString(),
+    party_size: entry.partySize,
+    status: entry.status,
+    filled_from_waitlist: Boolean(entry.filledFromWaitlist),
+    original_guest_name: entry.originalGuestName ?? null,
+    estimated_revenue: entry.estimatedRevenue,
+    reminder_count: entry.reminderCount,
+    last_reminder_at: entry.lastReminderAt
+      ? new Date(entry.lastReminderAt).toISOString()
+      : null,
+    table_ids: entry.tableIds
+  }
+}
+
+export function waitlistFromRow(row: WaitlistRow): WaitlistEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    email: row.email ?? undefined,
+    language: resolveGuestLanguage(row.language, row.phone),
+    partySize: row.party_size,
+    status: row.status ?? "waiting",
+    createdAt: parseTimestamp(row.created_at),
+    lastContactedAt: parseTimestamp(row.last_contacted_at),
+    version: row.version ?? 1
+  }
+}
+
+export function waitlistToRow(entry: WaitlistEntry, userId: string): WaitlistRow {
+  return {
+    id: entry.id,
+    user_id: userId,
+    restaurant_id: null,
+    name: entry.name,
+    phone: entry.phone,
+    email: entry.email ?? null,
+    language: resolveGuestLanguage(entry.language, entry.phone),
+    party_size: entry.partySize,
+    status: entry.status ?? "waiting",
+    created_at: new Date(entry.createdAt ?? Date.now()).toISOString(),
+    last_contacted_at: entry.lastContactedAt
+      ? new Date(entry.lastContactedAt).toISOString()
+      : null
+  }
+}
+
+export function tableFromRow(row: RestaurantTableRow): RestaurantTable {
+  return {
+    id: row.id,
+    name: row.name,
+    minCovers: row.min_covers,
+    maxCovers: row.max_covers,
+    area: row.area ?? undefined,
+    combinableWith: row.combinable_with ?? [],
+    x: row.pos_x,
+    y: row.pos_y,
+    version: row.version ?? 1
+  }
+}
+
+export function messageFromRow(row: MessageLogRow): MessageDelivery {
+  const createdAt = parseTimestamp(row.created_at) ?? Date.now()
+  return {
+    id: row.id,
+    reservationId: row.reservation_id,
+    channel: row.channel,
+    status: row.status,
+    errorMessage: row.error_message ?? undefined,
+    fallbackOf: row.fallback_of ?? null,
+    createdAt,
+    updatedAt: parseTimestamp(row.updated_at) ?? createdAt
+  }
+}
+
+export function offerFromRow(row: WaitlistOfferRow): OfferAttempt {
+  const createdAt = parseTimestamp(row.created_at) ?? Date.now()
+  return {
+    id: row.id,
+    reservationId: row.reservation_id,
+    waitlistId: row.waitlist_id,
+    guestName: row.guest_name,
+    partySize: row.guest_party_size ?? undefined,
+    status: row.status,
+    createdAt,
+    expiresAt: parseTimestamp(row.expires_at) ?? createdAt,
+    resolvedAt: parseTimestamp(row.resolved_at)
+  }
+}
+
+export function settingsFromRow(settings: SettingsRow | null): {
+  reminderSettings: ReminderSettings
+  automationSettings: AutomationSettings
+  localeSettings: LocaleSettings
+  messageTemplates: MessageTemplates
+  serviceHours: ServiceHours
+} {
+  const preferredChannel =
+    settings?.preferred_channel === "whatsapp" ||
+    settings?.preferred_channel === "sms" ||
+    settings?.preferred_channel === "both" ||
+    settings?.preferred_channel === "email"
+      ? settings.preferred_channel
+      : DEFAULT_AUTOMATION_SETTINGS.preferredChannel
+
+  return {
+    reminderSettings: {
+      firstReminderMinutesBefore:
+        settings?.first_reminder_minutes_before ??
+        DEFAULT_REMINDER_SETTINGS.firstReminderMinutesBefore,
+      finalReminderMinutesBefore:
+        settings?.final_reminder_minutes_before ??
+        DEFAULT_REMINDER_SETTINGS.finalReminderMinutesBefore
+    },
+    automationSettings: {
+      noShowThresholdMinutes:
+        settings?.no_show_threshold_minutes ??
+        DEFAULT_AUTOMATION_SETTINGS.noShowThresholdMinutes,
+      waitlistResponseMinutes:
+        settings?.waitlist_response_minutes ??
+        DEFAULT_AUTOMATION_SETTINGS.waitlistResponseMinutes,
+      preferredChannel,
+      smsFallbackEnabled:
+        settings?.sms_fallback_enabled ?? DEFAULT_AUTOMATION_SETTINGS.smsFallbackEnabled,
+      smsFallbackMinutes:
+        settings?.sms_fallback_minutes ?? DEFAULT_AUTOMATION_SETTINGS.smsFallbackMinutes,
+      waitlistMaxEmptySeats:
+        settings?.waitlist_max_empty_seats ?? DEFAULT_AUTOMATION_SETTINGS.waitlistMaxEmptySeats,
+      waitlistMaxExtraGuests:
+        settings?.waitlist_max_extra_guests ?? DEFAULT_AUTOMATION_SETTINGS.waitlistMaxExtraGuests,
+      waitlistMatchPriority:
+        settings?.waitlist_match_priority === "longest_waiting"
+          ? "longest_waiting"
+          : DEFAULT_AUTOMATION_SETTINGS.waitlistMatchPriority,
+      waitlistOfferMode:
+        settings?.waitlist_offer_mode === "broadcast"
+          ? "broadcast"
+          : DEFAULT_AUTOMATION_SETTINGS.waitlistOfferMode,
+      waitlistBroadcastSize:
+        settings?.waitlist_broadcast_size ?? DEFAULT_AUTOMATION_SETTINGS.waitlistBroadcastSize,
+      waitlistMaxAttempts:
+        settings?.waitlist_max_attempts ?? DEFAULT_AUTOMATION_SETTINGS.waitlistMaxAttempts
+    },
+    localeSettings: {
+      timeZone:
+        settings?.timezone && isValidTimeZone(settings.timezone)
+          ? settings.timezone
+          : DEFAULT_LOCALE_SETTINGS.timeZone,
+      locale:
+        settings?.date_locale && isValidLocale(settings.date_locale)
+          ? settings.date_locale
+          : DEFAULT_LOCALE_SETTINGS.locale
+    },
+    messageTemplates: mergeMessageTemplates(settings?.message_templates),
+    serviceHours: mergeServiceHours(settings?.service_hours)
+  }
+}
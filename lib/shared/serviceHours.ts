@@ -0,0 +1,242 @@
+import type { Reservation } from "@/data/reservations"
+import { isOpenTable } from "@/lib/shared/reservationStatus"
+import { isValidDateKey } from "@/lib/shared/time"
+
+// When guests can book, and how many may start in one slot. A service
+// period (lunch, dinner) runs on some weekdays from its first to its last
+// seating time; closures shut single days such as holidays. Without any
+// period every time is accepted, as before service hours existed.
+
+// 0 is Sunday, as Date.getUTCDay().
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+export type ServicePeriod = {
+  name: string
+  weekdays: Weekday[]
+  // First and last time a reservation can start, "HH:MM".
+  start: string
+  end: string
+  slotMinutes: number
+  maxCoversPerSlot: number
+}
+
+export type ServiceClosure = {
+  date: string
+  label: string
+}
+
+export type ServiceHours = {
+  periods: ServicePeriod[]
+  closures: ServiceClosure[]
+}
+
+export const DEFAULT_SERVICE_HOURS: ServiceHours = {
+  periods: [],
+  closures: []
+}
+
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0]
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: "zo",
+  1: "ma",
+  2: "di",
+  3: "wo",
+  4: "do",
+  5: "vr",
+  6: "za"
+}
+
+export const SLOT_MINUTE_OPTIONS = [15, 30, 60]
+
+export const MAX_COVERS_PER_SLOT = 500
+
+export type ServiceSlot = {
+  period: ServicePeriod
+  // Start of the slot, "HH:MM".
+  start: string
+}
+
+export type ServiceSlotLookup =
+  | { ok: true; slot: ServiceSlot | null }
+  | { ok: false; error: string }
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export function isServiceTime(value: unknown): value is string {
+  return typeof value === "string" && TIME_PATTERN.test(value)
+}
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+}
+
+export function weekdayOf(date: string): Weekday {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() as Weekday
+}
+
+export function findClosure(hours: ServiceHours, date: string): ServiceClosure | undefined {
+  return hours.closures.find(closure => closure.date === date)
+}
+
+export function getDayPeriods(hours: ServiceHours, date: string): ServicePeriod[] {
+  if (findClosure(hours, date)) return []
+  const weekday = weekdayOf(date)
+  return hours.periods
+    .filter(period => period.weekdays.includes(weekday))
+    .sort((left, right) => toMinutes(left.start) - toMinutes(right.start))
+}
+
+export function describePeriods(periods: ServicePeriod[]): string {
+  return periods.map(period => `${period.name} ${period.start}-${period.end}`).join(", ")
+}
+
+// The slot a reservation at this time starts in, or an error when the
+// restaurant is closed then.
+export function findServiceSlot(
+  hours: ServiceHours,
+  date: string,
+  time: string
+): ServiceSlotLookup {
+  if (hours.periods.length === 0) return { ok: true, slot: null }
+
+  const closure = findClosure(hours, date)
+  if (closure) {
+    return {
+      ok: false,
+      error: `Het restaurant is gesloten op ${date}${closure.label ? ` (${closure.label})` : ""}.`
+    }
+  }
+  const periods = getDayPeriods(hours, date)
+  if (periods.length === 0) {
+    return { ok: false, error: "Het restaurant is gesloten op deze dag." }
+  }
+
+  const minutes = toMinutes(time)
+  const period = periods.find(
+    candidate => minutes >= toMinutes(candidate.start) && minutes <= toMinutes(candidate.end)
+  )
+  if (!period) {
+    return {
+      ok: false,
+      error: `Reservaties kunnen enkel tijdens de openingsuren: ${describePeriods(periods)}.`
+    }
+  }
+
+  const offset = minutes - toMinutes(period.start)
+  const slotStart = toMinutes(period.start) + offset - (offset % period.slotMinutes)
+  return { ok: true, slot: { period, start: fromMinutes(slotStart) } }
+}
+
+export function listDaySlots(hours: ServiceHours, date: string): ServiceSlot[] {
+  return getDayPeriods(hours, date).flatMap(period => {
+    const slots: ServiceSlot[] = []
+    for (
+      let minutes = toMinutes(period.start);
+      minutes <= toMinutes(period.end);
+      minutes += period.slotMinutes
+    ) {
+      slots.push({ period, start: fromMinutes(minutes) })
+    }
+    return slots
+  })
+}
+
+export type BookedReservation = Pick<Reservation, "id" | "date" | "time" | "partySize" | "status">
+
+// Guests holding a table in this slot. Tables given up by a cancellation
+// or no-show do not count until the waitlist fills them.
+export function coversInSlot(
+  hours: ServiceHours,
+  reservations: BookedReservation[],
+  date: string,
+  slot: ServiceSlot
+): number {
+  return reservations
+    .filter(reservation => reservation.date === date && !isOpenTable(reservation.status))
+    .filter(reservation => {
+      const lookup = findServiceSlot(hours, date, reservation.time)
+      return lookup.ok && lookup.slot?.start === slot.start && lookup.slot.period === slot.period
+    })
+    .reduce((sum, reservation) => sum + reservation.partySize, 0)
+}
+
+export type CapacityCheck = { ok: true } | { ok: false; error: string }
+
+// Whether a new or moved reservation fits its slot. id leaves out the
+// reservation's own covers when it is being changed.
+export function checkServiceCapacity(
+  hours: ServiceHours,
+  reservations: BookedReservation[],
+  candidate: { id?: string; date: string; time: string; partySize: number }
+): CapacityCheck {
+  const lookup = findServiceSlot(hours, candidate.date, candidate.time)
+  if (!lookup.ok) return lookup
+  if (!lookup.slot) return { ok: true }
+
+  const { slot } = lookup
+  const used = coversInSlot(
+    hours,
+    reservations.filter(reservation => reservation.id !== candidate.id),
+    candidate.date,
+    slot
+  )
+  const remaining = slot.period.maxCoversPerSlot - used
+  if (candidate.partySize > remaining) {
+    return {
+      ok: false,
+      error:
+        remaining > 0
+          ? `${slot.period.name} om ${slot.start} heeft nog ${remaining} plaatsen vrij.`
+          : `${slot.period.name} om ${slot.start} is volzet.`
+    }
+  }
+  return { ok: true }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function isWeekday(value: unknown): value is Weekday {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 6
+}
+
+export function isServicePeriod(value: unknown): value is ServicePeriod {
+  return (
+    isRecord(value) &&
+    typeof value.name === "string" &&
+    Array.isArray(value.weekdays) &&
+    value.weekdays.every(isWeekday) &&
+    isServiceTime(value.start) &&
+    isServiceTime(value.end) &&
+    SLOT_MINUTE_OPTIONS.includes(value.slotMinutes as number) &&
+    typeof value.maxCoversPerSlot === "number" &&
+    Number.isInteger(value.maxCoversPerSlot) &&
+    value.maxCoversPerSlot > 0
+  )
+}
+
+export function isServiceClosure(value: unknown): value is ServiceClosure {
+  return (
+    isRecord(value) &&
+    typeof value.date === "string" &&
+    isValidDateKey(value.date) &&
+    typeof value.label === "string"
+  )
+}
+
+// Stored hours were validated on save; anything unreadable is dropped.
+export function mergeServiceHours(stored: unknown): ServiceHours {
+  if (!isRecord(stored)) return DEFAULT_SERVICE_HOURS
+  return {
+    periods: Array.isArray(stored.periods) ? stored.periods.filter(isServicePeriod) : [],
+    closures: Array.isArray(stored.closures) ? stored.closures.filter(isServiceClosure) : []
+  }
+}
@@ -5,10 +5,35 @@ export type ReminderSettings = {
 
 export type ContactChannel = "whatsapp" | "sms" | "both" | "email"
 
+// best_fit: exact parties first, then the closest fit. longest_waiting:
+// whoever waits longest among the parties that fit.
+export type WaitlistMatchPriority = "best_fit" | "longest_waiting"
+
+// single: one guest at a time. broadcast: the best waitlistBroadcastSize
+// guests at once; the first to accept gets the table.
+export type WaitlistOfferMode = "single" | "broadcast"
+
 export type AutomationSettings = {
   noShowThresholdMinutes: number
   waitlistResponseMinutes: number
   preferredChannel: ContactChannel
+  // Resend via SMS when a WhatsApp message fails or is not delivered within
+  // smsFallbackMinutes. Only used with preferredChannel "whatsapp".
+  smsFallbackEnabled: boolean
+  smsFallbackMinutes: number
+  // Which waiting parties may take a freed table; see lib/shared/matching.
+  waitlistMaxEmptySeats: number
+  waitlistMaxExtraGuests: number
+  waitlistMatchPriority: WaitlistMatchPriority
+  waitlistOfferMode: WaitlistOfferMode
+  waitlistBroadcastSize: number
+  // Offer rounds per freed table before it is marked unfilled.
+  waitlistMaxAttempts: number
+}
+
+export type LocaleSettings = {
+  timeZone: string
+  locale: string
 }
 
 export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
@@ -19,5 +44,34 @@ export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
 export const DEFAULT_AUTOMATION_SETTINGS: AutomationSettings = {
   noShowThresholdMinutes: 15,
   waitlistResponseMinutes: 10,
-  preferredChannel: "whatsapp"
+  preferredChannel: "whatsapp",
+  smsFallbackEnabled: true,
+  smsFallbackMinutes: 10,
+  waitlistMaxEmptySeats: 0,
+  waitlistMaxExtraGuests: 0,
+  waitlistMatchPriority: "best_fit",
+  waitlistOfferMode: "single",
+  waitlistBroadcastSize: 3,
+  waitlistMaxAttempts: 3
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  timeZone: "Europe/Brussels",
+  locale: "nl-BE"
+}
+
+export function isWhatsAppChannel(channel: ContactChannel): boolean {
+  return channel === "whatsapp" || channel === "both"
+}
+
+export function isSmsChannel(channel: ContactChannel): boolean {
+  return channel === "sms" || channel === "both"
+}
+
+export function isEmailChannel(channel: ContactChannel): boolean {
+  return channel === "email"
+}
+
+export function supportsReplyAutomation(channel: ContactChannel): boolean {
+  return isWhatsAppChannel(channel) || isSmsChannel(channel) || isEmailChannel(channel)
 }
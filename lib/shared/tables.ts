@@ -0,0 +1,91 @@
+import type { RestaurantTable } from "@/data/tables"
+
+// The floor plan is a grid of FLOOR_PLAN_COLUMNS by FLOOR_PLAN_ROWS cells,
+// one table per cell.
+export const FLOOR_PLAN_COLUMNS = 12
+export const FLOOR_PLAN_ROWS = 8
+
+export const MAX_TABLE_COVERS = 30
+
+// How many guests a table, or a set of tables pushed together, seats.
+export type SeatRange = {
+  minCovers: number
+  maxCovers: number
+}
+
+type TableLike = Pick<RestaurantTable, "id" | "minCovers" | "maxCovers" | "combinableWith">
+
+// Combining works both ways, even when only one of the tables lists the other.
+export function areCombinable(left: TableLike, right: TableLike): boolean {
+  return left.combinableWith.includes(right.id) || right.combinableWith.includes(left.id)
+}
+
+// A set of tables can be combined when every table links to the others
+// through tables it can be pushed against.
+export function canCombineTables(tables: TableLike[]): boolean {
+  if (tables.length <= 1) return true
+  const joined = [tables[0]]
+  const rest = tables.slice(1)
+  while (rest.length > 0) {
+    const next = rest.findIndex(table => joined.some(member => areCombinable(member, table)))
+    if (next === -1) return false
+    joined.push(...rest.splice(next, 1))
+  }
+  return true
+}
+
+// Combined tables need the largest minimum of their parts and seat the sum of
+// their maximums.
+export function combinedSeats(tables: TableLike[]): SeatRange | null {
+  if (tables.length === 0) return null
+  return {
+    minCovers: Math.max(...tables.map(table => table.minCovers)),
+    maxCovers: tables.reduce((sum, table) => sum + table.maxCovers, 0)
+  }
+}
+
+// Tables deleted from the floor plan drop out of an assignment.
+export function assignedTables<T extends { id: string }>(tableIds: string[], tables: T[]): T[] {
+  return tableIds.flatMap(id => {
+    const table = tables.find(candidate => candidate.id === id)
+    return table ? [table] : []
+  })
+}
+
+// What a reservation's table seats: its assigned tables, or up to its own
+// party size when no table was assigned.
+export function seatsForReservation(
+  reservation: { partySize: number; tableIds: string[] },
+  tables: TableLike[]
+): SeatRange {
+  return (
+    combinedSeats(assignedTables(reservation.tableIds, tables)) ?? {
+      minCovers: 1,
+      maxCovers: reservation.partySize
+    }
+  )
+}
+
+// What a host can pick for a reservation: every table on its own and every
+// pair that can be pushed together. Larger combinations go through the API.
+export function tableAssignmentOptions<T extends TableLike>(tables: T[]): T[][] {
+  const pairs = tables.flatMap((left, index) =>
+    tables
+      .slice(index + 1)
+      .filter(right => areCombinable(left, right))
+      .map(right => [left, right])
+  )
+  return [...tables.map(table => [table]), ...pairs]
+}
+
+export function describeSeatRange(seats: SeatRange): string {
+  return seats.minCovers === seats.maxCovers
+    ? `${seats.maxCovers} pers.`
+    : `${seats.minCovers}-${seats.maxCovers} pers.`
+}
+
+export function describeTables(tableIds: string[], tables: RestaurantTable[]): string {
+  return assignedTables(tableIds, tables)
+    .map(table => table.name)
+    .join(" + ")
+}
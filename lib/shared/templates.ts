@@ -0,0 +1,185 @@
+// Guest-facing message texts each restaurant can edit in /settings. The keys
+// match the Twilio content templates (TWILIO_TEMPLATE_*_SID): when a SID is
+// set, WhatsApp sends the approved template and these texts are used for
+// SMS, e-mail and WhatsApp without a SID. There is one set per guest
+// language.
+
+import {
+  DEFAULT_GUEST_LANGUAGE,
+  GUEST_LANGUAGES,
+  type GuestLanguage
+} from "@/lib/shared/languages"
+
+export type MessageTemplateKey =
+  | "reminder_first"
+  | "reminder_final"
+  | "confirmation"
+  | "cancellation"
+  | "waitlist_offer"
+
+export type MessageTemplateSet = Record<MessageTemplateKey, string>
+
+export type MessageTemplates = Record<GuestLanguage, MessageTemplateSet>
+
+export type TemplateVariable = "name" | "restaurant" | "date" | "time" | "partySize" | "minutes"
+
+export type TemplateVariables = Partial<Record<TemplateVariable, string | number>>
+
+export const MESSAGE_TEMPLATE_KEYS: MessageTemplateKey[] = [
+  "reminder_first",
+  "reminder_final",
+  "confirmation",
+  "cancellation",
+  "waitlist_offer"
+]
+
+export const MESSAGE_TEMPLATE_LABELS: Record<MessageTemplateKey, string> = {
+  reminder_first: "Eerste herinnering",
+  reminder_final: "Laatste herinnering",
+  confirmation: "Bevestiging",
+  cancellation: "Annulering",
+  waitlist_offer: "Wachtlijst-aanbod"
+}
+
+export const TEMPLATE_VARIABLES: Record<MessageTemplateKey, TemplateVariable[]> = {
+  reminder_first: ["name", "restaurant", "date", "time", "partySize"],
+  reminder_final: ["name", "restaurant", "date", "time", "partySize"],
+  confirmation: ["name", "restaurant", "date", "time", "partySize"],
+  cancellation: ["name", "restaurant", "date", "time", "partySize"],
+  waitlist_offer: ["name", "restaurant", "date", "time", "partySize", "minutes"]
+}
+
+// Reply instructions ("Antwoord met JA ...") are not part of the texts: they
+// are added per channel, since e-mail uses buttons instead.
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplates = {
+  nl: {
+    reminder_first:
+      "Dag {name}, bevestig je reservatie van {date} om {time} voor {partySize} personen.",
+    reminder_final: "Laatste herinnering: bevestig je reservatie van {date} om {time}.",
+    confirmation: "Top, je reservatie is bevestigd. Tot straks.",
+    cancellation: "De annulering van je reservatie is ontvangen. Bedankt voor het laten weten.",
+    waitlist_offer:
+      "Dag {name}, er is nu een tafel vrijgekomen bij {restaurant} voor {partySize} personen. Het aanbod blijft {minutes} minuten geldig."
+  },
+  fr: {
+    reminder_first:
+      "Bonjour {name}, merci de confirmer votre réservation du {date} à {time} pour {partySize} personnes.",
+    reminder_final: "Dernier rappel : merci de confirmer votre réservation du {date} à {time}.",
+    confirmation: "Parfait, votre réservation est confirmée. À tout à l'heure.",
+    cancellation:
+      "Nous avons bien reçu l'annulation de votre réservation. Merci de nous avoir prévenus.",
+    waitlist_offer:
+      "Bonjour {name}, une table pour {partySize} personnes vient de se libérer chez {restaurant}. L'offre reste valable {minutes} minutes."
+  },
+  en: {
+    reminder_first:
+      "Hi {name}, please confirm your reservation on {date} at {time} for {partySize} people.",
+    reminder_final: "Final reminder: please confirm your reservation on {date} at {time}.",
+    confirmation: "Great, your reservation is confirmed. See you soon.",
+    cancellation:
+      "We have received the cancellation of your reservation. Thanks for letting us know.",
+    waitlist_offer:
+      "Hi {name}, a table for {partySize} people has just become available at {restaurant}. The offer is valid for {minutes} minutes."
+  },
+  pt: {
+    reminder_first:
+      "Olá {name}, confirme a sua reserva de {date} às {time} para {partySize} pessoas.",
+    reminder_final: "Último lembrete: confirme a sua reserva de {date} às {time}.",
+    confirmation: "Ótimo, a sua reserva está confirmada. Até já.",
+    cancellation: "Recebemos o cancelamento da sua reserva. Obrigado por nos avisar.",
+    waitlist_offer:
+      "Olá {name}, ficou livre uma mesa para {partySize} pessoas em {restaurant}. A oferta é válida durante {minutes} minutos."
+  }
+}
+
+export const MAX_TEMPLATE_LENGTH = 640
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const value = variables[key as TemplateVariable]
+    return value === undefined ? match : String(value)
+  })
+}
+
+export function findUnknownPlaceholders(key: MessageTemplateKey, template: string): string[] {
+  const allowed = new Set<string>(TEMPLATE_VARIABLES[key])
+  return [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map(match => match[1])
+    .filter(name => !allowed.has(name))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function mergeTemplateSet(defaults: MessageTemplateSet, stored: unknown): MessageTemplateSet {
+  const templates = { ...defaults }
+  if (!isRecord(stored)) return templates
+  for (const key of MESSAGE_TEMPLATE_KEYS) {
+    const value = stored[key]
+    if (typeof value === "string" && value.trim()) templates[key] = value
+  }
+  return templates
+}
+
+// Stored templates may be partial (or missing keys and languages added
+// later); every text falls back to its default. Rows saved before there
+// were languages hold a single set, which is the Dutch one.
+export function mergeMessageTemplates(stored: unknown): MessageTemplates {
+  const isSingleSet =
+    isRecord(stored) && MESSAGE_TEMPLATE_KEYS.some(key => typeof stored[key] === "string")
+  const sets: Record<string, unknown> = isSingleSet
+    ? { [DEFAULT_GUEST_LANGUAGE]: stored }
+    : isRecord(stored)
+      ? stored
+      : {}
+
+  const templates = {} as MessageTemplates
+  for (const language of GUEST_LANGUAGES) {
+    templates[language] = mergeTemplateSet(DEFAULT_MESSAGE_TEMPLATES[language], sets[language])
+  }
+  return templates
+}
+
+const GSM_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà"
+const GSM_EXTENDED = "^{}\\[~]|€\f"
+
+export type SmsLength = {
+  characters: number
+  segments: number
+  encoding: "GSM-7" | "UCS-2"
+}
+
+// Twilio splits long SMS into segments of 153 GSM-7 characters (160 for a
+// single one), or 67/70 when any character needs UCS-2.
+export function countSmsSegments(text: string): SmsLength {
+  let gsmUnits = 0
+  let isGsm = true
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) gsmUnits += 1
+    else if (GSM_EXTENDED.includes(char)) gsmUnits += 2
+    else {
+      isGsm = false
+      break
+    }
+  }
+
+  if (isGsm) {
+    return {
+      characters: gsmUnits,
+      segments: gsmUnits <= 160 ? 1 : Math.ceil(gsmUnits / 153),
+      encoding: "GSM-7"
+    }
+  }
+
+  // UCS-2 counts UTF-16 code units, so emoji take two.
+  const units = text.length
+  return {
+    characters: units,
+    segments: units <= 70 ? 1 : Math.ceil(units / 67),
+    encoding: "UCS-2"
+  }
+}
@@ -0,0 +1,163 @@
+export type ZonedParts = {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0
+  } catch {
+    return false
+  }
+}
+
+export function getZonedParts(referenceTimestamp: number, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23"
+  })
+
+  const parts = formatter.formatToParts(referenceTimestamp)
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? "0")
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+    second: value("second")
+  }
+}
+
+function getTimeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone)
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  )
+  return wallClockAsUtc - Math.floor(timestamp / 1000) * 1000
+}
+
+// Converts a wall-clock time in `timeZone` to an epoch timestamp. The second
+// pass corrects the offset when the first guess lands across a DST switch.
+function zonedWallClockToTimestamp(parts: ZonedParts, timeZone: string): number {
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  )
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMs(wallClockAsUtc, timeZone)
+  return wallClockAsUtc - getTimeZoneOffsetMs(firstGuess, timeZone)
+}
+
+// Reservation dates are calendar days in the restaurant's timezone, in
+// "YYYY-MM-DD" form.
+export function isValidDateKey(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return false
+  const [, year, month, day] = match.map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  )
+}
+
+export function getDateKeyInZone(referenceTimestamp: number, timeZone: string): string {
+  const parts = getZonedParts(referenceTimestamp, timeZone)
+  const month = String(parts.month).padStart(2, "0")
+  const day = String(parts.day).padStart(2, "0")
+  return `${parts.year}-${month}-${day}`
+}
+
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  const shifted = new Date(Date.UTC(year, month - 1, day + days))
+  return shifted.toISOString().slice(0, 10)
+}
+
+export function formatDateKey(dateKey: string, locale: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number)
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).format(Date.UTC(year, month - 1, day))
+}
+
+export function formatTimeKey(time: string, locale: string): string {
+  const [hours, minutes] = time.split(":").map(Number)
+  if (!Number.isInteger(hours) || !Number.isInteger(minutes)) return time
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: "UTC",
+    hour: "2-digit",
+    minute: "2-digit"
+  }).format(Date.UTC(1970, 0, 1, hours, minutes))
+}
+
+export function formatTimestamp(
+  timestamp: number,
+  timeZone: string,
+  locale: string,
+  options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" }
+): string {
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(timestamp)
+}
+
+export function getReservationTimestamp(
+  date: string,
+  time: string,
+  timeZone: string
+): number | null {
+  const [hoursPart, minutesPart] = time.split(":")
+  const hours = Number(hoursPart)
+  const minutes = Number(minutesPart)
+
+  if (
+    !isValidDateKey(date) ||
+    !Number.isInteger(hours) ||
+    !Number.isInteger(minutes) ||
+    hours < 0 ||
+    hours > 23 ||
+    minutes < 0 ||
+    minutes > 59
+  ) {
+    return null
+  }
+
+  const [year, month, day] = date.split("-").map(Number)
+  return zonedWallClockToTimestamp(
+    { year, month, day, hour: hours, minute: minutes, second: 0 },
+    timeZone
+  )
+}